@@ -1,28 +1,132 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useDeferredValue } from 'react';
 import Sidebar from './components/Sidebar';
 import Player from './components/Player';
 import SettingsModal from './components/SettingsModal';
+import FolderBrowser from './components/FolderBrowser';
+import LibraryBrowser from './components/LibraryBrowser';
+import PlaylistView from './components/PlaylistView';
+import LikedSongsView from './components/LikedSongsView';
+import TrackMenu, { TrackMenuItem } from './components/TrackMenu';
+import PlaylistImportModal, { PlaylistImportResult } from './components/PlaylistImportModal';
+import CommandPalette, { PaletteCommand } from './components/CommandPalette';
+import TrackResults from './components/TrackResults';
 import { MOCK_TRACKS } from './constants';
-import { Track } from './types';
-import { driveService } from './services/googleDriveService';
-import { Cloud, Play, MoreVertical, Clock, Music, Grid, List as ListIcon, Search as SearchIcon, Loader2, CheckCircle2, Settings, Menu } from 'lucide-react';
+import { AppView, DriveFolder, Track } from './types';
+import { driveService, AuthState, DriveLibrary, SyncProgress } from './services/googleDriveService';
+import { FolderTree } from './services/folderTree';
+import { AlbumIndex } from './services/albumIndex';
+import { offlineService } from './services/offlineService';
+import { metadataService } from './services/metadataService';
+import { playlistService } from './services/playlistService';
+import { likesService } from './services/likesService';
+import { playbackController } from './services/playbackController';
+import { longFormService } from './services/longFormService';
+import { sleepTimerService, LIBRARY_SOURCE } from './services/sleepTimerService';
+import { PLAYLIST_FORMATS, PlaylistFormat, parsePlaylist, formatPlaylist, driveFileLink } from './services/playlistFormats';
+import { matchPlaylistEntries } from './services/playlistMatcher';
+import { searchTracks, sortResults, TrackSort } from './services/trackSearch';
+import { shortcutFor, isDialogOpen, ShortcutAction, SHORTCUT_LABELS, SEEK_STEP_SECONDS, VOLUME_STEP } from './services/keyboardShortcuts';
+import { Cloud, Play, Download, Trash2, Music, Grid, List as ListIcon, Search as SearchIcon, Loader2, CheckCircle2, Settings, Menu, AlertTriangle, ListPlus, ListMusic, PlusCircle, ListStart, ListEnd, FileDown, Link2, FolderOpen, Pause, SkipForward, SkipBack, Shuffle, Repeat, Volume2, VolumeX, Maximize2, Minimize2, Heart, Home, Library, FileUp } from 'lucide-react';
 
 const App: React.FC = () => {
   const [tracks, setTracks] = useState<Track[]>(MOCK_TRACKS);
-  const [currentTrack, setCurrentTrack] = useState<Track | null>(MOCK_TRACKS[0]);
+  const [folders, setFolders] = useState<DriveFolder[]>([]);
+  const [rootFolderId, setRootFolderId] = useState<string | null>(null);
+  const [libraryRoots, setLibraryRoots] = useState<string[]>(() => driveService.getLibraryRoots());
+  const [activeView, setActiveView] = useState<AppView>('home');
   const [searchQuery, setSearchQuery] = useState('');
+  const [trackSort, setTrackSort] = useState<TrackSort | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [isSyncing, setIsSyncing] = useState(false);
+  const [syncProgress, setSyncProgress] = useState<SyncProgress | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [authState, setAuthState] = useState<AuthState>(driveService.getAuthState());
   const [showSettings, setShowSettings] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [importResult, setImportResult] = useState<PlaylistImportResult | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
   
   // Player State
-  const [repeatMode, setRepeatMode] = useState<'none' | 'all' | 'one'>('none');
-  const [isShuffle, setIsShuffle] = useState(false);
-  const [shuffledTracks, setShuffledTracks] = useState<Track[]>([]);
+  const [playerState, setPlayerState] = useState(playbackController.getState());
   const [isFullScreen, setIsFullScreen] = useState(false);
+  const currentTrack = playerState.currentTrack;
+
+  const folderTree = useMemo(
+    () => new FolderTree(folders, tracks, rootFolderId, libraryRoots),
+    [folders, tracks, rootFolderId, libraryRoots]
+  );
+  const libraryTracks = useMemo(() => folderTree.getLibraryTracks(tracks), [folderTree, tracks]);
+  const albumIndex = useMemo(() => new AlbumIndex(libraryTracks), [libraryTracks]);
+
+  // Replaces the track list with the synced Drive library, dropping deleted or trashed files
+  const applyLibrary = (library: DriveLibrary) => {
+    setTracks(library.tracks);
+    setFolders(library.folders);
+    setRootFolderId(library.rootFolderId);
+    const current = playbackController.getState().currentTrack;
+    if (current && library.tracks.some(t => t.id === current.id)) return;
+    if (library.tracks.length > 0) playbackController.cue(library.tracks[0]);
+    else if (current) playbackController.unload();
+  };
+
+  // Read tags for anything new or changed since the last sync, and drop offline copies of removed files
+  const applySyncedLibrary = (library: DriveLibrary) => {
+    applyLibrary(library);
+    metadataService.enrich(library.tracks);
+    offlineService.pruneLibrary(library.tracks).catch(e => console.warn("Failed to prune offline copies:", e));
+    playlistService.syncWithDrive();
+  };
+
+  // Render the library saved by the last sync while auto-connect catches up
+  useEffect(() => {
+    driveService.loadCachedLibrary().then(library => {
+      if (library) applyLibrary(library);
+    });
+  }, []);
+
+  useEffect(() => driveService.onAuthStateChange(setAuthState), []);
+
+  // Fold tags read in the background into every copy of the affected tracks
+  useEffect(() => metadataService.subscribe(updates => {
+    const merge = (track: Track) => updates.has(track.id) ? { ...track, ...updates.get(track.id) } : track;
+    setTracks(prev => prev.map(merge));
+  }), []);
+
+  useEffect(() => playbackController.subscribe(change => {
+    if (change === 'state') setPlayerState(playbackController.getState());
+  }), []);
+
+  useEffect(() => {
+    playbackController.refreshTracks(tracks);
+  }, [tracks]);
+
+  useEffect(() => {
+    playbackController.setLibrary(libraryTracks);
+  }, [libraryTracks]);
+
+  useEffect(() => {
+    playbackController.setSourceResolver(resolveTrackSource);
+    if (!playbackController.getState().currentTrack) playbackController.cue(MOCK_TRACKS[0]);
+  }, []);
+
+  useEffect(() => longFormService.attach(playbackController), []);
+  useEffect(() => sleepTimerService.attach(playbackController), []);
+
+  // What the alarm plays: the library, or a playlist's tracks that are still around
+  useEffect(() => {
+    sleepTimerService.setSourceResolver(source => {
+      if (source === LIBRARY_SOURCE) return libraryTracks;
+      const byId = new Map(tracks.map(t => [t.id, t]));
+      return (playlistService.getPlaylist(source)?.trackIds ?? []).map(id => byId.get(id)).filter((t): t is Track => !!t);
+    });
+  }, [tracks, libraryTracks]);
+
+  useEffect(() => {
+    longFormService.setFolderResolver(track => folderTree.getPath(track.parents?.[0] ?? null));
+  }, [folderTree]);
 
   // Auto-connect on mount if token is stored
   useEffect(() => {
@@ -35,20 +139,14 @@ const App: React.FC = () => {
           // We don't set isSyncing true here to avoid blocking UI immediately, 
           // or we can to show it's loading content. Let's do it gently.
           setIsSyncing(true);
-          const driveTracks = await driveService.fetchAudioFiles();
-          if (driveTracks.length > 0) {
-            setTracks(driveTracks);
-            if (isShuffle) {
-              setShuffledTracks(shuffleArray(driveTracks));
-            }
-            setCurrentTrack(driveTracks[0]);
-          }
+          const library = await driveService.syncLibrary(setSyncProgress);
+          applySyncedLibrary(library);
         } catch (error) {
+          // Keep the cached session; a dead token surfaces through the reconnect prompt instead
           console.error("Auto-sync failed:", error);
-          setIsConnected(false);
-          driveService.clearStoredToken();
         } finally {
           setIsSyncing(false);
+          setSyncProgress(null);
         }
       }
     };
@@ -61,17 +159,9 @@ const App: React.FC = () => {
     try {
       setIsSyncing(true);
       await driveService.connect();
-      const driveTracks = await driveService.fetchAudioFiles();
-      
-      if (driveTracks.length > 0) {
-        setTracks(driveTracks);
-        // If shuffle is on, reshuffle new tracks
-        if (isShuffle) {
-          setShuffledTracks(shuffleArray(driveTracks));
-        }
-        setCurrentTrack(driveTracks[0]);
-        setIsConnected(true);
-      }
+      const library = await driveService.syncLibrary(setSyncProgress);
+      applySyncedLibrary(library);
+      setIsConnected(true);
     } catch (error: any) {
       console.error("Connection error:", error);
       if (error.message === 'MISSING_CLIENT_ID') {
@@ -81,99 +171,196 @@ const App: React.FC = () => {
       }
     } finally {
       setIsSyncing(false);
+      setSyncProgress(null);
     }
   };
 
-  const handleTrackSelect = async (track: Track) => {
-    if (track.isRemote) {
-      try {
-        // We need to get a temporary Blob URL because we need Auth headers
-        const blobUrl = await driveService.getTrackUrl(track.id);
-        setCurrentTrack({ ...track, url: blobUrl });
-      } catch (e) {
-        console.error("Failed to fetch track media:", e);
-      }
-    } else {
-      setCurrentTrack(track);
-    }
+  // Re-render whenever an offline download starts, finishes or is removed
+  const [, setOfflineVersion] = useState(0);
+  useEffect(() => offlineService.subscribe(() => setOfflineVersion(v => v + 1)), []);
+
+  const [playlists, setPlaylists] = useState(playlistService.getPlaylists());
+  const [playlistSyncStatus, setPlaylistSyncStatus] = useState(playlistService.getSyncStatus());
+  const [activePlaylistId, setActivePlaylistId] = useState<string | null>(null);
+  useEffect(() => playlistService.subscribe(() => {
+    setPlaylists(playlistService.getPlaylists());
+    setPlaylistSyncStatus(playlistService.getSyncStatus());
+  }), []);
+  const activePlaylist = playlists.find(p => p.id === activePlaylistId);
+
+  const openPlaylist = (id: string) => {
+    setActivePlaylistId(id);
+    setActiveView('playlist');
   };
 
-  const shuffleArray = (array: Track[]) => {
-    const newArr = [...array];
-    for (let i = newArr.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [newArr[i], newArr[j]] = [newArr[j], newArr[i]];
-    }
-    return newArr;
+  const handleCreatePlaylist = (initialTracks: Track[] = []) => {
+    const playlist = playlistService.createPlaylist(undefined, initialTracks.map(t => t.id));
+    openPlaylist(playlist.id);
   };
 
-  const toggleShuffle = useCallback(() => {
-    setIsShuffle(prev => {
-      const newState = !prev;
-      if (newState) {
-        setShuffledTracks(shuffleArray(tracks));
-      }
-      return newState;
-    });
-  }, [tracks]);
+  const addToPlaylist = (playlistId: string, track: Track) => {
+    playlistService.addTracks(playlistId, [track.id]);
+    // Keep downloaded playlists complete
+    const source = `playlist:${playlistId}`;
+    if (offlineService.hasSource(source)) offlineService.pinTracks([track], source);
+  };
 
-  const toggleRepeat = useCallback(() => {
-    setRepeatMode(prev => {
-      if (prev === 'none') return 'all';
-      if (prev === 'all') return 'one';
-      return 'none';
-    });
-  }, []);
+  // Folder names from the library top down, which is what relative playlist paths are built from
+  const getFolderNames = (track: Track) => folderTree.getPath(track.parents?.[0] ?? null).map(f => f.name);
 
-  const handleNext = useCallback(() => {
-    if (!currentTrack) return;
-    
-    const queue = isShuffle ? shuffledTracks : tracks;
-    const currentIndex = queue.findIndex(t => t.id === currentTrack.id);
-    
-    let nextIndex = currentIndex + 1;
-    
-    // Wrap around logic
-    if (nextIndex >= queue.length) {
-      if (repeatMode === 'none' && !isShuffle) {
-        nextIndex = 0; 
-      } else {
-        nextIndex = 0;
+  const handleImportPlaylist = async (file: File) => {
+    const playlistName = file.name.replace(/\.[^/.]+$/, '');
+    try {
+      const parsed = parsePlaylist(await file.text(), file.name);
+      const { matches, unmatched } = matchPlaylistEntries(parsed.entries, libraryTracks, getFolderNames);
+      const name = parsed.name || playlistName;
+      if (matches.length > 0) {
+        const playlist = playlistService.createPlaylist(name, Array.from(new Set(matches.map(m => m.track.id))));
+        openPlaylist(playlist.id);
       }
+      setImportResult({ fileName: file.name, playlistName: name, matches, unmatched });
+    } catch (e: any) {
+      console.error("Playlist import failed:", e);
+      setImportResult({ fileName: file.name, playlistName, matches: [], unmatched: [], error: `Couldn't read this playlist: ${e.message || e}` });
     }
-    
-    if (queue[nextIndex]) {
-      handleTrackSelect(queue[nextIndex]);
-    }
-  }, [currentTrack, tracks, shuffledTracks, isShuffle, repeatMode]);
+  };
 
-  const handlePrevious = useCallback(() => {
-    if (!currentTrack) return;
+  const exportPlaylist = (name: string, list: Track[], format: PlaylistFormat, links: 'drive' | 'relative') => {
+    const getLocation = links === 'drive'
+      ? (track: Track) => (track.isRemote ? driveFileLink(track.id) : track.url)
+      : (track: Track) => [...getFolderNames(track), track.fileName || track.name].join('/');
+    const { extension, mimeType } = PLAYLIST_FORMATS[format];
+    const url = URL.createObjectURL(new Blob([formatPlaylist(format, name, list, getLocation)], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name.replace(/[\\/:*?"<>|]+/g, '_')}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
-    const queue = isShuffle ? shuffledTracks : tracks;
-    const currentIndex = queue.findIndex(t => t.id === currentTrack.id);
-    
-    let prevIndex = currentIndex - 1;
-    if (prevIndex < 0) {
-      prevIndex = queue.length - 1;
+  const getExportMenuItems = (name: string, list: Track[]): TrackMenuItem[] => {
+    if (list.length === 0) return [];
+    return (Object.keys(PLAYLIST_FORMATS) as PlaylistFormat[]).map(format => ({
+      label: `Export as ${PLAYLIST_FORMATS[format].label}`,
+      icon: <FileDown size={14} />,
+      children: [
+        { label: 'Google Drive links', icon: <Link2 size={14} />, onClick: () => exportPlaylist(name, list, format, 'drive') },
+        { label: 'Relative paths', icon: <FolderOpen size={14} />, onClick: () => exportPlaylist(name, list, format, 'relative') },
+      ],
+    }));
+  };
+
+  const getTrackMenuItems = (track: Track): TrackMenuItem[] => {
+    const items: TrackMenuItem[] = [
+      { label: 'Play next', icon: <ListStart size={14} />, onClick: () => playbackController.playNext([track]) },
+      { label: 'Add to queue', icon: <ListEnd size={14} />, onClick: () => playbackController.addToQueue([track]) },
+      {
+        label: 'Add to playlist',
+        icon: <ListPlus size={14} />,
+        children: [
+          { label: 'New playlist', icon: <PlusCircle size={14} />, onClick: () => handleCreatePlaylist([track]) },
+          ...playlists.map(playlist => ({
+            label: playlist.name,
+            icon: <ListMusic size={14} />,
+            onClick: () => addToPlaylist(playlist.id, track),
+          })),
+        ],
+      },
+    ];
+
+    if (track.isRemote) {
+      const status = offlineService.getStatus(track.id);
+      items.push(status && status !== 'error'
+        ? { label: 'Remove download', icon: <Trash2 size={14} />, onClick: () => offlineService.unpinTracks([track]), danger: true }
+        : { label: 'Download for offline', icon: <Download size={14} />, onClick: () => offlineService.pinTracks([track]) });
     }
+    return items;
+  };
 
-    if (queue[prevIndex]) {
-      handleTrackSelect(queue[prevIndex]);
+  // Pinned tracks play from the local copy so they work without a connection
+  const resolveTrackSource = async (track: Track): Promise<Track> => {
+    try {
+      const localUrl = await offlineService.getLocalUrl(track.id);
+      if (localUrl) return { ...track, url: localUrl };
+    } catch (e) {
+      console.warn("Failed to read offline copy, streaming instead:", e);
     }
-  }, [currentTrack, tracks, shuffledTracks, isShuffle]);
 
-  // Sync shuffled tracks if main track list changes
-  useEffect(() => {
-    if (isShuffle) {
-      setShuffledTracks(shuffleArray(tracks));
+    if (!track.isRemote) return track;
+    // A /drive-stream/ URL the service worker answers with auth headers and Range support,
+    // or a downloaded Blob URL where no service worker is running
+    const url = await driveService.getTrackUrl(track.id);
+    return { ...track, url };
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+    const { volume } = playbackController.getState();
+    switch (action) {
+      case 'togglePlay': playbackController.togglePlay(); break;
+      case 'seekBackward': playbackController.skip(-SEEK_STEP_SECONDS); break;
+      case 'seekForward': playbackController.skip(SEEK_STEP_SECONDS); break;
+      case 'volumeUp': playbackController.setVolume(volume + VOLUME_STEP); break;
+      case 'volumeDown': playbackController.setVolume(volume - VOLUME_STEP); break;
+      case 'next': playbackController.next(); break;
+      case 'previous': playbackController.previous(); break;
+      case 'shuffle': playbackController.toggleShuffle(); break;
+      case 'repeat': playbackController.cycleRepeat(); break;
+      case 'fullScreen': setIsFullScreen(open => !open); break;
+      case 'mute': playbackController.toggleMute(); break;
+      case 'like': if (currentTrack) likesService.toggleLike(currentTrack); break;
+      case 'palette': setShowPalette(open => !open); break;
     }
-  }, [tracks]);
+  };
 
-  const filteredTracks = tracks.filter(t => 
-    t.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    t.artist.toLowerCase().includes(searchQuery.toLowerCase())
+  // Global shortcuts; they leave the keyboard alone while the user is typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = shortcutFor(e);
+      if (!action) return;
+      // While the palette is open only Ctrl+K (to close it) is a shortcut
+      if (showPalette) {
+        if (action !== 'palette') return;
+      } else if (isDialogOpen()) {
+        // Other dialogs keep the keyboard, e.g. Space taps along in the lyrics editor
+        return;
+      }
+      // Space and the arrows would otherwise scroll the page or press the focused button
+      e.preventDefault();
+      runShortcut(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [currentTrack, showPalette]);
+
+  const shortcutCommand = (action: ShortcutAction, label: string, icon: React.ReactNode): PaletteCommand =>
+    ({ id: action, label, icon, shortcut: SHORTCUT_LABELS[action], run: () => runShortcut(action) });
+
+  const paletteCommands: PaletteCommand[] = [
+    shortcutCommand('togglePlay', playerState.isPlaying ? 'Pause' : 'Play', playerState.isPlaying ? <Pause size={16} /> : <Play size={16} />),
+    shortcutCommand('next', 'Next track', <SkipForward size={16} />),
+    shortcutCommand('previous', 'Previous track', <SkipBack size={16} />),
+    shortcutCommand('shuffle', playerState.shuffle ? 'Turn shuffle off' : 'Turn shuffle on', <Shuffle size={16} />),
+    shortcutCommand('repeat', 'Change repeat mode', <Repeat size={16} />),
+    shortcutCommand('mute', playerState.volume === 0 ? 'Unmute' : 'Mute', playerState.volume === 0 ? <Volume2 size={16} /> : <VolumeX size={16} />),
+    shortcutCommand('fullScreen', isFullScreen ? 'Exit full screen' : 'Full screen player', isFullScreen ? <Minimize2 size={16} /> : <Maximize2 size={16} />),
+    ...(currentTrack ? [shortcutCommand('like', likesService.isLiked(currentTrack.id) ? 'Unlike current track' : 'Like current track', <Heart size={16} />)] : []),
+    { id: 'connect', label: isConnected ? 'Sync Drive' : 'Connect Drive', icon: <Cloud size={16} />, run: handleConnectDrive },
+    { id: 'settings', label: 'Open Settings', icon: <Settings size={16} />, run: () => setShowSettings(true) },
+    { id: 'home', label: 'Go to Home', icon: <Home size={16} />, run: () => setActiveView('home') },
+    { id: 'library', label: 'Go to Library', icon: <Library size={16} />, run: () => setActiveView('library') },
+    { id: 'folders', label: 'Go to Folders', icon: <FolderOpen size={16} />, run: () => setActiveView('folders') },
+    { id: 'liked', label: 'Go to Liked Songs', icon: <Heart size={16} />, run: () => setActiveView('liked') },
+    { id: 'new-playlist', label: 'New playlist', icon: <PlusCircle size={16} />, run: () => handleCreatePlaylist() },
+    { id: 'import-playlist', label: 'Import playlist', icon: <FileUp size={16} />, run: () => importInputRef.current?.click() },
+  ];
+
+  // Searching a big library can take a moment; the box keeps up while the results catch up
+  const deferredQuery = useDeferredValue(searchQuery);
+  const searchResults = useMemo(
+    () => sortResults(searchTracks(libraryTracks, deferredQuery), trackSort),
+    [libraryTracks, deferredQuery, trackSort]
   );
+  const filteredTracks = useMemo(() => searchResults.map(result => result.track), [searchResults]);
 
   return (
     <div className="flex h-screen bg-slate-950 text-slate-100 overflow-hidden relative">
@@ -185,6 +372,13 @@ const App: React.FC = () => {
         isSyncing={isSyncing} 
         isConnected={isConnected} 
         onOpenSettings={() => setShowSettings(true)}
+        activeView={activeView}
+        onNavigate={setActiveView}
+        playlists={playlists}
+        activePlaylistId={activePlaylistId}
+        onOpenPlaylist={openPlaylist}
+        onCreatePlaylist={() => handleCreatePlaylist()}
+        onImportPlaylist={() => importInputRef.current?.click()}
         isOpen={isSidebarOpen}
         onClose={() => setIsSidebarOpen(false)}
       />
@@ -203,7 +397,8 @@ const App: React.FC = () => {
               <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" size={18} />
               <input 
                 type="text" 
-                placeholder="Search..."
+                placeholder="Search... try artist:queen year:1970..1979 -live"
+                title='Qualifiers: artist:, album:, genre:, title:, year:1990..1999, duration:>5m, format:flac. Use "quotes" for phrases and -word to exclude.'
                 className="w-full bg-slate-900/50 border border-slate-800 rounded-full py-2 pl-10 pr-4 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all text-sm"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
@@ -237,135 +432,182 @@ const App: React.FC = () => {
               }`}
             >
               {isSyncing ? <Loader2 size={16} className="animate-spin" /> : isConnected ? <CheckCircle2 size={16} /> : <Cloud size={16} className="text-blue-400" />}
-              <span className="hidden sm:inline">{isSyncing ? 'Syncing...' : isConnected ? 'Connected' : 'Connect Drive'}</span>
+              <span className="hidden sm:inline">
+                {isSyncing
+                  ? `Syncing...${syncProgress ? ` ${syncProgress.loaded.toLocaleString()}` : ''}`
+                  : isConnected ? 'Connected' : 'Connect Drive'}
+              </span>
             </button>
           </div>
         </header>
 
-        <div className="flex-1 overflow-y-auto p-4 md:p-10 pb-40">
+        {isConnected && (authState === 'reconnect-required' || playlistSyncStatus === 'reconnect-required') && (
+          <div className="flex items-center justify-between gap-4 px-4 py-3 md:px-6 bg-amber-500/10 border-b border-amber-500/20 text-amber-200 text-xs md:text-sm">
+            <span className="flex items-center gap-2">
+              <AlertTriangle size={16} className="text-amber-400 shrink-0" />
+              {authState === 'reconnect-required'
+                ? "Your Google Drive session expired and couldn't be renewed automatically."
+                : 'Reconnect Google Drive to sync your playlists; this session has no access to the app folder.'}
+            </span>
+            <button
+              onClick={handleConnectDrive}
+              disabled={isSyncing}
+              className="shrink-0 px-3 py-1.5 rounded-full bg-amber-500 hover:bg-amber-400 text-slate-900 font-semibold transition-colors"
+            >
+              Reconnect
+            </button>
+          </div>
+        )}
+
+        <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 md:p-10 pb-40">
           <div className="max-w-7xl mx-auto space-y-8 md:space-y-10">
-            <div className="relative group overflow-hidden rounded-3xl bg-gradient-to-r from-blue-600 to-indigo-800 p-6 md:p-8 shadow-2xl shadow-blue-500/20">
-              <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:scale-110 transition-transform">
-                <Music size={120} />
-              </div>
-              <div className="relative z-10 max-w-2xl">
-                <div className="flex items-center space-x-2 text-blue-100 mb-2 font-medium">
-                  <div className="bg-white/20 p-1 rounded-md">
-                    <Cloud size={16} />
-                  </div>
-                  <span className="text-xs md:text-sm uppercase tracking-widest">Cloud Streaming</span>
+            {activeView === 'folders' ? (
+              <FolderBrowser
+                tree={folderTree}
+                currentTrack={currentTrack}
+                getTrackMenuItems={getTrackMenuItems}
+                getExportMenuItems={getExportMenuItems}
+                onPlayTrack={(track, folderTracks) => playbackController.playTracks(folderTracks, { startTrack: track })}
+                onPlayFolder={(folderTracks, shuffle) => playbackController.playTracks(folderTracks, { shuffle })}
+              />
+            ) : activeView === 'playlist' && activePlaylist ? (
+              <PlaylistView
+                playlist={activePlaylist}
+                tracks={tracks}
+                currentTrack={currentTrack}
+                getTrackMenuItems={getTrackMenuItems}
+                getExportMenuItems={getExportMenuItems}
+                onPlayTrack={(track, playlistTracks) => playbackController.playTracks(playlistTracks, { startTrack: track })}
+                onPlayTracks={(list, shuffle) => playbackController.playTracks(list, { shuffle })}
+                onDeleted={() => setActiveView('home')}
+              />
+            ) : activeView === 'liked' ? (
+              <LikedSongsView
+                tracks={tracks}
+                currentTrack={currentTrack}
+                getTrackMenuItems={getTrackMenuItems}
+                getExportMenuItems={getExportMenuItems}
+                onPlayTrack={(track, likedTracks) => playbackController.playTracks(likedTracks, { startTrack: track })}
+                onPlayTracks={(list, shuffle) => playbackController.playTracks(list, { shuffle })}
+              />
+            ) : activeView === 'library' ? (
+              <LibraryBrowser
+                index={albumIndex}
+                currentTrack={currentTrack}
+                getTrackMenuItems={getTrackMenuItems}
+                getExportMenuItems={getExportMenuItems}
+                onPlayTrack={(track, albumTracks) => playbackController.playTracks(albumTracks, { startTrack: track })}
+                onPlayTracks={(list, shuffle) => playbackController.playTracks(list, { shuffle })}
+              />
+            ) : (
+              <>
+              <div className="relative group overflow-hidden rounded-3xl bg-gradient-to-r from-blue-600 to-indigo-800 p-6 md:p-8 shadow-2xl shadow-blue-500/20">
+                <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:scale-110 transition-transform">
+                  <Music size={120} />
                 </div>
-                <h2 className="text-2xl md:text-4xl font-bold font-display text-white mb-4 leading-tight">
-                  {isConnected ? "Your Drive Library is Ready." : "Stream from the Cloud."}
-                </h2>
-                <p className="text-blue-100/80 mb-6 text-sm md:text-lg">
-                  {isConnected 
-                    ? "Enjoy your high-fidelity audio stream directly from Google Drive." 
-                    : "Connect your Google Drive to access your entire music collection instantly."}
-                </p>
-                {!isConnected && (
-                  <button 
-                    onClick={handleConnectDrive}
-                    className="bg-white text-slate-900 px-6 py-2 md:px-8 md:py-3 rounded-full font-bold text-sm md:text-base hover:bg-blue-50 transition-colors shadow-lg"
-                  >
-                    Sync Google Drive
-                  </button>
-                )}
-              </div>
-            </div>
-
-            <div className="space-y-4 md:space-y-6">
-              <div className="flex items-center justify-between">
-                <h3 className="text-lg md:text-2xl font-bold font-display flex items-center space-x-2">
-                  <span>{isConnected ? "Google Drive Files" : "Demo Tracks"}</span>
-                  <span className="text-slate-500 font-normal text-xs md:text-sm ml-2">({filteredTracks.length})</span>
-                </h3>
-                <div className="flex items-center space-x-1 md:space-x-2 bg-slate-900/50 p-1 rounded-lg border border-slate-800">
-                  <button onClick={() => setViewMode('grid')} className={`p-1.5 md:p-2 rounded-md transition-colors ${viewMode === 'grid' ? 'bg-slate-800 text-blue-400' : 'text-slate-500 hover:text-white'}`}><Grid size={16} /></button>
-                  <button onClick={() => setViewMode('list')} className={`p-1.5 md:p-2 rounded-md transition-colors ${viewMode === 'list' ? 'bg-slate-800 text-blue-400' : 'text-slate-500 hover:text-white'}`}><ListIcon size={16} /></button>
+                <div className="relative z-10 max-w-2xl">
+                  <div className="flex items-center space-x-2 text-blue-100 mb-2 font-medium">
+                    <div className="bg-white/20 p-1 rounded-md">
+                      <Cloud size={16} />
+                    </div>
+                    <span className="text-xs md:text-sm uppercase tracking-widest">Cloud Streaming</span>
+                  </div>
+                  <h2 className="text-2xl md:text-4xl font-bold font-display text-white mb-4 leading-tight">
+                    {isConnected ? "Your Drive Library is Ready." : "Stream from the Cloud."}
+                  </h2>
+                  <p className="text-blue-100/80 mb-6 text-sm md:text-lg">
+                    {isConnected 
+                      ? "Enjoy your high-fidelity audio stream directly from Google Drive." 
+                      : "Connect your Google Drive to access your entire music collection instantly."}
+                  </p>
+                  {!isConnected && (
+                    <button 
+                      onClick={handleConnectDrive}
+                      className="bg-white text-slate-900 px-6 py-2 md:px-8 md:py-3 rounded-full font-bold text-sm md:text-base hover:bg-blue-50 transition-colors shadow-lg"
+                    >
+                      Sync Google Drive
+                    </button>
+                  )}
                 </div>
               </div>
 
-              {viewMode === 'grid' ? (
-                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3 md:gap-6">
-                  {filteredTracks.map(track => (
-                    <div 
-                      key={track.id}
-                      onClick={() => handleTrackSelect(track)}
-                      className={`group cursor-pointer glass rounded-xl md:rounded-2xl p-3 md:p-4 transition-all duration-300 border-transparent hover:border-blue-500/40 hover:-translate-y-1 ${currentTrack?.id === track.id ? 'bg-blue-600/10 border-blue-500/30 ring-1 ring-blue-500/20' : ''}`}
-                    >
-                      <div className="relative aspect-square mb-3 md:mb-4 rounded-lg md:rounded-xl overflow-hidden shadow-lg shadow-black/40">
-                        <img src={track.coverArt || 'https://images.unsplash.com/photo-1470225620780-dba8ba36b745?w=400&auto=format&fit=crop&q=60'} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110" alt={track.name} />
-                        <div className={`absolute inset-0 bg-slate-950/40 flex items-center justify-center transition-opacity duration-300 ${currentTrack?.id === track.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
-                          <div className="w-10 h-10 md:w-12 md:h-12 bg-blue-500 rounded-full flex items-center justify-center shadow-xl transform scale-90 group-hover:scale-100 transition-transform">
-                            <Play size={20} fill="white" className="ml-1" />
-                          </div>
-                        </div>
-                      </div>
-                      <h4 className="font-semibold text-white truncate mb-1 text-xs md:text-sm">{track.name}</h4>
-                      <p className="text-slate-500 text-[10px] md:text-xs truncate">{track.artist}</p>
+              <div className="space-y-4 md:space-y-6">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg md:text-2xl font-bold font-display flex items-center space-x-2">
+                    <span>{isConnected ? "Google Drive Files" : "Demo Tracks"}</span>
+                    <span className="text-slate-500 font-normal text-xs md:text-sm ml-2">({filteredTracks.length})</span>
+                  </h3>
+                  <div className="flex items-center space-x-2">
+                    <TrackMenu
+                      items={getExportMenuItems(searchQuery ? `Search - ${searchQuery}` : 'Google Drive Files', filteredTracks)}
+                      icon={<FileDown size={16} />}
+                      title="Export playlist"
+                      buttonClassName="p-2 rounded-lg border bg-slate-900/50 hover:bg-slate-800 border-slate-800 text-slate-400 hover:text-white transition-colors"
+                    />
+                    <div className="flex items-center space-x-1 md:space-x-2 bg-slate-900/50 p-1 rounded-lg border border-slate-800">
+                      <button onClick={() => setViewMode('grid')} className={`p-1.5 md:p-2 rounded-md transition-colors ${viewMode === 'grid' ? 'bg-slate-800 text-blue-400' : 'text-slate-500 hover:text-white'}`}><Grid size={16} /></button>
+                      <button onClick={() => setViewMode('list')} className={`p-1.5 md:p-2 rounded-md transition-colors ${viewMode === 'list' ? 'bg-slate-800 text-blue-400' : 'text-slate-500 hover:text-white'}`}><ListIcon size={16} /></button>
                     </div>
-                  ))}
-                </div>
-              ) : (
-                <div className="glass rounded-xl md:rounded-2xl overflow-hidden border border-slate-800/50">
-                  <table className="w-full text-left">
-                    <thead>
-                      <tr className="text-slate-500 text-[10px] md:text-xs uppercase tracking-wider border-b border-slate-800/50">
-                        <th className="px-4 py-3 md:px-6 md:py-4 font-semibold w-8">#</th>
-                        <th className="px-4 py-3 md:px-6 md:py-4 font-semibold">Title</th>
-                        <th className="px-4 py-3 md:px-6 md:py-4 font-semibold hidden sm:table-cell">Artist</th>
-                        <th className="px-4 py-3 md:px-6 md:py-4 font-semibold hidden md:table-cell">Album</th>
-                        <th className="px-4 py-3 md:px-6 md:py-4 font-semibold text-right"><Clock size={14} className="inline mr-1" /></th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-slate-800/30">
-                      {filteredTracks.map((track, idx) => (
-                        <tr 
-                          key={track.id} 
-                          onClick={() => handleTrackSelect(track)}
-                          className={`hover:bg-blue-600/5 transition-colors cursor-pointer group ${currentTrack?.id === track.id ? 'bg-blue-600/10' : ''}`}
-                        >
-                          <td className="px-4 py-3 md:px-6 md:py-4 text-xs text-slate-500">{idx + 1}</td>
-                          <td className="px-4 py-3 md:px-6 md:py-4">
-                            <div className="flex items-center space-x-3">
-                              <img src={track.coverArt || 'https://images.unsplash.com/photo-1470225620780-dba8ba36b745?w=400&auto=format&fit=crop&q=60'} className="w-8 h-8 md:w-10 md:h-10 rounded-md object-cover" alt="" />
-                              <div className="min-w-0">
-                                <span className={`block font-medium text-xs md:text-sm truncate ${currentTrack?.id === track.id ? 'text-blue-400' : 'text-slate-200'}`}>{track.name}</span>
-                                <span className="block text-[10px] text-slate-500 sm:hidden">{track.artist}</span>
-                              </div>
-                            </div>
-                          </td>
-                          <td className="px-4 py-3 md:px-6 md:py-4 text-xs text-slate-400 hidden sm:table-cell">{track.artist}</td>
-                          <td className="px-4 py-3 md:px-6 md:py-4 text-xs text-slate-400 hidden md:table-cell">{track.album || 'Unknown'}</td>
-                          <td className="px-4 py-3 md:px-6 md:py-4 text-xs text-slate-500 text-right">
-                            {track.duration > 0 ? `${Math.floor(track.duration / 60)}:${(track.duration % 60).toString().padStart(2, '0')}` : '--:--'}
-                          </td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
+                  </div>
                 </div>
-              )}
-            </div>
+
+                <TrackResults
+                  key={viewMode}
+                  results={searchResults}
+                  viewMode={viewMode}
+                  currentTrack={currentTrack}
+                  sort={trackSort}
+                  onSortChange={setTrackSort}
+                  getTrackMenuItems={getTrackMenuItems}
+                  onPlayTrack={(track) => playbackController.playLibraryTrack(track)}
+                  scrollRef={scrollRef}
+                />
+              </div>
+              </>
+            )}
           </div>
         </div>
       </main>
 
       <Player 
-        track={currentTrack} 
-        onNext={handleNext} 
-        onPrevious={handlePrevious} 
-        repeatMode={repeatMode}
-        isShuffle={isShuffle}
-        toggleRepeat={toggleRepeat}
-        toggleShuffle={toggleShuffle}
         isFullScreen={isFullScreen}
         onToggleFullScreen={() => setIsFullScreen(!isFullScreen)}
       />
 
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".m3u,.m3u8,.pls,.xspf"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) handleImportPlaylist(file);
+        }}
+      />
+
+      {importResult && (
+        <PlaylistImportModal result={importResult} onClose={() => setImportResult(null)} />
+      )}
+
+      {showPalette && (
+        <CommandPalette
+          commands={paletteCommands}
+          tracks={libraryTracks}
+          albums={albumIndex.getAlbums()}
+          playlists={playlists}
+          onPlayTrack={(track) => playbackController.playLibraryTrack(track)}
+          onPlayAlbum={(album) => playbackController.playTracks(album.tracks)}
+          onOpenPlaylist={openPlaylist}
+          onClose={() => setShowPalette(false)}
+        />
+      )}
+
       {showSettings && (
-        <SettingsModal onClose={() => setShowSettings(false)} />
+        <SettingsModal
+          onClose={() => setShowSettings(false)}
+          onLibraryRootsChange={setLibraryRoots}
+        />
       )}
     </div>
   );
@@ -12,7 +12,7 @@ interface AnalysisModalProps {
 
 const AnalysisModal: React.FC<AnalysisModalProps> = ({ track, analysis, onClose, loading }) => {
   return (
-    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
       <div className="glass w-full max-w-xl rounded-3xl overflow-hidden shadow-2xl border border-blue-500/30 animate-in fade-in zoom-in duration-300">
         <div className="p-6 relative">
           <button onClick={onClose} className="absolute top-6 right-6 text-slate-400 hover:text-white transition-colors">
@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search as SearchIcon, Music, Disc3, ListMusic } from 'lucide-react';
+import { Album, Playlist, Track } from '../types';
+import { fuzzyMatchFields } from '../services/fuzzyMatch';
+import Highlight from './Highlight';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  icon: React.ReactNode;
+  // Key hint shown on the right, e.g. "Space"
+  shortcut?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  tracks: Track[];
+  albums: Album[];
+  playlists: Playlist[];
+  onPlayTrack: (track: Track) => void;
+  onPlayAlbum: (album: Album) => void;
+  onOpenPlaylist: (id: string) => void;
+  onClose: () => void;
+}
+
+interface PaletteResult {
+  key: string;
+  group: string;
+  icon: React.ReactNode;
+  title: string;
+  titleIndices?: number[];
+  subtitle?: string;
+  subtitleIndices?: number[];
+  shortcut?: string;
+  score: number;
+  run: () => void;
+}
+
+// Results shown per group, so a big library can't crowd out the rest
+const GROUP_LIMITS: Record<string, number> = { Actions: 8, Tracks: 20, Albums: 10, Playlists: 10 };
+const GROUP_ORDER = ['Actions', 'Tracks', 'Albums', 'Playlists'];
+
+const topResults = (results: PaletteResult[], group: string) =>
+  results.sort((a, b) => b.score - a.score).slice(0, GROUP_LIMITS[group]);
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, tracks, albums, playlists, onPlayTrack, onPlayAlbum, onOpenPlaylist, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(() => {
+    const q = query.trim();
+    const actions: PaletteResult[] = [];
+    commands.forEach(command => {
+      const match = q ? fuzzyMatchFields(q, [command.label]) : { score: 0, indices: [[]] };
+      if (!match) return;
+      actions.push({
+        key: `action:${command.id}`, group: 'Actions', icon: command.icon, title: command.label,
+        titleIndices: match.indices[0], shortcut: command.shortcut, score: match.score, run: command.run,
+      });
+    });
+    // With nothing typed, the palette is a list of actions
+    if (!q) return actions;
+
+    const trackResults: PaletteResult[] = [];
+    tracks.forEach(track => {
+      const match = fuzzyMatchFields(q, [track.name, track.artist, track.album], [1.2, 1, 0.8]);
+      if (!match) return;
+      trackResults.push({
+        key: `track:${track.id}`, group: 'Tracks', icon: <Music size={16} />, title: track.name, titleIndices: match.indices[0],
+        subtitle: track.artist, subtitleIndices: match.indices[1], score: match.score, run: () => onPlayTrack(track),
+      });
+    });
+
+    const albumResults: PaletteResult[] = [];
+    albums.forEach(album => {
+      const match = fuzzyMatchFields(q, [album.name, album.artist], [1.2, 1]);
+      if (!match) return;
+      albumResults.push({
+        key: `album:${album.id}`, group: 'Albums', icon: <Disc3 size={16} />, title: album.name, titleIndices: match.indices[0],
+        subtitle: album.artist, subtitleIndices: match.indices[1], score: match.score, run: () => onPlayAlbum(album),
+      });
+    });
+
+    const playlistResults: PaletteResult[] = [];
+    playlists.forEach(playlist => {
+      const match = fuzzyMatchFields(q, [playlist.name]);
+      if (!match) return;
+      playlistResults.push({
+        key: `playlist:${playlist.id}`, group: 'Playlists', icon: <ListMusic size={16} />, title: playlist.name, titleIndices: match.indices[0],
+        subtitle: `${playlist.trackIds.length} tracks`, score: match.score, run: () => onOpenPlaylist(playlist.id),
+      });
+    });
+
+    return [
+      ...topResults(actions, 'Actions'),
+      ...topResults(trackResults, 'Tracks'),
+      ...topResults(albumResults, 'Albums'),
+      ...topResults(playlistResults, 'Playlists'),
+    ];
+  }, [query, commands, tracks, albums, playlists]);
+
+  useEffect(() => setSelected(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${selected}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const runResult = (result: PaletteResult | undefined) => {
+    if (!result) return;
+    onClose();
+    result.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runResult(results[selected]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[100] flex items-start justify-center p-4 pt-[12vh] bg-slate-950/80 backdrop-blur-sm" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="glass w-full max-w-xl max-h-[70vh] flex flex-col rounded-3xl overflow-hidden shadow-2xl border border-slate-700 animate-in fade-in zoom-in duration-200"
+      >
+        <div className="p-4 border-b border-slate-800 flex items-center gap-3">
+          <SearchIcon size={18} className="text-slate-500 shrink-0" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search tracks, albums, playlists and actions..."
+            className="flex-1 bg-transparent text-white placeholder-slate-500 focus:outline-none"
+          />
+          <kbd className="text-[10px] text-slate-500 border border-slate-700 rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        <div ref={listRef} className="overflow-y-auto p-2">
+          {results.length === 0 && (
+            <p className="p-6 text-center text-sm text-slate-500">Nothing matches "{query}"</p>
+          )}
+          {GROUP_ORDER.map(group => {
+            const items = results.map((result, index) => ({ result, index })).filter(({ result }) => result.group === group);
+            if (items.length === 0) return null;
+            return (
+              <div key={group} className="mb-2 last:mb-0">
+                <p className="px-3 py-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-widest">{group}</p>
+                {items.map(({ result, index }) => (
+                  <button
+                    key={result.key}
+                    data-index={index}
+                    onClick={() => runResult(result)}
+                    onMouseMove={() => setSelected(index)}
+                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left transition-colors ${index === selected ? 'bg-blue-500/20 text-white' : 'text-slate-300'}`}
+                  >
+                    <span className="text-slate-400 shrink-0">{result.icon}</span>
+                    <span className="flex-1 min-w-0">
+                      <span className="block truncate text-sm"><Highlight text={result.title} indices={result.titleIndices} /></span>
+                      {result.subtitle && (
+                        <span className="block truncate text-xs text-slate-500"><Highlight text={result.subtitle} indices={result.subtitleIndices} /></span>
+                      )}
+                    </span>
+                    {result.shortcut && (
+                      <kbd className="text-[10px] text-slate-400 border border-slate-700 rounded px-1.5 py-0.5 shrink-0">{result.shortcut}</kbd>
+                    )}
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
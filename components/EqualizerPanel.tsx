@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { X, SlidersVertical, Plus, Save, Trash2 } from 'lucide-react';
+import { equalizerService, EQ_BANDS, EQ_MAX_GAIN_DB } from '../services/equalizerService';
+
+interface EqualizerPanelProps {
+  onClose: () => void;
+}
+
+const formatFrequency = (hz: number) => (hz >= 1000 ? `${hz / 1000}k` : String(hz));
+const formatGain = (db: number) => `${db > 0 ? '+' : ''}${db.toFixed(db % 1 === 0 ? 0 : 1)}`;
+
+// Vertical sliders with the minimum at the bottom
+const verticalSlider: React.CSSProperties = { writingMode: 'vertical-lr', direction: 'rtl' };
+
+const EqualizerPanel: React.FC<EqualizerPanelProps> = ({ onClose }) => {
+  const [profile, setProfile] = useState(equalizerService.getActiveProfile());
+  const [profiles, setProfiles] = useState(equalizerService.getProfiles());
+  const [presets, setPresets] = useState(equalizerService.getPresets());
+  // What the inline name field is naming, if it's open
+  const [naming, setNaming] = useState<'preset' | 'profile' | null>(null);
+  const [name, setName] = useState('');
+
+  useEffect(() => equalizerService.subscribe(() => {
+    setProfile(equalizerService.getActiveProfile());
+    setProfiles(equalizerService.getProfiles());
+    setPresets(equalizerService.getPresets());
+  }), []);
+
+  const activePreset = presets.find(p => p.id === profile.presetId);
+
+  const submitName = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (naming === 'preset') equalizerService.savePreset(trimmed);
+    else equalizerService.addProfile(trimmed);
+    setNaming(null);
+    setName('');
+  };
+
+  const slider = (label: string, value: number, onChange: (db: number) => void) => (
+    <div key={label} className="flex flex-col items-center gap-2 min-w-0">
+      <span className="text-[10px] text-slate-400 tabular-nums">{formatGain(value)}</span>
+      <input
+        type="range"
+        min={-EQ_MAX_GAIN_DB}
+        max={EQ_MAX_GAIN_DB}
+        step="0.5"
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        onDoubleClick={() => onChange(0)}
+        style={verticalSlider}
+        className={`h-40 w-4 cursor-pointer accent-blue-500 ${profile.enabled ? '' : 'opacity-40'}`}
+        aria-label={`${label} gain`}
+      />
+      <span className="text-[10px] font-medium text-slate-500">{label}</span>
+    </div>
+  );
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="glass w-full max-w-2xl max-h-[90vh] flex flex-col rounded-3xl overflow-hidden shadow-2xl border border-slate-700 animate-in fade-in zoom-in duration-300"
+      >
+        <div className="p-6 border-b border-slate-800 flex items-center justify-between gap-4">
+          <h2 className="flex items-center gap-2 text-xl font-bold font-display text-white">
+            <SlidersVertical size={22} className="text-blue-400" /> Equalizer
+          </h2>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={profile.enabled}
+                onChange={(e) => equalizerService.setEnabled(e.target.checked)}
+                className="accent-blue-500"
+              />
+              On
+            </label>
+            <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+              <X size={24} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="space-y-2">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-widest">Profile</p>
+            <div className="flex flex-wrap items-center gap-2">
+              {profiles.map(p => (
+                <span key={p.id} className="group relative">
+                  <button
+                    onClick={() => equalizerService.selectProfile(p.id)}
+                    className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${p.id === profile.id ? 'bg-blue-500/20 border-blue-500/40 text-blue-200' : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'}`}
+                  >
+                    {p.name}
+                  </button>
+                  {profiles.length > 1 && p.id === profile.id && (
+                    <button
+                      onClick={() => { if (confirm(`Delete the "${p.name}" profile?`)) equalizerService.deleteProfile(p.id); }}
+                      className="absolute -top-1 -right-1 p-0.5 rounded-full bg-slate-900 border border-slate-700 text-slate-500 hover:text-rose-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Delete profile"
+                    >
+                      <X size={10} />
+                    </button>
+                  )}
+                </span>
+              ))}
+              <button
+                onClick={() => setNaming('profile')}
+                className="p-1.5 rounded-full border border-dashed border-slate-700 text-slate-400 hover:text-white hover:border-slate-500 transition-colors"
+                title="New profile from this curve"
+              >
+                <Plus size={14} />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={activePreset?.id ?? ''}
+              onChange={(e) => equalizerService.applyPreset(e.target.value)}
+              className="flex-1 min-w-[10rem] bg-slate-900/60 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+              {!activePreset && <option value="">Custom</option>}
+              {presets.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setNaming('preset')}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 border border-slate-700 text-sm text-slate-300 transition-colors"
+            >
+              <Save size={14} /> Save preset
+            </button>
+            {activePreset && !activePreset.builtIn && (
+              <button
+                onClick={() => equalizerService.deletePreset(activePreset.id)}
+                className="p-2 rounded-lg text-slate-500 hover:text-rose-400 transition-colors"
+                title="Delete preset"
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+
+          {naming && (
+            <form onSubmit={submitName} className="flex items-center gap-2">
+              <input
+                autoFocus
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={naming === 'preset' ? 'Preset name' : 'Profile name, e.g. Car'}
+                className="flex-1 bg-slate-900/60 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              />
+              <button type="submit" className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-medium text-white transition-colors">Save</button>
+              <button type="button" onClick={() => { setNaming(null); setName(''); }} className="px-3 py-2 text-sm text-slate-400 hover:text-white transition-colors">Cancel</button>
+            </form>
+          )}
+
+          <div className="flex items-end gap-4">
+            <div className="pr-4 border-r border-slate-800">
+              {slider('Pre', profile.curve.preamp, db => equalizerService.setPreamp(db))}
+            </div>
+            <div className="flex-1 grid grid-cols-10 gap-1">
+              {EQ_BANDS.map((frequency, index) =>
+                slider(formatFrequency(frequency), profile.curve.gains[index] ?? 0, db => equalizerService.setBand(index, db))
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            Double-click a slider to reset it. Lower the pre-amp when boosting to avoid distortion.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EqualizerPanel;
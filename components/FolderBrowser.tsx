@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { Track } from '../types';
+import { FolderTree } from '../services/folderTree';
+import { offlineService } from '../services/offlineService';
+import { longFormService } from '../services/longFormService';
+import TrackMenu, { TrackMenuItem } from './TrackMenu';
+import OfflineBadge from './OfflineBadge';
+import LikeButton from './LikeButton';
+import { Folder, ChevronRight, Play, Shuffle, HardDrive, Music, Download, CheckCircle2, FileDown, BookHeadphones } from 'lucide-react';
+
+interface FolderBrowserProps {
+  tree: FolderTree;
+  currentTrack: Track | null;
+  getTrackMenuItems: (track: Track) => TrackMenuItem[];
+  getExportMenuItems: (name: string, tracks: Track[]) => TrackMenuItem[];
+  onPlayTrack: (track: Track, folderTracks: Track[]) => void;
+  onPlayFolder: (tracks: Track[], shuffle: boolean) => void;
+}
+
+const FolderBrowser: React.FC<FolderBrowserProps> = ({ tree, currentTrack, getTrackMenuItems, getExportMenuItems, onPlayTrack, onPlayFolder }) => {
+  const [folderId, setFolderId] = useState<string | null>(null);
+  const [, setLongFormVersion] = useState(0);
+  useEffect(() => longFormService.subscribe(() => setLongFormVersion(v => v + 1)), []);
+
+  // Jump back to the top if the folder disappeared in a sync or fell outside the library roots
+  useEffect(() => {
+    if (folderId && !tree.getFolder(folderId)) {
+      setFolderId(null);
+    }
+  }, [tree, folderId]);
+
+  const path = tree.getPath(folderId);
+  const subfolders = tree.getSubfolders(folderId);
+  const folderTracks = tree.getTracks(folderId);
+  const allTracks = tree.getDescendantTracks(folderId);
+  const offlineSource = `folder:${folderId ?? 'library'}`;
+  const isFolderPinned = offlineService.hasSource(offlineSource);
+  const isFolderLongForm = folderId !== null && longFormService.isFolderMarked(folderId);
+
+  const toggleFolderOffline = () => {
+    if (isFolderPinned) {
+      offlineService.unpinTracks(allTracks, offlineSource);
+    } else {
+      offlineService.pinTracks(allTracks, offlineSource);
+    }
+  };
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {/* Breadcrumbs */}
+      <div className="flex items-center flex-wrap gap-1 text-sm">
+        <button
+          onClick={() => setFolderId(null)}
+          className={`flex items-center gap-2 px-2 py-1 rounded-md transition-colors ${folderId === null ? 'text-white font-semibold' : 'text-slate-400 hover:text-white hover:bg-slate-800/50'}`}
+        >
+          <HardDrive size={16} />
+          <span>Library</span>
+        </button>
+        {path.map((folder, idx) => (
+          <React.Fragment key={folder.id}>
+            <ChevronRight size={14} className="text-slate-600" />
+            <button
+              onClick={() => setFolderId(folder.id)}
+              className={`px-2 py-1 rounded-md truncate max-w-[12rem] transition-colors ${idx === path.length - 1 ? 'text-white font-semibold' : 'text-slate-400 hover:text-white hover:bg-slate-800/50'}`}
+            >
+              {folder.name}
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg md:text-2xl font-bold font-display flex items-center space-x-2 min-w-0">
+          <span className="truncate">{path.length ? path[path.length - 1].name : 'All Audio'}</span>
+          <span className="text-slate-500 font-normal text-xs md:text-sm ml-2">({allTracks.length})</span>
+        </h3>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => onPlayFolder(allTracks, false)}
+            disabled={allTracks.length === 0}
+            className="flex items-center space-x-2 px-3 py-2 md:px-4 rounded-full bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-sm font-medium transition-colors"
+          >
+            <Play size={16} fill="currentColor" />
+            <span className="hidden sm:inline">Play folder</span>
+          </button>
+          <button
+            onClick={() => onPlayFolder(allTracks, true)}
+            disabled={allTracks.length === 0}
+            className="flex items-center space-x-2 px-3 py-2 md:px-4 rounded-full bg-slate-800 hover:bg-slate-700 border border-slate-700 disabled:opacity-40 text-sm font-medium transition-colors"
+          >
+            <Shuffle size={16} />
+            <span className="hidden sm:inline">Shuffle</span>
+          </button>
+          <button
+            onClick={toggleFolderOffline}
+            disabled={allTracks.length === 0}
+            title={isFolderPinned ? 'Remove download' : 'Download for offline'}
+            className={`p-2 rounded-full border disabled:opacity-40 transition-colors ${isFolderPinned ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300'}`}
+          >
+            {isFolderPinned ? <CheckCircle2 size={16} /> : <Download size={16} />}
+          </button>
+          {folderId !== null && (
+            <button
+              onClick={() => longFormService.toggleFolder(folderId)}
+              title={isFolderLongForm ? 'Stop treating as audiobooks & podcasts' : 'Treat as audiobooks & podcasts'}
+              className={`p-2 rounded-full border transition-colors ${isFolderLongForm ? 'bg-blue-500/10 border-blue-500/30 text-blue-400' : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300'}`}
+            >
+              <BookHeadphones size={16} />
+            </button>
+          )}
+          <TrackMenu
+            items={getExportMenuItems(path.length ? path[path.length - 1].name : 'All Audio', allTracks)}
+            icon={<FileDown size={16} />}
+            title="Export playlist"
+            buttonClassName="p-2 rounded-full border bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 transition-colors"
+          />
+        </div>
+      </div>
+
+      {subfolders.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3 md:gap-4">
+          {subfolders.map(folder => (
+            <button
+              key={folder.id}
+              onClick={() => setFolderId(folder.id)}
+              className="group glass rounded-xl p-3 md:p-4 flex items-center space-x-3 text-left border-transparent hover:border-blue-500/40 transition-all"
+            >
+              <Folder size={20} className="text-blue-400 shrink-0" />
+              <span className="text-xs md:text-sm font-medium text-slate-200 truncate">{folder.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {folderTracks.length > 0 && (
+        <div className="glass rounded-xl md:rounded-2xl border border-slate-800/50 divide-y divide-slate-800/30">
+          {folderTracks.map((track, idx) => (
+            <div
+              key={track.id}
+              onClick={() => onPlayTrack(track, folderTracks)}
+              className={`group flex items-center space-x-3 px-4 py-3 md:px-6 cursor-pointer hover:bg-blue-600/5 transition-colors ${currentTrack?.id === track.id ? 'bg-blue-600/10' : ''}`}
+            >
+              <span className="text-xs text-slate-500 w-6">{idx + 1}</span>
+              <Music size={16} className="text-slate-500 shrink-0" />
+              <span className={`flex-1 text-xs md:text-sm font-medium truncate ${currentTrack?.id === track.id ? 'text-blue-400' : 'text-slate-200'}`}>{track.name}</span>
+              <OfflineBadge status={offlineService.getStatus(track.id)} />
+              <LikeButton track={track} hideUntilHover />
+              <TrackMenu items={getTrackMenuItems(track)} className="md:opacity-0 md:group-hover:opacity-100 transition-opacity" />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {subfolders.length === 0 && folderTracks.length === 0 && (
+        <p className="text-sm text-slate-500 py-10 text-center">No audio in this folder.</p>
+      )}
+    </div>
+  );
+};
+
+export default FolderBrowser;
@@ -0,0 +1,28 @@
+import React from 'react';
+
+interface HighlightProps {
+  text: string;
+  // Character positions to mark, as returned by the fuzzy matcher
+  indices?: number[];
+  className?: string;
+}
+
+/** Renders text with the matched characters of a search picked out. */
+const Highlight: React.FC<HighlightProps> = ({ text, indices, className = 'text-blue-300 font-semibold' }) => {
+  if (!indices || indices.length === 0) return <>{text}</>;
+  const marked = new Set(indices);
+  const parts: { text: string; marked: boolean }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const isMarked = marked.has(i);
+    const last = parts[parts.length - 1];
+    if (last && last.marked === isMarked) last.text += text[i];
+    else parts.push({ text: text[i], marked: isMarked });
+  }
+  return (
+    <>
+      {parts.map((part, i) => part.marked ? <span key={i} className={className}>{part.text}</span> : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+    </>
+  );
+};
+
+export default Highlight;
@@ -0,0 +1,67 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Track } from '../types';
+import { thumbnailCache } from '../services/thumbnailCache';
+
+const FALLBACK_COVER = 'https://images.unsplash.com/photo-1470225620780-dba8ba36b745?w=400&auto=format&fit=crop&q=60';
+// Starts loading a little before a cover scrolls into view
+const ROOT_MARGIN = '200px';
+
+interface LazyCoverProps {
+  track: Track;
+  className?: string;
+  alt?: string;
+}
+
+// One observer for every cover on the page rather than one each
+const visibilityCallbacks = new Map<Element, () => void>();
+let observer: IntersectionObserver | null = null;
+
+const observe = (element: Element, onVisible: () => void): () => void => {
+  if (typeof IntersectionObserver === 'undefined') {
+    onVisible();
+    return () => {};
+  }
+  if (!observer) {
+    observer = new IntersectionObserver(entries => {
+      entries.forEach(entry => {
+        if (!entry.isIntersecting) return;
+        const callback = visibilityCallbacks.get(entry.target);
+        observer!.unobserve(entry.target);
+        visibilityCallbacks.delete(entry.target);
+        callback?.();
+      });
+    }, { rootMargin: ROOT_MARGIN });
+  }
+  visibilityCallbacks.set(element, onVisible);
+  observer.observe(element);
+  return () => {
+    visibilityCallbacks.delete(element);
+    observer?.unobserve(element);
+  };
+};
+
+/** A track's cover that is only fetched once it comes near the viewport. */
+const LazyCover: React.FC<LazyCoverProps> = ({ track, className = '', alt = '' }) => {
+  const [src, setSrc] = useState<string | null>(() => thumbnailCache.peek(track));
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const cached = thumbnailCache.peek(track);
+    setSrc(cached);
+    if (cached || !track.coverArt || !ref.current) return;
+    let cancelled = false;
+    const stopObserving = observe(ref.current, () => {
+      thumbnailCache.load(track).then(url => { if (!cancelled) setSrc(url); });
+    });
+    return () => {
+      cancelled = true;
+      stopObserving();
+    };
+  }, [track.id, track.revision, track.coverArt]);
+
+  if (!track.coverArt) return <img src={FALLBACK_COVER} className={className} alt={alt} loading="lazy" />;
+  if (!src) return <div ref={ref} className={`${className} bg-slate-800/60`} />;
+  return <img src={src} className={className} alt={alt} onError={() => setSrc(FALLBACK_COVER)} />;
+};
+
+export default LazyCover;
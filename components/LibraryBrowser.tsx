@@ -0,0 +1,285 @@
+import React, { useState, useEffect } from 'react';
+import { Album, Artist, Track } from '../types';
+import { AlbumIndex } from '../services/albumIndex';
+import { offlineService } from '../services/offlineService';
+import TrackMenu, { TrackMenuItem } from './TrackMenu';
+import OfflineBadge from './OfflineBadge';
+import LikeButton from './LikeButton';
+import { ChevronLeft, Disc3, Mic2, Play, Shuffle, FileDown } from 'lucide-react';
+
+const FALLBACK_COVER = 'https://images.unsplash.com/photo-1470225620780-dba8ba36b745?w=400&auto=format&fit=crop&q=60';
+
+interface LibraryBrowserProps {
+  index: AlbumIndex;
+  currentTrack: Track | null;
+  getTrackMenuItems: (track: Track) => TrackMenuItem[];
+  getExportMenuItems: (name: string, tracks: Track[]) => TrackMenuItem[];
+  onPlayTrack: (track: Track, albumTracks: Track[]) => void;
+  onPlayTracks: (tracks: Track[], shuffle: boolean) => void;
+}
+
+type Tab = 'albums' | 'artists';
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(Math.round(seconds) % 60).toString().padStart(2, '0')}`;
+
+const formatLength = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours} hr ${minutes} min` : `${minutes} min`;
+};
+
+const LibraryBrowser: React.FC<LibraryBrowserProps> = ({ index, currentTrack, getTrackMenuItems, getExportMenuItems, onPlayTrack, onPlayTracks }) => {
+  const [tab, setTab] = useState<Tab>('albums');
+  const [albumId, setAlbumId] = useState<string | null>(null);
+  const [artistId, setArtistId] = useState<string | null>(null);
+
+  const album = albumId ? index.getAlbum(albumId) : undefined;
+  const artist = artistId ? index.getArtist(artistId) : undefined;
+
+  // Tags change while the library is enriched, which can regroup what's on screen
+  useEffect(() => {
+    if (albumId && !album) setAlbumId(null);
+    if (artistId && !artist) setArtistId(null);
+  }, [index, albumId, artistId]);
+
+  const switchTab = (next: Tab) => {
+    setTab(next);
+    setAlbumId(null);
+    setArtistId(null);
+  };
+
+  const openArtist = (name: string) => {
+    const target = index.findArtist(name);
+    if (!target) return;
+    setTab('artists');
+    setArtistId(target.id);
+    setAlbumId(null);
+  };
+
+  const albums = index.getAlbums();
+  const artists = index.getArtists();
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg md:text-2xl font-bold font-display flex items-center space-x-2">
+          <span>My Library</span>
+          <span className="text-slate-500 font-normal text-xs md:text-sm ml-2">
+            ({tab === 'albums' ? `${albums.length} albums` : `${artists.length} artists`})
+          </span>
+        </h3>
+        <div className="flex items-center space-x-1 md:space-x-2 bg-slate-900/50 p-1 rounded-lg border border-slate-800 text-xs md:text-sm font-medium">
+          <button onClick={() => switchTab('albums')} className={`px-3 py-1.5 rounded-md transition-colors ${tab === 'albums' ? 'bg-slate-800 text-blue-400' : 'text-slate-500 hover:text-white'}`}>Albums</button>
+          <button onClick={() => switchTab('artists')} className={`px-3 py-1.5 rounded-md transition-colors ${tab === 'artists' ? 'bg-slate-800 text-blue-400' : 'text-slate-500 hover:text-white'}`}>Artists</button>
+        </div>
+      </div>
+
+      {album ? (
+        <AlbumDetail
+          album={album}
+          backLabel={artist ? artist.name : 'Albums'}
+          onBack={() => setAlbumId(null)}
+          onOpenArtist={openArtist}
+          currentTrack={currentTrack}
+          getTrackMenuItems={getTrackMenuItems}
+          exportItems={getExportMenuItems(album.name, album.tracks)}
+          onPlayTrack={onPlayTrack}
+          onPlayTracks={onPlayTracks}
+        />
+      ) : artist ? (
+        <ArtistDetail
+          artist={artist}
+          onBack={() => setArtistId(null)}
+          onOpenAlbum={setAlbumId}
+          exportItems={getExportMenuItems(artist.name, artist.albums.flatMap(a => a.tracks))}
+          onPlayTracks={onPlayTracks}
+        />
+      ) : tab === 'albums' ? (
+        albums.length > 0 ? (
+          <AlbumGrid albums={albums} onOpenAlbum={setAlbumId} />
+        ) : (
+          <p className="text-sm text-slate-500 py-10 text-center">No tagged albums yet. Albums appear as track tags are read.</p>
+        )
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3 md:gap-6">
+          {artists.map(a => (
+            <button
+              key={a.id}
+              onClick={() => setArtistId(a.id)}
+              className="group glass rounded-xl md:rounded-2xl p-3 md:p-4 text-left border-transparent hover:border-blue-500/40 transition-all"
+            >
+              <div className="aspect-square mb-3 rounded-full bg-gradient-to-br from-blue-600/40 to-indigo-800/40 flex items-center justify-center text-3xl md:text-4xl font-bold font-display text-white/80">
+                {a.name.charAt(0).toUpperCase()}
+              </div>
+              <h4 className="font-semibold text-white truncate mb-1 text-xs md:text-sm">{a.name}</h4>
+              <p className="text-slate-500 text-[10px] md:text-xs truncate">
+                {a.albums.length} {a.albums.length === 1 ? 'album' : 'albums'} · {a.trackCount} {a.trackCount === 1 ? 'track' : 'tracks'}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AlbumGrid: React.FC<{ albums: Album[]; onOpenAlbum: (id: string) => void }> = ({ albums, onOpenAlbum }) => (
+  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3 md:gap-6">
+    {albums.map(album => (
+      <button
+        key={album.id}
+        onClick={() => onOpenAlbum(album.id)}
+        className="group glass rounded-xl md:rounded-2xl p-3 md:p-4 text-left border-transparent hover:border-blue-500/40 hover:-translate-y-1 transition-all duration-300"
+      >
+        <div className="relative aspect-square mb-3 md:mb-4 rounded-lg md:rounded-xl overflow-hidden shadow-lg shadow-black/40">
+          <img src={album.coverArt || FALLBACK_COVER} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110" alt={album.name} />
+        </div>
+        <h4 className="font-semibold text-white truncate mb-1 text-xs md:text-sm">{album.name}</h4>
+        <p className="text-slate-500 text-[10px] md:text-xs truncate">{album.artist}</p>
+        <p className="text-slate-600 text-[10px] md:text-xs truncate">
+          {album.year ? `${album.year} · ` : ''}{album.tracks.length} {album.tracks.length === 1 ? 'track' : 'tracks'}
+        </p>
+      </button>
+    ))}
+  </div>
+);
+
+const BackButton: React.FC<{ label: string; onClick: () => void }> = ({ label, onClick }) => (
+  <button onClick={onClick} className="flex items-center gap-1 text-sm text-slate-400 hover:text-white transition-colors">
+    <ChevronLeft size={16} />
+    <span>{label}</span>
+  </button>
+);
+
+interface PlayButtonsProps {
+  label: string;
+  tracks: Track[];
+  exportItems: TrackMenuItem[];
+  onPlayTracks: (tracks: Track[], shuffle: boolean) => void;
+}
+
+const PlayButtons: React.FC<PlayButtonsProps> = ({ label, tracks, exportItems, onPlayTracks }) => (
+  <div className="flex items-center space-x-2">
+    <button
+      onClick={() => onPlayTracks(tracks, false)}
+      className="flex items-center space-x-2 px-4 py-2 rounded-full bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-colors"
+    >
+      <Play size={16} fill="currentColor" />
+      <span>{label}</span>
+    </button>
+    <button
+      onClick={() => onPlayTracks(tracks, true)}
+      className="flex items-center space-x-2 px-4 py-2 rounded-full bg-slate-800 hover:bg-slate-700 border border-slate-700 text-sm font-medium transition-colors"
+    >
+      <Shuffle size={16} />
+      <span className="hidden sm:inline">Shuffle</span>
+    </button>
+    <TrackMenu
+      items={exportItems}
+      icon={<FileDown size={16} />}
+      title="Export playlist"
+      buttonClassName="p-2 rounded-full border bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 transition-colors"
+    />
+  </div>
+);
+
+interface AlbumDetailProps {
+  album: Album;
+  backLabel: string;
+  onBack: () => void;
+  onOpenArtist: (name: string) => void;
+  currentTrack: Track | null;
+  getTrackMenuItems: (track: Track) => TrackMenuItem[];
+  exportItems: TrackMenuItem[];
+  onPlayTrack: (track: Track, albumTracks: Track[]) => void;
+  onPlayTracks: (tracks: Track[], shuffle: boolean) => void;
+}
+
+const AlbumDetail: React.FC<AlbumDetailProps> = ({ album, backLabel, onBack, onOpenArtist, currentTrack, getTrackMenuItems, exportItems, onPlayTrack, onPlayTracks }) => {
+  const multiDisc = new Set(album.tracks.map(t => t.discNumber ?? 1)).size > 1;
+
+  return (
+    <div className="space-y-6">
+      <BackButton label={backLabel} onClick={onBack} />
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4 md:gap-6">
+        <img src={album.coverArt || FALLBACK_COVER} className="w-40 h-40 md:w-52 md:h-52 rounded-xl object-cover shadow-2xl shadow-black/50" alt={album.name} />
+        <div className="min-w-0 space-y-2">
+          <p className="flex items-center gap-2 text-xs uppercase tracking-widest text-slate-400"><Disc3 size={14} /> Album</p>
+          <h2 className="text-2xl md:text-4xl font-bold font-display text-white leading-tight">{album.name}</h2>
+          <p className="text-sm text-slate-400">
+            <button onClick={() => onOpenArtist(album.artist)} className="font-semibold text-slate-200 hover:underline">{album.artist}</button>
+            {album.year ? ` · ${album.year}` : ''} · {album.tracks.length} {album.tracks.length === 1 ? 'track' : 'tracks'}
+            {album.duration > 0 ? ` · ${formatLength(album.duration)}` : ''}
+          </p>
+          <PlayButtons label="Play album" tracks={album.tracks} exportItems={exportItems} onPlayTracks={onPlayTracks} />
+        </div>
+      </div>
+
+      <div className="glass rounded-xl md:rounded-2xl border border-slate-800/50 divide-y divide-slate-800/30">
+        {album.tracks.map((track, idx) => {
+          const disc = track.discNumber ?? 1;
+          const startsDisc = multiDisc && (idx === 0 || (album.tracks[idx - 1].discNumber ?? 1) !== disc);
+          const isCurrent = currentTrack?.id === track.id;
+          return (
+            <React.Fragment key={track.id}>
+              {startsDisc && (
+                <div className="flex items-center gap-2 px-4 py-2 md:px-6 text-xs font-semibold uppercase tracking-wider text-slate-500">
+                  <Disc3 size={14} /> Disc {disc}
+                </div>
+              )}
+              <div
+                onClick={() => onPlayTrack(track, album.tracks)}
+                className={`group flex items-center space-x-3 px-4 py-3 md:px-6 cursor-pointer hover:bg-blue-600/5 transition-colors ${isCurrent ? 'bg-blue-600/10' : ''}`}
+              >
+                <span className="text-xs text-slate-500 w-6 text-right">{track.trackNumber ?? idx + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <span className={`block text-xs md:text-sm font-medium truncate ${isCurrent ? 'text-blue-400' : 'text-slate-200'}`}>{track.name}</span>
+                  {track.artist !== album.artist && (
+                    <span className="block text-[10px] md:text-xs text-slate-500 truncate">{track.artist}</span>
+                  )}
+                </div>
+                <OfflineBadge status={offlineService.getStatus(track.id)} />
+                <LikeButton track={track} hideUntilHover />
+                <span className="text-xs text-slate-500">{track.duration > 0 ? formatTime(track.duration) : '--:--'}</span>
+                <TrackMenu items={getTrackMenuItems(track)} className="md:opacity-0 md:group-hover:opacity-100 transition-opacity" />
+              </div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+interface ArtistDetailProps {
+  artist: Artist;
+  onBack: () => void;
+  onOpenAlbum: (id: string) => void;
+  exportItems: TrackMenuItem[];
+  onPlayTracks: (tracks: Track[], shuffle: boolean) => void;
+}
+
+const ArtistDetail: React.FC<ArtistDetailProps> = ({ artist, onBack, onOpenAlbum, exportItems, onPlayTracks }) => {
+  const allTracks = artist.albums.flatMap(album => album.tracks);
+
+  return (
+    <div className="space-y-6">
+      <BackButton label="Artists" onClick={onBack} />
+
+      <div className="space-y-2">
+        <p className="flex items-center gap-2 text-xs uppercase tracking-widest text-slate-400"><Mic2 size={14} /> Artist</p>
+        <h2 className="text-2xl md:text-4xl font-bold font-display text-white leading-tight">{artist.name}</h2>
+        <p className="text-sm text-slate-400">
+          {artist.albums.length} {artist.albums.length === 1 ? 'album' : 'albums'} · {artist.trackCount} {artist.trackCount === 1 ? 'track' : 'tracks'}
+        </p>
+        <PlayButtons label="Play all" tracks={allTracks} exportItems={exportItems} onPlayTracks={onPlayTracks} />
+      </div>
+
+      <AlbumGrid albums={artist.albums} onOpenAlbum={onOpenAlbum} />
+    </div>
+  );
+};
+
+export default LibraryBrowser;
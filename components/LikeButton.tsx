@@ -0,0 +1,36 @@
+import React, { useState, useEffect } from 'react';
+import { Heart } from 'lucide-react';
+import { Track } from '../types';
+import { likesService } from '../services/likesService';
+
+interface LikeButtonProps {
+  track: Track;
+  size?: number;
+  className?: string;
+  // In track rows the empty heart only shows on hover, like the other row actions
+  hideUntilHover?: boolean;
+}
+
+const LikeButton: React.FC<LikeButtonProps> = ({ track, size = 16, className = '', hideUntilHover = false }) => {
+  const [isLiked, setIsLiked] = useState(likesService.isLiked(track.id));
+
+  useEffect(() => {
+    setIsLiked(likesService.isLiked(track.id));
+    return likesService.subscribe(() => setIsLiked(likesService.isLiked(track.id)));
+  }, [track.id]);
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        likesService.toggleLike(track);
+      }}
+      title={isLiked ? 'Remove from Liked Songs' : 'Save to Liked Songs'}
+      className={`p-1.5 rounded-full transition-colors ${isLiked ? 'text-rose-500 hover:text-rose-400' : 'text-slate-400 hover:text-white'} ${hideUntilHover && !isLiked ? 'md:opacity-0 md:group-hover:opacity-100' : ''} ${className}`}
+    >
+      <Heart size={size} fill={isLiked ? 'currentColor' : 'none'} />
+    </button>
+  );
+};
+
+export default LikeButton;
@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { Track } from '../types';
+import { likesService } from '../services/likesService';
+import { offlineService } from '../services/offlineService';
+import TrackMenu, { TrackMenuItem } from './TrackMenu';
+import OfflineBadge from './OfflineBadge';
+import LikeButton from './LikeButton';
+import { Heart, Play, Shuffle, FileDown, FileJson } from 'lucide-react';
+
+type LikedSort = 'recent' | 'oldest' | 'title' | 'artist';
+
+interface LikedSongsViewProps {
+  tracks: Track[];
+  currentTrack: Track | null;
+  getTrackMenuItems: (track: Track) => TrackMenuItem[];
+  getExportMenuItems: (name: string, tracks: Track[]) => TrackMenuItem[];
+  onPlayTrack: (track: Track, likedTracks: Track[]) => void;
+  onPlayTracks: (tracks: Track[], shuffle: boolean) => void;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(Math.round(seconds) % 60).toString().padStart(2, '0')}`;
+
+const LikedSongsView: React.FC<LikedSongsViewProps> = ({ tracks, currentTrack, getTrackMenuItems, getExportMenuItems, onPlayTrack, onPlayTracks }) => {
+  const [likes, setLikes] = useState(likesService.getLikes());
+  const [sort, setSort] = useState<LikedSort>('recent');
+
+  useEffect(() => likesService.subscribe(() => setLikes(likesService.getLikes())), []);
+
+  const byId = new Map(tracks.map(t => [t.id, t]));
+  const entries = likes
+    .map(like => ({ like, track: byId.get(like.id) }))
+    .filter((e): e is { like: typeof e.like; track: Track } => !!e.track);
+
+  entries.sort((a, b) => {
+    switch (sort) {
+      case 'oldest': return a.like.likedAt - b.like.likedAt;
+      case 'title': return a.track.name.localeCompare(b.track.name, undefined, { sensitivity: 'base' });
+      case 'artist': return a.track.artist.localeCompare(b.track.artist, undefined, { sensitivity: 'base' }) || a.track.name.localeCompare(b.track.name);
+      default: return b.like.likedAt - a.like.likedAt;
+    }
+  });
+  const likedTracks = entries.map(e => e.track);
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(likesService.exportLikes(tracks));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `liked-songs-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="relative overflow-hidden rounded-3xl bg-gradient-to-r from-rose-600 to-indigo-800 p-6 md:p-8 shadow-2xl shadow-rose-500/20">
+        <div className="absolute top-0 right-0 p-4 opacity-10">
+          <Heart size={120} />
+        </div>
+        <div className="relative z-10 space-y-2">
+          <p className="text-xs uppercase tracking-widest text-rose-100">Collection</p>
+          <h2 className="text-2xl md:text-4xl font-bold font-display text-white">Liked Songs</h2>
+          <p className="text-sm text-rose-100/80">
+            {likedTracks.length} {likedTracks.length === 1 ? 'track' : 'tracks'} · Press <kbd className="px-1.5 py-0.5 rounded bg-white/20 text-xs font-mono">L</kbd> to like what's playing
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => onPlayTracks(likedTracks, false)}
+            disabled={likedTracks.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 rounded-full bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-sm font-medium transition-colors"
+          >
+            <Play size={16} fill="currentColor" />
+            <span>Play</span>
+          </button>
+          <button
+            onClick={() => onPlayTracks(likedTracks, true)}
+            disabled={likedTracks.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 rounded-full bg-slate-800 hover:bg-slate-700 border border-slate-700 disabled:opacity-40 text-sm font-medium transition-colors"
+          >
+            <Shuffle size={16} />
+            <span className="hidden sm:inline">Shuffle</span>
+          </button>
+          <TrackMenu
+            items={likes.length > 0 ? [
+              { label: 'Export as JSON', icon: <FileJson size={14} />, onClick: handleExport },
+              ...getExportMenuItems('Liked Songs', likedTracks),
+            ] : []}
+            icon={<FileDown size={16} />}
+            title="Export liked songs"
+            buttonClassName="p-2 rounded-full border bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 transition-colors"
+          />
+        </div>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as LikedSort)}
+          className="bg-slate-900/60 border border-slate-700 rounded-lg p-2 text-xs md:text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+        >
+          <option value="recent">Recently liked</option>
+          <option value="oldest">Oldest likes first</option>
+          <option value="title">Title</option>
+          <option value="artist">Artist</option>
+        </select>
+      </div>
+
+      {entries.length > 0 ? (
+        <div className="glass rounded-xl md:rounded-2xl border border-slate-800/50 divide-y divide-slate-800/30">
+          {entries.map(({ like, track }, idx) => {
+            const isCurrent = currentTrack?.id === track.id;
+            return (
+              <div
+                key={track.id}
+                onClick={() => onPlayTrack(track, likedTracks)}
+                className={`group flex items-center space-x-3 px-4 py-3 md:px-6 cursor-pointer hover:bg-blue-600/5 transition-colors ${isCurrent ? 'bg-blue-600/10' : ''}`}
+              >
+                <span className="text-xs text-slate-500 w-6">{idx + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <span className={`block text-xs md:text-sm font-medium truncate ${isCurrent ? 'text-blue-400' : 'text-slate-200'}`}>{track.name}</span>
+                  <span className="block text-[10px] md:text-xs text-slate-500 truncate">{track.artist}</span>
+                </div>
+                <span className="text-xs text-slate-500 hidden md:block">{new Date(like.likedAt).toLocaleDateString()}</span>
+                <OfflineBadge status={offlineService.getStatus(track.id)} />
+                <LikeButton track={track} />
+                <span className="text-xs text-slate-500">{track.duration > 0 ? formatTime(track.duration) : '--:--'}</span>
+                <TrackMenu items={getTrackMenuItems(track)} className="md:opacity-0 md:group-hover:opacity-100 transition-opacity" />
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500 py-10 text-center">Songs you like appear here. Tap the heart on any track to save it.</p>
+      )}
+    </div>
+  );
+};
+
+export default LikedSongsView;
@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import { X, Timer, Play, Pause, Undo2, Download, RotateCcw } from 'lucide-react';
+import { LyricLine, Lyrics, Track } from '../types';
+import { playbackController } from '../services/playbackController';
+import { lyricsService } from '../services/lyricsService';
+import { formatLrc } from '../services/lrcFormat';
+
+interface LyricsEditorProps {
+  track: Track;
+  initial: Lyrics | null;
+  onClose: () => void;
+}
+
+const formatStamp = (time: number) => {
+  const mins = Math.floor(time / 60);
+  const secs = (time % 60).toFixed(2).padStart(5, '0');
+  return `${mins}:${secs}`;
+};
+
+const initialText = (lyrics: Lyrics | null) => {
+  if (!lyrics) return '';
+  if (lyrics.synced === false) return lyrics.text;
+  return lyrics.lines.map(line => line.text).join('\n');
+};
+
+/**
+ * Makes LRC timings by tapping along: paste the words, play the song and press Space (or the
+ * Tap button) as each line begins.
+ */
+const LyricsEditor: React.FC<LyricsEditorProps> = ({ track, initial, onClose }) => {
+  const [step, setStep] = useState<'text' | 'tap'>('text');
+  const [text, setText] = useState(() => initialText(initial));
+  const [lines, setLines] = useState<string[]>([]);
+  const [times, setTimes] = useState<number[]>([]);
+  const [playerState, setPlayerState] = useState(playbackController.getState());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => playbackController.subscribe(change => {
+    if (change !== 'queue') setPlayerState(playbackController.getState());
+  }), []);
+
+  const isThisTrack = playerState.currentTrack?.id === track.id;
+  const nextLine = times.length;
+  const isDone = lines.length > 0 && nextLine >= lines.length;
+
+  const tap = () => {
+    if (!isThisTrack || isDone) return;
+    const time = playbackController.getState().currentTime;
+    // Taps can't go back in time, even after seeking backwards
+    setTimes(list => [...list, Math.max(time, list[list.length - 1] ?? 0)]);
+  };
+
+  const undo = () => setTimes(list => list.slice(0, -1));
+
+  const startTapping = () => {
+    setLines(text.split(/\r\n?|\n/).map(line => line.trim()).filter(Boolean));
+    setTimes([]);
+    setStep('tap');
+  };
+
+  const restart = () => {
+    setTimes([]);
+    if (!isThisTrack) return;
+    playbackController.seek(0);
+    playbackController.play();
+  };
+
+  // Space or Enter taps and Backspace undoes; they must not reach the global shortcuts
+  useEffect(() => {
+    if (step !== 'tap') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === ' ' || e.key === 'Enter') {
+        if (!e.repeat) tap();
+      } else if (e.key === 'Backspace') {
+        undo();
+      } else {
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  });
+
+  const timedLines = (): LyricLine[] => lines.slice(0, times.length).map((line, i) => ({ time: times[i], text: line }));
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await lyricsService.saveEdited(track, timedLines());
+      onClose();
+    } catch (e) {
+      console.error("Failed to save lyrics:", e);
+      setIsSaving(false);
+    }
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([formatLrc(timedLines(), track)], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${track.fileName?.replace(/\.[^/.]+$/, '') || track.name}.lrc`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const removeEdited = async () => {
+    await lyricsService.removeEdited(track).catch(e => console.error("Failed to remove lyrics:", e));
+    onClose();
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="glass w-full max-w-xl max-h-[90vh] flex flex-col rounded-3xl overflow-hidden shadow-2xl border border-slate-700 animate-in fade-in zoom-in duration-300"
+      >
+        <div className="p-6 border-b border-slate-800 flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-xl font-bold font-display text-white">
+            <Timer size={22} className="text-blue-400" /> Sync Lyrics
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {step === 'text' ? (
+          <div className="p-6 space-y-4 overflow-y-auto">
+            <p className="text-sm text-slate-400">
+              Paste the lyrics for <span className="text-white">{track.name}</span>, one line per line. Next you'll play the song and tap as each line starts.
+            </p>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={12}
+              className="w-full bg-slate-900/60 border border-slate-700 rounded-lg p-3 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+              placeholder="First line of the song..."
+            />
+            <div className="flex items-center justify-between">
+              {initial?.source === 'edited' ? (
+                <button onClick={removeEdited} className="text-sm text-rose-400 hover:text-rose-300 transition-colors">
+                  Remove my timings
+                </button>
+              ) : <span />}
+              <button
+                onClick={startTapping}
+                disabled={!text.trim()}
+                className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-sm font-medium text-white transition-colors"
+              >
+                Start tapping
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="p-6 pb-3 space-y-3">
+              {!isThisTrack && (
+                <p className="text-sm text-amber-300">Play "{track.name}" to time its lyrics.</p>
+              )}
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => playbackController.togglePlay()}
+                  disabled={!isThisTrack}
+                  className="w-10 h-10 rounded-full bg-white text-slate-900 flex items-center justify-center disabled:opacity-40"
+                  title={playerState.isPlaying ? 'Pause' : 'Play'}
+                >
+                  {playerState.isPlaying ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" className="ml-0.5" />}
+                </button>
+                <span className="text-sm text-slate-300 tabular-nums">{isThisTrack ? formatStamp(playerState.currentTime) : '--:--'}</span>
+                <div className="flex-1" />
+                <button onClick={restart} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors" title="Start over from the beginning">
+                  <RotateCcw size={18} />
+                </button>
+                <button onClick={undo} disabled={times.length === 0} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-40 transition-colors" title="Undo last tap (Backspace)">
+                  <Undo2 size={18} />
+                </button>
+              </div>
+              <button
+                onClick={tap}
+                disabled={!isThisTrack || isDone}
+                className="w-full py-3 rounded-xl bg-blue-600 hover:bg-blue-500 active:bg-blue-400 disabled:opacity-40 text-white font-semibold transition-colors"
+              >
+                {isDone ? 'All lines timed' : 'Tap (Space)'}
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 space-y-1">
+              {lines.map((line, index) => (
+                <div
+                  key={index}
+                  ref={index === nextLine ? (el) => el?.scrollIntoView({ block: 'nearest' }) : undefined}
+                  className={`flex items-baseline gap-3 px-3 py-1.5 rounded-lg text-sm ${index === nextLine ? 'bg-blue-500/20 text-white' : index < nextLine ? 'text-slate-300' : 'text-slate-500'}`}
+                >
+                  <span className="w-14 shrink-0 text-xs tabular-nums text-slate-500">{index < nextLine ? formatStamp(times[index]) : ''}</span>
+                  <span className="min-w-0">{line}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="p-6 pt-4 border-t border-slate-800 flex items-center justify-between gap-3">
+              <button onClick={() => setStep('text')} className="text-sm text-slate-400 hover:text-white transition-colors">
+                Edit text
+              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={download}
+                  disabled={times.length === 0}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-sm text-slate-200 transition-colors"
+                  title="Save as an .lrc file, e.g. to put next to the track in Drive"
+                >
+                  <Download size={16} /> .lrc
+                </button>
+                <button
+                  onClick={save}
+                  disabled={!isDone || isSaving}
+                  className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-sm font-medium text-white transition-colors"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LyricsEditor;
@@ -0,0 +1,115 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Loader2, MicVocal, Timer } from 'lucide-react';
+import { Lyrics, Track } from '../types';
+import { lyricsService } from '../services/lyricsService';
+import { activeLineIndex } from '../services/lrcFormat';
+
+interface LyricsPanelProps {
+  track: Track;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  // Opens the tap-along editor, starting from the lyrics shown (if any)
+  onEdit: (lyrics: Lyrics | null) => void;
+}
+
+// After the user scrolls the lyrics themselves, following the song waits this long
+const MANUAL_SCROLL_PAUSE_MS = 4000;
+
+const SOURCE_LABELS: Record<Lyrics['source'], string> = {
+  lrc: 'From .lrc file',
+  embedded: 'From file tags',
+  edited: 'Timed by you',
+};
+
+const LyricsPanel: React.FC<LyricsPanelProps> = ({ track, currentTime, onSeek, onEdit }) => {
+  const [lyrics, setLyrics] = useState<Lyrics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const manualScrollAt = useRef(0);
+
+  useEffect(() => lyricsService.subscribe(trackId => {
+    if (trackId === track.id) setVersion(v => v + 1);
+  }), [track.id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    lyricsService.getLyrics(track)
+      .then(found => { if (!cancelled) setLyrics(found); })
+      .catch(err => {
+        console.log('Error reading lyrics:', err);
+        if (!cancelled) setLyrics(null);
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [track.id, track.revision, version]);
+
+  const activeIndex = lyrics?.synced ? activeLineIndex(lyrics.lines, currentTime) : -1;
+
+  // Keep the line being sung in the middle, unless the user is looking around
+  useEffect(() => {
+    const container = containerRef.current;
+    const line = activeRef.current;
+    if (!container || !line || Date.now() - manualScrollAt.current < MANUAL_SCROLL_PAUSE_MS) return;
+    container.scrollTo({ top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2, behavior: 'smooth' });
+  }, [activeIndex]);
+
+  const markManualScroll = () => { manualScrollAt.current = Date.now(); };
+
+  if (isLoading) {
+    return (
+      <div className="h-full flex items-center justify-center text-white/60">
+        <Loader2 size={28} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (!lyrics) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center gap-4 text-center text-white/70 px-6">
+        <MicVocal size={40} className="text-white/40" />
+        <p>No lyrics found for this track.</p>
+        <p className="text-xs text-white/50">Put an .lrc file with the same name next to it in Drive, or time them yourself.</p>
+        <button onClick={() => onEdit(null)} className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 hover:bg-white/20 text-sm text-white transition-colors">
+          <Timer size={16} /> Create synced lyrics
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div
+        ref={containerRef}
+        onWheel={markManualScroll}
+        onTouchMove={markManualScroll}
+        className="relative flex-1 overflow-y-auto px-2 py-[20vh] [mask-image:linear-gradient(to_bottom,transparent,black_20%,black_80%,transparent)]"
+      >
+        {lyrics.synced ? (
+          lyrics.lines.map((line, index) => (
+            <button
+              key={index}
+              ref={index === activeIndex ? activeRef : undefined}
+              onClick={() => onSeek(line.time)}
+              className={`block w-full text-left py-1.5 text-xl md:text-2xl font-bold transition-all duration-300 ${index === activeIndex ? 'text-white scale-[1.02] origin-left' : index < activeIndex ? 'text-white/40 hover:text-white/70' : 'text-white/50 hover:text-white/80'}`}
+            >
+              {line.text || '♪'}
+            </button>
+          ))
+        ) : (
+          <p className="whitespace-pre-wrap text-lg md:text-xl font-semibold leading-relaxed text-white/80">{lyrics.text}</p>
+        )}
+      </div>
+      <div className="flex items-center justify-between pt-3 text-xs text-white/50">
+        <span>{SOURCE_LABELS[lyrics.source]}{!lyrics.synced && ' · Not synced'}</span>
+        <button onClick={() => onEdit(lyrics)} className="flex items-center gap-1.5 hover:text-white transition-colors">
+          <Timer size={14} /> {lyrics.synced ? 'Retime' : 'Sync lyrics'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LyricsPanel;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Download, Loader2, AlertCircle } from 'lucide-react';
+import { OfflineStatus } from '../services/offlineService';
+
+interface OfflineBadgeProps {
+  status: OfflineStatus | null;
+  className?: string;
+}
+
+const OfflineBadge: React.FC<OfflineBadgeProps> = ({ status, className = '' }) => {
+  if (!status) return null;
+
+  const styles: Record<OfflineStatus, { title: string; classes: string; icon: React.ReactNode }> = {
+    done: { title: 'Available offline', classes: 'bg-emerald-500 text-white', icon: <Download size={10} strokeWidth={3} /> },
+    downloading: { title: 'Downloading...', classes: 'bg-blue-500 text-white', icon: <Loader2 size={10} className="animate-spin" /> },
+    queued: { title: 'Waiting to download', classes: 'bg-slate-700 text-slate-300', icon: <Download size={10} /> },
+    error: { title: 'Download failed', classes: 'bg-rose-500 text-white', icon: <AlertCircle size={10} /> },
+  };
+  const { title, classes, icon } = styles[status];
+
+  return (
+    <span title={title} className={`inline-flex items-center justify-center w-4 h-4 rounded-full shadow-md shrink-0 ${classes} ${className}`}>
+      {icon}
+    </span>
+  );
+};
+
+export default OfflineBadge;
@@ -1,54 +1,93 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Track } from '../types';
-import { Play, Pause, SkipBack, SkipForward, Volume2, Repeat, Shuffle, AlertCircle, Repeat1, ChevronDown, Maximize2 } from 'lucide-react';
+import { Play, Pause, SkipBack, SkipForward, Volume2, Repeat, Shuffle, AlertCircle, Repeat1, ChevronDown, Maximize2, ListMusic, SlidersVertical, RotateCcw, RotateCw, ListOrdered, Moon, AlarmClock, MicVocal } from 'lucide-react';
 import Visualizer from './Visualizer';
+import LikeButton from './LikeButton';
+import QueuePanel from './QueuePanel';
+import EqualizerPanel from './EqualizerPanel';
+import SleepTimerPanel, { formatCountdown } from './SleepTimerPanel';
+import LyricsPanel from './LyricsPanel';
+import LyricsEditor from './LyricsEditor';
+import WaveformSeekBar from './WaveformSeekBar';
+import TrackMenu, { TrackMenuItem } from './TrackMenu';
+import { Chapter, Lyrics } from '../types';
+import { metadataService } from '../services/metadataService';
+import { longFormService, PLAYBACK_RATES } from '../services/longFormService';
+import { sleepTimerService } from '../services/sleepTimerService';
+import { mediaSessionService } from '../services/mediaSessionService';
+import { playbackController } from '../services/playbackController';
+import { DeckEngine } from '../services/deckEngine';
+import { loudnessService } from '../services/loudnessService';
+import { equalizerService, EqualizerGraph } from '../services/equalizerService';
 
 interface PlayerProps {
-  track: Track | null;
-  onNext: () => void;
-  onPrevious: () => void;
-  repeatMode: 'none' | 'all' | 'one';
-  isShuffle: boolean;
-  toggleRepeat: () => void;
-  toggleShuffle: () => void;
   isFullScreen?: boolean;
   onToggleFullScreen?: () => void;
 }
 
+// Long-form tracks get skip buttons: back a little to catch something missed, forward past an ad or intro
+const SKIP_BACK_SECONDS = 15;
+const SKIP_FORWARD_SECONDS = 30;
+
+const formatRate = (rate: number) => `${rate}×`;
+
+const SkipIcon: React.FC<{ seconds: number; size: number }> = ({ seconds, size }) => (
+  <span className="relative flex items-center justify-center">
+    {seconds < 0 ? <RotateCcw size={size} /> : <RotateCw size={size} />}
+    <span className="absolute text-[9px] font-bold leading-none pt-0.5">{Math.abs(seconds)}</span>
+  </span>
+);
+
+// Ticks over a seek bar where each chapter after the first begins
+const ChapterMarks: React.FC<{ chapters: Chapter[]; duration: number; className: string }> = ({ chapters, duration, className }) => (
+  <div className="pointer-events-none absolute inset-0">
+    {duration > 0 && chapters.slice(1).filter(c => c.start < duration).map((chapter, index) => (
+      <span
+        key={index}
+        className={`absolute top-1/2 -translate-y-1/2 w-0.5 rounded-full ${className}`}
+        style={{ left: `${(chapter.start / duration) * 100}%` }}
+      />
+    ))}
+  </div>
+);
+
 const Player: React.FC<PlayerProps> = ({ 
-  track, 
-  onNext, 
-  onPrevious,
-  repeatMode,
-  isShuffle,
-  toggleRepeat,
-  toggleShuffle,
   isFullScreen = false,
   onToggleFullScreen
 }) => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
-  const [volume, setVolume] = useState(0.8);
-  const [error, setError] = useState<string | null>(null);
+  const [playerState, setPlayerState] = useState(playbackController.getState());
+  const [queue, setQueue] = useState(playbackController.getQueue());
+  const [upcomingTracks, setUpcomingTracks] = useState(playbackController.getUpcoming());
   const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
   const [localCoverArt, setLocalCoverArt] = useState<string | null>(null);
+  const [showQueue, setShowQueue] = useState(false);
+  const [showEqualizer, setShowEqualizer] = useState(false);
+  const [showSleepTimer, setShowSleepTimer] = useState(false);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [showLyrics, setShowLyrics] = useState(false);
+  // The lyrics being retimed, or null when starting from nothing; undefined while closed
+  const [editingLyrics, setEditingLyrics] = useState<Lyrics | null | undefined>(undefined);
   
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const deckARef = useRef<HTMLAudioElement>(null);
+  const deckBRef = useRef<HTMLAudioElement>(null);
+  const engineRef = useRef<DeckEngine | null>(null);
   const audioCtxRef = useRef<AudioContext | null>(null);
-  const playPromiseRef = useRef<Promise<void> | null>(null);
-  const isInitialMount = useRef(true);
+  const equalizerRef = useRef<EqualizerGraph | null>(null);
+
+  const { currentTrack: track, isPlaying, currentTime, duration, volume, error, repeat: repeatMode, shuffle: isShuffle } = playerState;
 
   // Initialize Audio Context and Analyser
   const initAudioContext = () => {
-    if (!audioCtxRef.current && audioRef.current) {
+    if (!audioCtxRef.current && engineRef.current) {
       const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
       const ctx = new AudioContext();
-      const src = ctx.createMediaElementSource(audioRef.current);
       const anal = ctx.createAnalyser();
-      src.connect(anal);
+      const equalizer = new EqualizerGraph(ctx);
+      equalizer.apply(equalizerService.getActiveProfile());
+      // Decks -> EQ -> limiter -> analyser, so the visualizer shows crossfades and the EQ'd spectrum
+      engineRef.current.connect(ctx, anal, equalizer);
       anal.connect(ctx.destination);
-      anal.fftSize = isFullScreen ? 512 : 256; // Higher resolution in full screen
+      equalizerRef.current = equalizer;
+      // The visualizer sets the FFT size to suit its mode and size
       audioCtxRef.current = ctx;
       setAnalyser(anal);
     }
@@ -57,152 +96,124 @@ const Player: React.FC<PlayerProps> = ({
     }
   };
 
-  // Metadata Extraction for Remote Blobs
+  // Ticks every second while a sleep timer or alarm is set, for the countdown
+  const [, setTimerVersion] = useState(0);
+  useEffect(() => sleepTimerService.subscribe(() => setTimerVersion(v => v + 1)), []);
+
+  // Re-render when a folder is marked long-form or the minimum length changes
+  const [, setLongFormVersion] = useState(0);
+  useEffect(() => longFormService.subscribe(() => setLongFormVersion(v => v + 1)), []);
+
+  useEffect(() => equalizerService.subscribe(() => {
+    equalizerRef.current?.apply(equalizerService.getActiveProfile());
+  }), []);
+
+  useEffect(() => playbackController.subscribe(change => {
+    if (change === 'queue') {
+      setQueue(playbackController.getQueue());
+      setUpcomingTracks(playbackController.getUpcoming());
+    } else {
+      setPlayerState(playbackController.getState());
+    }
+  }), []);
+
+  // The controller decides what plays; these elements are just its output
+  useEffect(() => {
+    if (!deckARef.current || !deckBRef.current) return;
+    const engine = new DeckEngine([deckARef.current, deckBRef.current], {
+      beforePlay: initAudioContext,
+      onTimeUpdate: time => playbackController.handleTimeUpdate(time),
+      onDurationChange: value => playbackController.handleDurationChange(value),
+      onEnded: () => playbackController.handleEnded(),
+      onError: handleAudioError,
+    }, track => loudnessService.getGain(track));
+    engineRef.current = engine;
+
+    const applyNormalization = () => {
+      engine.setLimiter(loudnessService.getSettings().limiter);
+      engine.refreshLevels();
+    };
+    applyNormalization();
+    const unsubscribe = loudnessService.subscribe(applyNormalization);
+    const detach = playbackController.attach(engine);
+    return () => {
+      detach();
+      unsubscribe();
+      engine.destroy();
+    };
+  }, []);
+
+  // Media keys, lock screen and OS media overlays
+  useEffect(() => mediaSessionService.attach(playbackController), []);
+
+  useEffect(() => {
+    mediaSessionService.setArtwork(localCoverArt);
+  }, [localCoverArt]);
+
+  // Embedded cover art for Drive tracks (streamed or blob)
   useEffect(() => {
     if (!track) return;
     
     // Reset local cover
     setLocalCoverArt(null);
-
-    // If it's a blob URL (remote track from Drive), try to extract ID3 tags
-    if (track.url.startsWith('blob:')) {
-      // Use window.jsmediatags loaded via script tag in index.html
-      const jsmediatags = (window as any).jsmediatags;
-      
-      if (jsmediatags) {
-        fetch(track.url)
-          .then(res => res.blob())
-          .then(blob => {
-            jsmediatags.read(blob, {
-              onSuccess: (tag: any) => {
-                const { picture } = tag.tags;
-                if (picture) {
-                  let base64String = "";
-                  for (let i = 0; i < picture.data.length; i++) {
-                    base64String += String.fromCharCode(picture.data[i]);
-                  }
-                  const base64 = "data:" + picture.format + ";base64," + window.btoa(base64String);
-                  setLocalCoverArt(base64);
-                }
-              },
-              onError: (error: any) => {
-                console.log('Error reading tags:', error.type, error.info);
-              }
-            });
-          })
-          .catch(err => console.error("Error fetching blob for tags", err));
-      }
-    }
-  }, [track]);
-
+    if (!track.isRemote && !track.url.startsWith('blob:')) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    metadataService.getCoverArt(track)
+      .then(art => {
+        if (cancelled || !art) return;
+        objectUrl = URL.createObjectURL(art);
+        setLocalCoverArt(objectUrl);
+      })
+      .catch(err => console.log('Error reading tags:', err));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  // Library enrichment replaces the track object; only a new source needs new art
+  }, [track?.id, track?.url]);
+
+  const isLongForm = !!track && longFormService.isLongForm(track);
+
+  // Chapters are only looked for in long-form tracks
   useEffect(() => {
-    if (track && audioRef.current) {
-      setError(null);
-      
-      // Force the audio element to reload the new source
-      audioRef.current.load();
-
-      // Don't auto-play on the very first mount of the component
-      if (isInitialMount.current) {
-        isInitialMount.current = false;
-        return;
-      }
-
-      const attemptPlay = async () => {
-        if (!audioRef.current) return;
-        try {
-          initAudioContext();
-          playPromiseRef.current = audioRef.current.play();
-          if (playPromiseRef.current) {
-            await playPromiseRef.current;
-            setIsPlaying(true);
-          }
-        } catch (e) {
-          if ((e as Error).name !== 'AbortError') {
-            console.log("Playback failed or was prevented:", e);
-          }
-          setIsPlaying(false);
-        } finally {
-          playPromiseRef.current = null;
-        }
-      };
-
-      attemptPlay();
-    }
-  }, [track]);
+    setChapters([]);
+    if (!track || !isLongForm || (!track.isRemote && !track.url.startsWith('blob:'))) return;
 
-  const togglePlay = async (e?: React.MouseEvent) => {
-    if (e) e.stopPropagation();
-    if (!audioRef.current || !track) return;
-
-    if (isPlaying) {
-      try {
-        if (playPromiseRef.current) {
-          await playPromiseRef.current;
-        }
-        audioRef.current.pause();
-        setIsPlaying(false);
-      } catch (e) {
-        console.error("Pause failed:", e);
-      }
-    } else {
-      initAudioContext();
-      try {
-        if (audioRef.current.readyState === 0) {
-          audioRef.current.load();
-        }
-        playPromiseRef.current = audioRef.current.play();
-        await playPromiseRef.current;
-        setIsPlaying(true);
-        setError(null);
-      } catch (e) {
-        console.error("Manual play failed:", e);
-        setError("Unable to play this source.");
-      } finally {
-        playPromiseRef.current = null;
-      }
-    }
-  };
+    let cancelled = false;
+    metadataService.getChapters(track)
+      .then(list => { if (!cancelled) setChapters(list); })
+      .catch(err => console.log('Error reading chapters:', err));
+    return () => { cancelled = true; };
+  }, [track?.id, track?.url, isLongForm]);
 
-  const handleTimeUpdate = () => {
-    if (audioRef.current) {
-      setCurrentTime(audioRef.current.currentTime);
-    }
+  const togglePlay = (e?: React.MouseEvent) => {
+    if (e) e.stopPropagation();
+    playbackController.togglePlay();
   };
 
-  const handleLoadedMetadata = () => {
-    if (audioRef.current) {
-      setDuration(audioRef.current.duration);
-    }
-  };
+  const onNext = () => playbackController.next();
+  const onPrevious = () => playbackController.previous();
+  const toggleRepeat = () => playbackController.cycleRepeat();
+  const toggleShuffle = () => playbackController.toggleShuffle();
 
   const handleAudioError = () => {
     console.error("Audio source error detected");
-    setError("Failed to load audio source.");
-    setIsPlaying(false);
+    playbackController.handleError("Failed to load audio source.");
   };
 
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const time = parseFloat(e.target.value);
-    if (audioRef.current) {
-      audioRef.current.currentTime = time;
-      setCurrentTime(time);
-    }
-  };
-
-  const handleEnded = () => {
-    if (repeatMode === 'one' && audioRef.current) {
-      audioRef.current.currentTime = 0;
-      audioRef.current.play().catch(e => console.error("Replay failed:", e));
-    } else {
-      onNext();
-    }
+    playbackController.seek(parseFloat(e.target.value));
   };
 
   const formatTime = (time: number) => {
-    const mins = Math.floor(time / 60);
+    const hours = Math.floor(time / 3600);
+    const mins = Math.floor((time % 3600) / 60);
     const secs = Math.floor(time % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(mins)}:${pad(secs)}` : `${mins}:${pad(secs)}`;
   };
 
   const handleBarClick = (e: React.MouseEvent) => {
@@ -214,22 +225,48 @@ const Player: React.FC<PlayerProps> = ({
     }
   };
 
-  if (!track) return null;
+  // Always mounted so the controller keeps its output while nothing is loaded
+  const decks = (
+    <>
+      <audio ref={deckARef} preload="auto" />
+      <audio ref={deckBRef} preload="auto" />
+    </>
+  );
+
+  if (!track) return decks;
 
   const activeCover = localCoverArt || track.coverArt || 'https://images.unsplash.com/photo-1470225620780-dba8ba36b745?w=400&auto=format&fit=crop&q=60';
   const progressPercent = duration ? (currentTime / duration) * 100 : 0;
+  const upNext = queue[0] ?? upcomingTracks[0];
+
+  // The chapter playing is the last one that has started
+  const chapterIndex = chapters.reduce((found, chapter, index) => (chapter.start <= currentTime ? index : found), -1);
+  const currentChapter = chapters[chapterIndex];
+  const chapterItems: TrackMenuItem[] = chapters.map((chapter, index) => ({
+    label: `${formatTime(chapter.start)} · ${chapter.title}`,
+    icon: index === chapterIndex ? <Play size={12} fill="currentColor" className="text-blue-400" /> : <span className="w-3" />,
+    onClick: () => playbackController.seek(chapter.start),
+  }));
+  const speedItems: TrackMenuItem[] = PLAYBACK_RATES.map(rate => ({
+    label: formatRate(rate),
+    icon: rate === playerState.playbackRate ? <Play size={12} fill="currentColor" className="text-blue-400" /> : <span className="w-3" />,
+    onClick: () => longFormService.setSpeed(rate),
+  }));
+  const skip = (seconds: number) => playbackController.skip(seconds);
+
+  // The sleep countdown takes precedence; otherwise the time left until the alarm
+  const sleepTimer = sleepTimerService.getSleepTimer();
+  const sleepRemaining = sleepTimerService.getSleepRemaining();
+  const alarmAt = sleepTimerService.getAlarmTime();
+  const timerLabel = sleepTimer
+    ? (sleepRemaining !== null ? formatCountdown(sleepRemaining) : 'End of track')
+    : alarmAt !== null ? formatCountdown((alarmAt - Date.now()) / 1000) : null;
+  const timerIcon = (size: number) => (!sleepTimer && alarmAt !== null ? <AlarmClock size={size} /> : <Moon size={size} />);
+  const timerTitle = sleepTimer ? 'Sleep timer' : alarmAt !== null ? 'Alarm' : 'Sleep timer & alarm';
 
   return (
     <>
-      <audio
-        ref={audioRef}
-        src={track.url}
-        onTimeUpdate={handleTimeUpdate}
-        onLoadedMetadata={handleLoadedMetadata}
-        onEnded={handleEnded}
-        onError={handleAudioError}
-        preload="auto"
-      />
+      {decks}
 
       {/* FULL SCREEN MODE */}
       {isFullScreen && (
@@ -250,31 +287,62 @@ const Player: React.FC<PlayerProps> = ({
                <ChevronDown size={32} />
              </button>
              <h2 className="text-sm font-medium tracking-widest text-white/80 uppercase drop-shadow-md">Now Playing</h2>
-             <div className="w-10" /> {/* Spacer */}
+             <div className="flex items-center gap-1">
+               <button
+                 onClick={() => setShowSleepTimer(true)}
+                 className={`flex items-center gap-2 p-2 rounded-full transition-colors backdrop-blur-sm hover:bg-white/10 ${timerLabel ? 'text-blue-300' : 'text-white/80 hover:text-white'}`}
+                 title={timerTitle}
+               >
+                 {timerIcon(24)}
+                 {timerLabel && <span className="text-sm font-medium tabular-nums">{timerLabel}</span>}
+               </button>
+               <button
+                 onClick={() => setShowLyrics(!showLyrics)}
+                 className={`p-2 rounded-full transition-colors backdrop-blur-sm hover:bg-white/10 ${showLyrics ? 'text-blue-300' : 'text-white/80 hover:text-white'}`}
+                 title={showLyrics ? 'Hide lyrics' : 'Lyrics'}
+               >
+                 <MicVocal size={24} />
+               </button>
+               <button onClick={() => setShowEqualizer(true)} className="text-white/80 hover:text-white hover:bg-white/10 p-2 rounded-full transition-colors backdrop-blur-sm" title="Equalizer">
+                 <SlidersVertical size={24} />
+               </button>
+               <LikeButton track={track} size={28} className="p-2 hover:bg-white/10 backdrop-blur-sm" />
+             </div>
            </div>
 
            {/* Full Screen Content */}
            <div className="relative z-10 flex-1 flex flex-col items-center justify-center p-8 space-y-8 md:space-y-12 max-w-2xl mx-auto w-full">
              
-             {/* Big Cover Art */}
-             <div className="relative aspect-square w-full max-w-sm md:max-w-md rounded-2xl shadow-[0_20px_50px_rgba(0,0,0,0.5)] overflow-hidden ring-1 ring-white/10 group">
-                <img 
-                  src={activeCover} 
-                  className={`w-full h-full object-cover transition-transform duration-[20s] ease-linear ${isPlaying ? 'scale-110' : 'scale-100'}`} 
-                  alt={track.name} 
-                />
-             </div>
+             {/* Big Cover Art, or the lyrics in its place */}
+             {showLyrics ? (
+               <div className="w-full h-[40vh] md:h-[45vh]">
+                 <LyricsPanel
+                   track={track}
+                   currentTime={currentTime}
+                   onSeek={(time) => playbackController.seek(time)}
+                   onEdit={setEditingLyrics}
+                 />
+               </div>
+             ) : (
+               <div className="relative aspect-square w-full max-w-sm md:max-w-md rounded-2xl shadow-[0_20px_50px_rgba(0,0,0,0.5)] overflow-hidden ring-1 ring-white/10 group">
+                  <img 
+                    src={activeCover} 
+                    className={`w-full h-full object-cover transition-transform duration-[20s] ease-linear ${isPlaying ? 'scale-110' : 'scale-100'}`} 
+                    alt={track.name} 
+                  />
+               </div>
+             )}
 
              {/* Info & Visualizer */}
              <div className="w-full space-y-6">
                 <div className="text-center space-y-2">
                   <h1 className="text-2xl md:text-4xl font-bold text-white font-display truncate drop-shadow-lg">{track.name}</h1>
                   <p className="text-lg text-white/80 truncate drop-shadow-md">{track.artist}</p>
-                  <p className="text-sm text-white/60 truncate drop-shadow-md">{track.album}</p>
+                  <p className="text-sm text-white/60 truncate drop-shadow-md">{currentChapter ? currentChapter.title : track.album}</p>
                 </div>
 
                 <div className="h-16 md:h-24 w-full">
-                  <Visualizer analyser={analyser} isPlaying={isPlaying && !error} />
+                  <Visualizer analyser={analyser} isPlaying={isPlaying && !error} coverUrl={activeCover} interactive />
                 </div>
              </div>
              
@@ -284,21 +352,31 @@ const Player: React.FC<PlayerProps> = ({
                  <span>{formatTime(currentTime)}</span>
                  <span>{formatTime(duration)}</span>
                </div>
-               <input
-                type="range"
-                min="0"
-                max={duration || 0}
-                value={currentTime}
-                onChange={handleSeek}
-                className="w-full h-1.5 bg-white/20 rounded-lg appearance-none cursor-pointer accent-white hover:accent-blue-400"
-              />
+               <WaveformSeekBar
+                 track={track}
+                 currentTime={currentTime}
+                 duration={duration}
+                 onSeek={(time) => playbackController.seek(time)}
+                 formatTime={formatTime}
+                 className="h-12 md:h-14"
+                 playedClassName="fill-white"
+                 restClassName="fill-white/25"
+               >
+                 <ChapterMarks chapters={chapters} duration={duration} className="h-full bg-white/50" />
+               </WaveformSeekBar>
              </div>
 
              {/* Big Controls */}
              <div className="flex items-center justify-between w-full max-w-xs md:max-w-md">
-                <button onClick={toggleShuffle} className={`p-3 rounded-full transition-colors backdrop-blur-sm ${isShuffle ? 'text-blue-400 bg-white/10' : 'text-white/60 hover:text-white hover:bg-white/5'}`}>
-                  <Shuffle size={24} />
-                </button>
+                {isLongForm ? (
+                  <button onClick={() => skip(-SKIP_BACK_SECONDS)} className="p-3 rounded-full text-white/80 hover:text-white hover:bg-white/5 transition-colors backdrop-blur-sm" title={`Back ${SKIP_BACK_SECONDS} seconds`}>
+                    <SkipIcon seconds={-SKIP_BACK_SECONDS} size={28} />
+                  </button>
+                ) : (
+                  <button onClick={toggleShuffle} className={`p-3 rounded-full transition-colors backdrop-blur-sm ${isShuffle ? 'text-blue-400 bg-white/10' : 'text-white/60 hover:text-white hover:bg-white/5'}`}>
+                    <Shuffle size={24} />
+                  </button>
+                )}
                 <button onClick={onPrevious} className="text-white hover:scale-110 transition-transform p-2 drop-shadow-lg">
                   <SkipBack size={36} fill="currentColor" />
                 </button>
@@ -311,10 +389,54 @@ const Player: React.FC<PlayerProps> = ({
                 <button onClick={onNext} className="text-white hover:scale-110 transition-transform p-2 drop-shadow-lg">
                   <SkipForward size={36} fill="currentColor" />
                 </button>
-                <button onClick={toggleRepeat} className={`p-3 rounded-full transition-colors backdrop-blur-sm ${repeatMode !== 'none' ? 'text-blue-400 bg-white/10' : 'text-white/60 hover:text-white hover:bg-white/5'}`}>
-                  {repeatMode === 'one' ? <Repeat1 size={24} /> : <Repeat size={24} />}
-                </button>
+                {isLongForm ? (
+                  <button onClick={() => skip(SKIP_FORWARD_SECONDS)} className="p-3 rounded-full text-white/80 hover:text-white hover:bg-white/5 transition-colors backdrop-blur-sm" title={`Forward ${SKIP_FORWARD_SECONDS} seconds`}>
+                    <SkipIcon seconds={SKIP_FORWARD_SECONDS} size={28} />
+                  </button>
+                ) : (
+                  <button onClick={toggleRepeat} className={`p-3 rounded-full transition-colors backdrop-blur-sm ${repeatMode !== 'none' ? 'text-blue-400 bg-white/10' : 'text-white/60 hover:text-white hover:bg-white/5'}`}>
+                    {repeatMode === 'one' ? <Repeat1 size={24} /> : <Repeat size={24} />}
+                  </button>
+                )}
              </div>
+
+             {isLongForm && (
+               <div className="flex items-center gap-3">
+                 <TrackMenu
+                   items={speedItems}
+                   openUp
+                   icon={<span className="text-sm font-semibold tabular-nums">{formatRate(playerState.playbackRate)}</span>}
+                   title="Playback speed"
+                   buttonClassName="px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 text-white backdrop-blur-sm transition-colors"
+                 />
+                 <TrackMenu
+                   items={chapterItems}
+                   openUp
+                   icon={<span className="flex items-center gap-2 text-sm"><ListOrdered size={16} /> Chapters</span>}
+                   title="Chapters"
+                   buttonClassName="px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 text-white backdrop-blur-sm transition-colors"
+                 />
+               </div>
+             )}
+
+             {/* Up Next */}
+             <button
+               onClick={() => setShowQueue(true)}
+               className="w-full max-w-xs md:max-w-md flex items-center gap-3 p-2 pr-3 rounded-xl bg-white/5 hover:bg-white/10 backdrop-blur-sm transition-colors text-left"
+             >
+               {upNext ? (
+                 <>
+                   <img src={upNext.coverArt || 'https://images.unsplash.com/photo-1470225620780-dba8ba36b745?w=400&auto=format&fit=crop&q=60'} className="w-10 h-10 rounded-lg object-cover" alt="" />
+                   <div className="flex-1 min-w-0">
+                     <span className="block text-[10px] uppercase tracking-widest text-white/50">Up next</span>
+                     <span className="block text-sm text-white truncate">{upNext.name} <span className="text-white/60">· {upNext.artist}</span></span>
+                   </div>
+                 </>
+               ) : (
+                 <span className="flex-1 px-1 text-sm text-white/60">Nothing up next</span>
+               )}
+               <ListMusic size={20} className="text-white/70 shrink-0" />
+             </button>
            </div>
         </div>
       )}
@@ -340,6 +462,7 @@ const Player: React.FC<PlayerProps> = ({
               onClick={(e) => e.stopPropagation()}
               className="absolute inset-0 w-full h-4 -top-2 opacity-0 cursor-pointer"
             />
+            <ChapterMarks chapters={chapters} duration={duration} className="h-1 bg-slate-400/70" />
           </div>
 
           <div className="max-w-7xl mx-auto flex flex-col md:grid md:grid-cols-3 gap-0 md:gap-4 items-center p-2 md:p-6">
@@ -362,96 +485,173 @@ const Player: React.FC<PlayerProps> = ({
               </div>
               <div className="min-w-0 flex-1">
                 <h3 className={`font-semibold truncate text-sm md:text-lg font-display ${error ? 'text-red-400' : 'text-white'}`}>{track.name}</h3>
-                <p className="text-slate-400 text-xs md:text-sm truncate">{track.artist}</p>
+                <p className="text-slate-400 text-xs md:text-sm truncate">{currentChapter ? `${track.artist} · ${currentChapter.title}` : track.artist}</p>
               </div>
+              <LikeButton track={track} size={18} className="shrink-0" />
               
               {/* Mobile Controls embedded in the row */}
               <div className="flex md:hidden items-center space-x-3 ml-2">
                 <button onClick={(e) => { e.stopPropagation(); onPrevious(); }} className="text-slate-300 hover:text-white p-1"><SkipBack size={20} /></button>
                 <button 
                   onClick={(e) => { togglePlay(e); }}
-                  className={`w-10 h-10 flex items-center justify-center rounded-full transition-all ${error ? 'bg-slate-700 text-slate-500' : 'bg-white text-slate-900'}`}
-                  disabled={!!error}
+                  className={`w-10 h-10 flex items-center justify-center rounded-full transition-all ${error ? 'bg-slate-700 text-slate-300' : 'bg-white text-slate-900'}`}
+                  title={error ? 'Try again' : undefined}
                 >
                   {isPlaying ? <Pause fill="currentColor" size={20} /> : <Play fill="currentColor" size={20} className="ml-1" />}
                 </button>
                 <button onClick={(e) => { e.stopPropagation(); onNext(); }} className="text-slate-300 hover:text-white p-1"><SkipForward size={20} /></button>
+                <button onClick={(e) => { e.stopPropagation(); setShowQueue(true); }} className="text-slate-400 hover:text-white p-1" title="Queue"><ListMusic size={20} /></button>
               </div>
             </div>
 
             {/* Desktop Controls */}
             <div className="hidden md:flex flex-col items-center space-y-2 w-full">
               <div className="flex items-center space-x-6">
-                <button 
-                  onClick={(e) => { e.stopPropagation(); toggleShuffle(); }}
-                  className={`relative transition-colors p-2 rounded-full hover:bg-slate-800 ${isShuffle ? 'text-blue-400' : 'text-slate-400'}`}
-                  title="Shuffle"
-                >
-                  <Shuffle size={18} />
-                  {isShuffle && <div className="absolute bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 bg-blue-400 rounded-full"></div>}
-                </button>
+                {isLongForm ? (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); skip(-SKIP_BACK_SECONDS); }}
+                    className="p-2 rounded-full text-slate-300 hover:text-white hover:bg-slate-800 transition-colors"
+                    title={`Back ${SKIP_BACK_SECONDS} seconds`}
+                  >
+                    <SkipIcon seconds={-SKIP_BACK_SECONDS} size={22} />
+                  </button>
+                ) : (
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); toggleShuffle(); }}
+                    className={`relative transition-colors p-2 rounded-full hover:bg-slate-800 ${isShuffle ? 'text-blue-400' : 'text-slate-400'}`}
+                    title="Shuffle"
+                  >
+                    <Shuffle size={18} />
+                    {isShuffle && <div className="absolute bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 bg-blue-400 rounded-full"></div>}
+                  </button>
+                )}
 
                 <button onClick={(e) => { e.stopPropagation(); onPrevious(); }} className="text-slate-300 hover:text-white transition-colors hover:scale-110"><SkipBack size={24} /></button>
                 
                 <button 
                   onClick={(e) => togglePlay(e)}
-                  className={`w-12 h-12 flex items-center justify-center rounded-full transition-all ${error ? 'bg-slate-700 text-slate-500 cursor-not-allowed' : 'bg-white text-slate-900 hover:scale-105 shadow-lg shadow-white/10'}`}
-                  disabled={!!error}
+                  className={`w-12 h-12 flex items-center justify-center rounded-full transition-all ${error ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-white text-slate-900 hover:scale-105 shadow-lg shadow-white/10'}`}
+                  title={error ? 'Try again' : undefined}
                 >
                   {isPlaying ? <Pause fill="currentColor" size={24} /> : <Play fill="currentColor" size={24} className="ml-1" />}
                 </button>
                 
                 <button onClick={(e) => { e.stopPropagation(); onNext(); }} className="text-slate-300 hover:text-white transition-colors hover:scale-110"><SkipForward size={24} /></button>
                 
-                <button 
-                  onClick={(e) => { e.stopPropagation(); toggleRepeat(); }}
-                  className={`relative transition-colors p-2 rounded-full hover:bg-slate-800 ${repeatMode !== 'none' ? 'text-blue-400' : 'text-slate-400'}`}
-                  title="Repeat"
-                >
-                  {repeatMode === 'one' ? <Repeat1 size={18} /> : <Repeat size={18} />}
-                  {repeatMode !== 'none' && <div className="absolute bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 bg-blue-400 rounded-full"></div>}
-                </button>
+                {isLongForm ? (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); skip(SKIP_FORWARD_SECONDS); }}
+                    className="p-2 rounded-full text-slate-300 hover:text-white hover:bg-slate-800 transition-colors"
+                    title={`Forward ${SKIP_FORWARD_SECONDS} seconds`}
+                  >
+                    <SkipIcon seconds={SKIP_FORWARD_SECONDS} size={22} />
+                  </button>
+                ) : (
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); toggleRepeat(); }}
+                    className={`relative transition-colors p-2 rounded-full hover:bg-slate-800 ${repeatMode !== 'none' ? 'text-blue-400' : 'text-slate-400'}`}
+                    title="Repeat"
+                  >
+                    {repeatMode === 'one' ? <Repeat1 size={18} /> : <Repeat size={18} />}
+                    {repeatMode !== 'none' && <div className="absolute bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 bg-blue-400 rounded-full"></div>}
+                  </button>
+                )}
               </div>
               
               <div className="w-full flex items-center space-x-3">
                 <span className="text-xs text-slate-500 w-10 text-right font-mono">{formatTime(currentTime)}</span>
-                <input
-                  type="range"
-                  min="0"
-                  max={duration || 0}
-                  value={currentTime}
-                  onChange={handleSeek}
-                  onClick={(e) => e.stopPropagation()}
-                  className="flex-1 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:h-1.5 transition-all"
-                />
+                <WaveformSeekBar
+                  track={track}
+                  currentTime={currentTime}
+                  duration={duration}
+                  onSeek={(time) => playbackController.seek(time)}
+                  formatTime={formatTime}
+                  className="flex-1 h-8"
+                  playedClassName="fill-blue-500"
+                  restClassName="fill-slate-700"
+                >
+                  <ChapterMarks chapters={chapters} duration={duration} className="h-full bg-slate-400/70" />
+                </WaveformSeekBar>
                 <span className="text-xs text-slate-500 w-10 font-mono">{formatTime(duration)}</span>
               </div>
             </div>
 
             {/* Visualizer & Volume (Desktop Only) */}
             <div className="hidden md:flex flex-col items-end space-y-3 w-full">
-              <Visualizer analyser={analyser} isPlaying={isPlaying && !error} />
-              <div className="flex items-center space-x-3 w-32 group">
-                <Volume2 size={18} className="text-slate-500 group-hover:text-slate-300 transition-colors" />
-                <input
-                  type="range"
-                  min="0"
-                  max="1"
-                  step="0.01"
-                  value={volume}
-                  onChange={(e) => {
-                    const v = parseFloat(e.target.value);
-                    setVolume(v);
-                    if (audioRef.current) audioRef.current.volume = v;
-                  }}
-                  onClick={(e) => e.stopPropagation()}
-                  className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                />
+              <Visualizer analyser={analyser} isPlaying={isPlaying && !error} coverUrl={activeCover} />
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={(e) => { e.stopPropagation(); setShowQueue(true); }}
+                  className={`relative p-1 rounded-full transition-colors ${queue.length > 0 ? 'text-blue-400' : 'text-slate-500 hover:text-slate-300'}`}
+                  title="Queue"
+                >
+                  <ListMusic size={18} />
+                  {queue.length > 0 && <span className="absolute -top-1 -right-2 min-w-[1rem] px-1 rounded-full bg-blue-500 text-[9px] leading-4 text-white text-center">{queue.length}</span>}
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setShowEqualizer(true); }}
+                  className="p-1 rounded-full text-slate-500 hover:text-slate-300 transition-colors"
+                  title="Equalizer"
+                >
+                  <SlidersVertical size={18} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setShowSleepTimer(true); }}
+                  className={`flex items-center gap-1 p-1 rounded-full transition-colors ${timerLabel ? 'text-blue-400' : 'text-slate-500 hover:text-slate-300'}`}
+                  title={timerTitle}
+                >
+                  {timerIcon(18)}
+                  {timerLabel && <span className="text-xs tabular-nums">{timerLabel}</span>}
+                </button>
+                {isLongForm && (
+                  <TrackMenu
+                    items={speedItems}
+                    openUp
+                    icon={<span className="text-xs font-semibold tabular-nums">{formatRate(playerState.playbackRate)}</span>}
+                    title="Playback speed"
+                    buttonClassName="px-1.5 py-0.5 rounded-md border border-slate-700 text-slate-400 hover:text-white transition-colors"
+                  />
+                )}
+                {chapters.length > 0 && (
+                  <TrackMenu
+                    items={chapterItems}
+                    openUp
+                    icon={<ListOrdered size={18} />}
+                    title="Chapters"
+                    buttonClassName="p-1 rounded-full text-slate-500 hover:text-slate-300 transition-colors"
+                  />
+                )}
+                <div className="flex items-center space-x-3 w-32 group">
+                  <Volume2 size={18} className="text-slate-500 group-hover:text-slate-300 transition-colors" />
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={volume}
+                    onChange={(e) => playbackController.setVolume(parseFloat(e.target.value))}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                </div>
               </div>
             </div>
           </div>
         </div>
       )}
+
+      <QueuePanel
+        isOpen={showQueue}
+        onClose={() => setShowQueue(false)}
+        track={track}
+        coverArt={activeCover}
+      />
+
+      {showEqualizer && <EqualizerPanel onClose={() => setShowEqualizer(false)} />}
+      {showSleepTimer && <SleepTimerPanel onClose={() => setShowSleepTimer(false)} />}
+      {editingLyrics !== undefined && (
+        <LyricsEditor track={track} initial={editingLyrics} onClose={() => setEditingLyrics(undefined)} />
+      )}
     </>
   );
 };
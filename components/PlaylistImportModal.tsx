@@ -0,0 +1,104 @@
+import React from 'react';
+import { PlaylistEntry } from '../services/playlistFormats';
+import { PlaylistMatch } from '../services/playlistMatcher';
+import { X, FileUp, CheckCircle2, AlertTriangle, Sparkles } from 'lucide-react';
+
+export interface PlaylistImportResult {
+  fileName: string;
+  playlistName: string;
+  matches: PlaylistMatch[];
+  unmatched: PlaylistEntry[];
+  error?: string;
+}
+
+interface PlaylistImportModalProps {
+  result: PlaylistImportResult;
+  onClose: () => void;
+}
+
+const describeEntry = (entry: PlaylistEntry) => {
+  const tags = [entry.artist, entry.title].filter(Boolean).join(' - ');
+  return { primary: tags || entry.location || 'Untitled entry', secondary: tags ? entry.location : undefined };
+};
+
+const PlaylistImportModal: React.FC<PlaylistImportModalProps> = ({ result, onClose }) => {
+  const fuzzy = result.matches.filter(m => m.method === 'tags');
+  const total = result.matches.length + result.unmatched.length;
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+      <div className="glass w-full max-w-xl max-h-[85vh] flex flex-col rounded-3xl overflow-hidden shadow-2xl border border-slate-700 animate-in fade-in zoom-in duration-300">
+        <div className="p-6 border-b border-slate-800 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="flex items-center gap-2 text-xs uppercase tracking-widest text-slate-400"><FileUp size={14} /> Playlist import</p>
+            <h2 className="text-xl font-bold font-display text-white truncate">{result.fileName}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {result.error ? (
+            <p className="flex items-start gap-2 text-sm text-rose-300">
+              <AlertTriangle size={16} className="text-rose-400 shrink-0 mt-0.5" />
+              {result.error}
+            </p>
+          ) : (
+            <>
+              <p className="flex items-start gap-2 text-sm text-slate-200">
+                <CheckCircle2 size={16} className="text-emerald-400 shrink-0 mt-0.5" />
+                {result.matches.length > 0
+                  ? `Matched ${result.matches.length} of ${total} entries into "${result.playlistName}".`
+                  : `None of the ${total} entries matched a track in your library, so no playlist was created.`}
+              </p>
+
+              {fuzzy.length > 0 && (
+                <div className="space-y-2">
+                  <p className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-amber-400">
+                    <Sparkles size={14} /> Matched by title and artist ({fuzzy.length})
+                  </p>
+                  <ul className="rounded-xl border border-slate-800 divide-y divide-slate-800/60 text-xs">
+                    {fuzzy.map((match, idx) => (
+                      <li key={idx} className="px-3 py-2">
+                        <span className="block text-slate-300 truncate">{describeEntry(match.entry).primary}</span>
+                        <span className="block text-slate-500 truncate">→ {match.track.artist} - {match.track.name}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {result.unmatched.length > 0 && (
+                <div className="space-y-2">
+                  <p className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-rose-400">
+                    <AlertTriangle size={14} /> Not found ({result.unmatched.length})
+                  </p>
+                  <ul className="rounded-xl border border-slate-800 divide-y divide-slate-800/60 text-xs">
+                    {result.unmatched.map((entry, idx) => {
+                      const { primary, secondary } = describeEntry(entry);
+                      return (
+                        <li key={idx} className="px-3 py-2">
+                          <span className="block text-slate-300 truncate">{primary}</span>
+                          {secondary && <span className="block text-slate-500 truncate">{secondary}</span>}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex justify-end">
+          <button onClick={onClose} className="px-5 py-2 rounded-full bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-colors">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlaylistImportModal;
@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import { Playlist, Track } from '../types';
+import { playlistService } from '../services/playlistService';
+import { offlineService } from '../services/offlineService';
+import TrackMenu, { TrackMenuItem } from './TrackMenu';
+import OfflineBadge from './OfflineBadge';
+import LikeButton from './LikeButton';
+import { ListMusic, Play, Shuffle, Download, CheckCircle2, Trash2, Pencil, GripVertical, MinusCircle, FileDown } from 'lucide-react';
+
+interface PlaylistViewProps {
+  playlist: Playlist;
+  tracks: Track[];
+  currentTrack: Track | null;
+  getTrackMenuItems: (track: Track) => TrackMenuItem[];
+  getExportMenuItems: (name: string, tracks: Track[]) => TrackMenuItem[];
+  onPlayTrack: (track: Track, playlistTracks: Track[]) => void;
+  onPlayTracks: (tracks: Track[], shuffle: boolean) => void;
+  onDeleted: () => void;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(Math.round(seconds) % 60).toString().padStart(2, '0')}`;
+
+const PlaylistView: React.FC<PlaylistViewProps> = ({ playlist, tracks, currentTrack, getTrackMenuItems, getExportMenuItems, onPlayTrack, onPlayTracks, onDeleted }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(playlist.name);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    setIsRenaming(false);
+    setDraftName(playlist.name);
+  }, [playlist.id, playlist.name]);
+
+  // Playlist entries whose files are gone (or not synced yet) are skipped, not dropped
+  const byId = new Map(tracks.map(t => [t.id, t]));
+  const playlistTracks = playlist.trackIds.map(id => byId.get(id)).filter((t): t is Track => !!t);
+  const missingCount = playlist.trackIds.length - playlistTracks.length;
+
+  const offlineSource = `playlist:${playlist.id}`;
+  const isPinned = offlineService.hasSource(offlineSource);
+
+  const commitRename = () => {
+    playlistService.renamePlaylist(playlist.id, draftName);
+    setIsRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete "${playlist.name}"?`)) return;
+    if (isPinned) offlineService.unpinTracks(playlistTracks, offlineSource);
+    playlistService.deletePlaylist(playlist.id);
+    onDeleted();
+  };
+
+  const removeTrack = (track: Track) => {
+    playlistService.removeTrack(playlist.id, track.id);
+    if (isPinned) offlineService.unpinTracks([track], offlineSource);
+  };
+
+  const toggleOffline = () => {
+    if (isPinned) offlineService.unpinTracks(playlistTracks, offlineSource);
+    else offlineService.pinTracks(playlistTracks, offlineSource);
+  };
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex !== null) {
+      // Indices on screen skip missing tracks, so move by position in the stored id list
+      const from = playlist.trackIds.indexOf(playlistTracks[dragIndex].id);
+      const to = playlist.trackIds.indexOf(playlistTracks[targetIndex].id);
+      playlistService.moveTrack(playlist.id, from, to);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const duration = playlistTracks.reduce((sum, t) => sum + (t.duration || 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <p className="flex items-center gap-2 text-xs uppercase tracking-widest text-slate-400"><ListMusic size={14} /> Playlist</p>
+        {isRenaming ? (
+          <input
+            autoFocus
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename();
+              if (e.key === 'Escape') {
+                setDraftName(playlist.name);
+                setIsRenaming(false);
+              }
+            }}
+            className="w-full max-w-xl bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-1 text-2xl md:text-4xl font-bold font-display text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+        ) : (
+          <button onClick={() => setIsRenaming(true)} className="group flex items-center gap-3 text-left" title="Rename">
+            <h2 className="text-2xl md:text-4xl font-bold font-display text-white leading-tight">{playlist.name}</h2>
+            <Pencil size={18} className="text-slate-500 opacity-0 group-hover:opacity-100 transition-opacity" />
+          </button>
+        )}
+        <p className="text-sm text-slate-400">
+          {playlistTracks.length} {playlistTracks.length === 1 ? 'track' : 'tracks'}
+          {duration > 0 ? ` · ${Math.round(duration / 60)} min` : ''}
+          {missingCount > 0 ? ` · ${missingCount} unavailable` : ''}
+        </p>
+
+        <div className="flex items-center space-x-2 pt-2">
+          <button
+            onClick={() => onPlayTracks(playlistTracks, false)}
+            disabled={playlistTracks.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 rounded-full bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-sm font-medium transition-colors"
+          >
+            <Play size={16} fill="currentColor" />
+            <span>Play</span>
+          </button>
+          <button
+            onClick={() => onPlayTracks(playlistTracks, true)}
+            disabled={playlistTracks.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 rounded-full bg-slate-800 hover:bg-slate-700 border border-slate-700 disabled:opacity-40 text-sm font-medium transition-colors"
+          >
+            <Shuffle size={16} />
+            <span className="hidden sm:inline">Shuffle</span>
+          </button>
+          <button
+            onClick={toggleOffline}
+            disabled={playlistTracks.length === 0}
+            title={isPinned ? 'Remove download' : 'Download for offline'}
+            className={`p-2 rounded-full border disabled:opacity-40 transition-colors ${isPinned ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300'}`}
+          >
+            {isPinned ? <CheckCircle2 size={16} /> : <Download size={16} />}
+          </button>
+          <TrackMenu
+            items={getExportMenuItems(playlist.name, playlistTracks)}
+            icon={<FileDown size={16} />}
+            title="Export playlist"
+            buttonClassName="p-2 rounded-full border bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300 transition-colors"
+          />
+          <button
+            onClick={handleDelete}
+            title="Delete playlist"
+            className="p-2 rounded-full border bg-slate-800 hover:bg-rose-500/10 hover:border-rose-500/30 hover:text-rose-400 border-slate-700 text-slate-300 transition-colors"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      {playlistTracks.length > 0 ? (
+        <div className="glass rounded-xl md:rounded-2xl border border-slate-800/50 divide-y divide-slate-800/30">
+          {playlistTracks.map((track, idx) => {
+            const isCurrent = currentTrack?.id === track.id;
+            return (
+              <div
+                key={track.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDragIndex(idx);
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropIndex(idx);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(idx);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+                onClick={() => onPlayTrack(track, playlistTracks)}
+                className={`group flex items-center space-x-3 px-4 py-3 md:px-6 cursor-pointer hover:bg-blue-600/5 transition-colors ${isCurrent ? 'bg-blue-600/10' : ''} ${dragIndex === idx ? 'opacity-40' : ''} ${dropIndex === idx && dragIndex !== idx ? 'ring-1 ring-inset ring-blue-500/50' : ''}`}
+              >
+                <GripVertical size={14} className="text-slate-600 cursor-grab shrink-0" />
+                <span className="text-xs text-slate-500 w-6">{idx + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <span className={`block text-xs md:text-sm font-medium truncate ${isCurrent ? 'text-blue-400' : 'text-slate-200'}`}>{track.name}</span>
+                  <span className="block text-[10px] md:text-xs text-slate-500 truncate">{track.artist}</span>
+                </div>
+                <OfflineBadge status={offlineService.getStatus(track.id)} />
+                <LikeButton track={track} hideUntilHover />
+                <span className="text-xs text-slate-500">{track.duration > 0 ? formatTime(track.duration) : '--:--'}</span>
+                <TrackMenu
+                  items={[
+                    ...getTrackMenuItems(track),
+                    { label: 'Remove from playlist', icon: <MinusCircle size={14} />, onClick: () => removeTrack(track), danger: true },
+                  ]}
+                  className="md:opacity-0 md:group-hover:opacity-100 transition-opacity"
+                />
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500 py-10 text-center">This playlist is empty. Add tracks from the ⋮ menu on any track.</p>
+      )}
+    </div>
+  );
+};
+
+export default PlaylistView;
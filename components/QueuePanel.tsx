@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { Track } from '../types';
+import { playbackController } from '../services/playbackController';
+import { X, GripVertical, MinusCircle, ListMusic } from 'lucide-react';
+
+const FALLBACK_COVER = 'https://images.unsplash.com/photo-1470225620780-dba8ba36b745?w=400&auto=format&fit=crop&q=60';
+const UPCOMING_LIMIT = 30;
+
+interface QueuePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  track: Track;
+  coverArt: string;
+}
+
+const QueuePanel: React.FC<QueuePanelProps> = ({ isOpen, onClose, track, coverArt }) => {
+  const [queue, setQueue] = useState(playbackController.getQueue());
+  const [upcomingTracks, setUpcomingTracks] = useState(playbackController.getUpcoming());
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  useEffect(() => playbackController.subscribe(change => {
+    if (change !== 'queue') return;
+    setQueue(playbackController.getQueue());
+    setUpcomingTracks(playbackController.getUpcoming());
+  }), []);
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex !== null) playbackController.moveInQueue(dragIndex, targetIndex);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <>
+      <div
+        className={`fixed inset-0 z-[70] bg-black/40 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+        onClick={onClose}
+      />
+      <aside
+        onClick={(e) => e.stopPropagation()}
+        className={`fixed inset-y-0 right-0 z-[71] w-full sm:w-96 glass bg-slate-950/95 border-l border-slate-800 flex flex-col transform transition-transform duration-300 ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}
+      >
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <h2 className="flex items-center gap-2 text-lg font-bold font-display text-white"><ListMusic size={20} /> Queue</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={22} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          <section className="space-y-2">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-widest">Now playing</p>
+            <div className="flex items-center gap-3">
+              <img src={coverArt} className="w-10 h-10 rounded-md object-cover" alt="" />
+              <div className="min-w-0">
+                <span className="block text-sm font-medium text-blue-400 truncate">{track.name}</span>
+                <span className="block text-xs text-slate-500 truncate">{track.artist}</span>
+              </div>
+            </div>
+          </section>
+
+          {queue.length > 0 && (
+            <section className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-bold text-slate-500 uppercase tracking-widest">Next in queue</p>
+                <button onClick={() => playbackController.clearQueue()} className="text-xs text-slate-400 hover:text-white transition-colors">Clear</button>
+              </div>
+              <div className="space-y-1">
+                {queue.map((queued, idx) => (
+                  <div
+                    key={`${queued.id}-${idx}`}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDragIndex(idx);
+                    }}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDropIndex(idx);
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDrop(idx);
+                    }}
+                    onDragEnd={() => {
+                      setDragIndex(null);
+                      setDropIndex(null);
+                    }}
+                    onClick={() => playbackController.playQueued(idx)}
+                    className={`group flex items-center gap-2 px-2 py-2 rounded-lg cursor-pointer hover:bg-slate-800/60 transition-colors ${dragIndex === idx ? 'opacity-40' : ''} ${dropIndex === idx && dragIndex !== idx ? 'ring-1 ring-inset ring-blue-500/50' : ''}`}
+                  >
+                    <GripVertical size={14} className="text-slate-600 cursor-grab shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <span className="block text-sm text-slate-200 truncate">{queued.name}</span>
+                      <span className="block text-xs text-slate-500 truncate">{queued.artist}</span>
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        playbackController.removeFromQueue(idx);
+                      }}
+                      title="Remove from queue"
+                      className="p-1 text-slate-500 hover:text-rose-400 md:opacity-0 md:group-hover:opacity-100 transition-all"
+                    >
+                      <MinusCircle size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          <section className="space-y-2">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-widest">Next up</p>
+            {upcomingTracks.length > 0 ? (
+              <div className="space-y-1">
+                {upcomingTracks.slice(0, UPCOMING_LIMIT).map((upcoming, idx) => (
+                  <div key={`${upcoming.id}-${idx}`} className="flex items-center gap-3 px-2 py-2">
+                    <img src={upcoming.coverArt || FALLBACK_COVER} className="w-8 h-8 rounded object-cover opacity-80" alt="" />
+                    <div className="min-w-0">
+                      <span className="block text-sm text-slate-300 truncate">{upcoming.name}</span>
+                      <span className="block text-xs text-slate-500 truncate">{upcoming.artist}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500">Nothing else is lined up. Use "Add to queue" on any track.</p>
+            )}
+          </section>
+        </div>
+      </aside>
+    </>
+  );
+};
+
+export default QueuePanel;
@@ -1,14 +1,41 @@
 
-import React, { useState, useEffect } from 'react';
-import { X, Save, ShieldCheck, HelpCircle, AlertTriangle, Copy, Check, Globe, ExternalLink, Users, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Save, ShieldCheck, HelpCircle, AlertTriangle, Copy, Check, Globe, ExternalLink, Users, AlertCircle, FolderOpen, Search, HardDriveDownload, Trash2, ListMusic, Blend, AudioWaveform, BookHeadphones, AudioLines } from 'lucide-react';
 import { driveService } from '../services/googleDriveService';
+import { FolderTree } from '../services/folderTree';
+import { offlineService, OfflineSettings, OfflineUsage } from '../services/offlineService';
+import { playlistService } from '../services/playlistService';
+import { playbackController, MAX_CROSSFADE_SECONDS } from '../services/playbackController';
+import { loudnessService, NormalizationSettings } from '../services/loudnessService';
+import { longFormService } from '../services/longFormService';
+import { visualizerService, VisualizerSettings, VISUALIZER_MODES, MAX_SMOOTHING, MIN_SENSITIVITY, MAX_SENSITIVITY } from '../services/visualizerService';
+
+const GB = 1024 * 1024 * 1024;
+const OFFLINE_LIMITS = [1, 2, 5, 10, 25].map(n => n * GB);
+const LOUDNESS_TARGETS = [-23, -18, -16, -14, -11];
+const LONG_FORM_MINUTES = [0, 10, 20, 30, 60];
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= GB) return `${(bytes / GB).toFixed(1)} GB`;
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+};
 
 interface SettingsModalProps {
   onClose: () => void;
+  onLibraryRootsChange?: (roots: string[]) => void;
 }
 
-const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
+const SettingsModal: React.FC<SettingsModalProps> = ({ onClose, onLibraryRootsChange }) => {
   const [clientId, setClientId] = useState(driveService.getClientId());
+  const [libraryRoots, setLibraryRoots] = useState<string[]>(driveService.getLibraryRoots());
+  const [folderQuery, setFolderQuery] = useState('');
+  const [offlineSettings, setOfflineSettings] = useState<OfflineSettings>(offlineService.getSettings());
+  const [offlineUsage, setOfflineUsage] = useState<OfflineUsage | null>(null);
+  const [playlistSync, setPlaylistSync] = useState(playlistService.isDriveSyncEnabled());
+  const [crossfade, setCrossfade] = useState(playbackController.getState().crossfade);
+  const [normalization, setNormalization] = useState<NormalizationSettings>(loudnessService.getSettings());
+  const [longFormMinutes, setLongFormMinutes] = useState(longFormService.getSettings().minMinutes);
+  const [visualizer, setVisualizer] = useState<VisualizerSettings>(visualizerService.getSettings());
   const [saved, setSaved] = useState(false);
   const [origin, setOrigin] = useState('');
   const [hostname, setHostname] = useState('');
@@ -21,7 +48,46 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
     }
   }, []);
 
+  useEffect(() => {
+    const refresh = () => { offlineService.getUsage().then(setOfflineUsage); };
+    refresh();
+    return offlineService.subscribe(refresh);
+  }, []);
+
+  const clearOffline = () => {
+    if (confirm('Remove all tracks downloaded for offline listening?')) {
+      offlineService.clearAll();
+    }
+  };
+
+  const folders = useMemo(() => driveService.getFolders(), []);
+  const folderTree = useMemo(() => new FolderTree(folders, [], driveService.getRootFolderId()), [folders]);
+  const folderPath = (id: string) => folderTree.getPath(id).map(f => f.name).join(' / ');
+
+  const matchingFolders = useMemo(() => {
+    const query = folderQuery.trim().toLowerCase();
+    if (!query) return [];
+    return folders
+      .filter(f => !libraryRoots.includes(f.id) && f.name.toLowerCase().includes(query))
+      .slice(0, 50);
+  }, [folders, folderQuery, libraryRoots]);
+
+  const toggleRoot = (id: string) => {
+    setLibraryRoots(prev => prev.includes(id) ? prev.filter(r => r !== id) : [...prev, id]);
+  };
+
   const handleSave = () => {
+    driveService.setLibraryRoots(libraryRoots);
+    onLibraryRootsChange?.(libraryRoots);
+    offlineService.updateSettings(offlineSettings);
+    if (playlistSync !== playlistService.isDriveSyncEnabled()) {
+      playlistService.setDriveSyncEnabled(playlistSync);
+    }
+    playbackController.setCrossfade(crossfade);
+    loudnessService.updateSettings(normalization);
+    longFormService.updateSettings({ minMinutes: longFormMinutes });
+    visualizerService.updateSettings(visualizer);
+
     if (clientId.trim()) {
       driveService.setClientId(clientId.trim());
       setSaved(true);
@@ -54,7 +120,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
   const isSecure = origin.startsWith('https') || isLocalhost;
 
   return (
-    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
       <div className="glass w-full max-w-lg max-h-[90vh] flex flex-col rounded-2xl overflow-hidden shadow-2xl border border-slate-700 animate-in fade-in zoom-in duration-200">
         <div className="p-6 flex-1 overflow-y-auto">
           <div className="flex items-center justify-between mb-6">
@@ -156,6 +222,263 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
                 Required to access your Google Drive files.
               </p>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                <FolderOpen size={16} className="text-blue-400" />
+                Music Library Folders
+              </label>
+              {folders.length === 0 ? (
+                <p className="text-xs text-slate-500">Connect Google Drive to choose which folders make up your library.</p>
+              ) : (
+                <>
+                  <p className="text-xs text-slate-500 mb-3">
+                    {libraryRoots.length === 0 ? 'Your whole Drive is used as the library.' : 'Only audio inside these folders is part of your library.'}
+                  </p>
+                  {libraryRoots.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-3">
+                      {libraryRoots.map(id => (
+                        <span key={id} className="flex items-center gap-1 text-xs bg-blue-500/10 text-blue-300 border border-blue-500/20 px-2 py-1 rounded-md max-w-full">
+                          <span className="truncate">{folderPath(id) || 'Unknown folder'}</span>
+                          <button onClick={() => toggleRoot(id)} className="text-blue-300/60 hover:text-white">
+                            <X size={12} />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <div className="relative">
+                    <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+                    <input
+                      type="text"
+                      value={folderQuery}
+                      onChange={(e) => setFolderQuery(e.target.value)}
+                      placeholder="Search Drive folders..."
+                      className="w-full bg-slate-900/60 border border-slate-700 rounded-lg py-2 pl-9 pr-3 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none transition-all"
+                    />
+                  </div>
+                  {matchingFolders.length > 0 && (
+                    <div className="mt-2 max-h-40 overflow-y-auto rounded-lg border border-slate-800 divide-y divide-slate-800/50">
+                      {matchingFolders.map(folder => (
+                        <button
+                          key={folder.id}
+                          onClick={() => toggleRoot(folder.id)}
+                          className="w-full text-left px-3 py-2 text-xs text-slate-300 hover:bg-slate-800/60 truncate"
+                        >
+                          {folderPath(folder.id)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                <HardDriveDownload size={16} className="text-blue-400" />
+                Offline Storage
+              </label>
+              {offlineUsage && (
+                <div className="mb-3">
+                  <div className="h-2 w-full bg-slate-800 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-emerald-500 transition-all"
+                      style={{ width: `${Math.min(100, (offlineUsage.pinnedBytes / offlineSettings.limitBytes) * 100)}%` }}
+                    />
+                  </div>
+                  <p className="mt-2 text-xs text-slate-500">
+                    {offlineUsage.pinnedCount} tracks, {formatBytes(offlineUsage.pinnedBytes)} of {formatBytes(offlineSettings.limitBytes)} used
+                    {offlineUsage.browserQuota !== null && ` · browser quota ${formatBytes(offlineUsage.browserQuota)}`}
+                  </p>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-3">
+                <select
+                  value={offlineSettings.limitBytes}
+                  onChange={(e) => setOfflineSettings({ ...offlineSettings, limitBytes: Number(e.target.value) })}
+                  className="bg-slate-900/60 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                >
+                  {OFFLINE_LIMITS.map(limit => (
+                    <option key={limit} value={limit}>Limit: {formatBytes(limit)}</option>
+                  ))}
+                </select>
+                <select
+                  value={offlineSettings.eviction}
+                  onChange={(e) => setOfflineSettings({ ...offlineSettings, eviction: e.target.value as OfflineSettings['eviction'] })}
+                  className="bg-slate-900/60 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                >
+                  <option value="lru">When full: remove least played</option>
+                  <option value="none">When full: stop downloading</option>
+                </select>
+              </div>
+              {offlineUsage && offlineUsage.pinnedCount > 0 && (
+                <button
+                  onClick={clearOffline}
+                  className="mt-3 flex items-center gap-2 text-xs text-rose-400 hover:text-rose-300 transition-colors"
+                >
+                  <Trash2 size={14} />
+                  Remove all downloads
+                </button>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                <Blend size={16} className="text-blue-400" />
+                Crossfade
+              </label>
+              <div className="flex items-center gap-3">
+                <input
+                  type="range"
+                  min="0"
+                  max={MAX_CROSSFADE_SECONDS}
+                  step="1"
+                  value={crossfade}
+                  onChange={(e) => setCrossfade(Number(e.target.value))}
+                  className="flex-1 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+                <span className="w-10 text-right text-sm text-slate-300 tabular-nums">{crossfade === 0 ? 'Off' : `${crossfade} s`}</span>
+              </div>
+              <p className="mt-2 text-xs text-slate-500">
+                Fades the next track in over the end of the current one. Consecutive tracks from the same album always play without a gap.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                <AudioWaveform size={16} className="text-blue-400" />
+                Volume Normalization
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                <select
+                  value={normalization.mode}
+                  onChange={(e) => setNormalization({ ...normalization, mode: e.target.value as NormalizationSettings['mode'] })}
+                  className="bg-slate-900/60 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                >
+                  <option value="off">Off</option>
+                  <option value="track">Per track</option>
+                  <option value="album">Per album</option>
+                </select>
+                <select
+                  value={normalization.targetLufs}
+                  disabled={normalization.mode === 'off'}
+                  onChange={(e) => setNormalization({ ...normalization, targetLufs: Number(e.target.value) })}
+                  className="bg-slate-900/60 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+                >
+                  {LOUDNESS_TARGETS.map(target => (
+                    <option key={target} value={target}>Target: {target} LUFS</option>
+                  ))}
+                </select>
+              </div>
+              <label className="mt-3 flex items-start gap-3 text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={normalization.limiter}
+                  disabled={normalization.mode === 'off'}
+                  onChange={(e) => setNormalization({ ...normalization, limiter: e.target.checked })}
+                  className="mt-0.5 accent-blue-500"
+                />
+                <span>
+                  Limit peaks
+                  <span className="block text-xs text-slate-500 mt-1">
+                    Lets quiet tracks reach the target without clipping. When off, they're only raised as far as their peaks allow.
+                  </span>
+                </span>
+              </label>
+              <p className="mt-2 text-xs text-slate-500">
+                Uses ReplayGain tags when a file has them and measures the track otherwise. Album mode keeps the level differences within an album and falls back to per track for untagged files.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                <AudioLines size={16} className="text-blue-400" />
+                Visualizer
+              </label>
+              <select
+                value={visualizer.mode}
+                onChange={(e) => setVisualizer({ ...visualizer, mode: e.target.value as VisualizerSettings['mode'] })}
+                className="w-full bg-slate-900/60 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {VISUALIZER_MODES.map(({ mode, label }) => (
+                  <option key={mode} value={mode}>{label}</option>
+                ))}
+              </select>
+              <div className="mt-3 flex items-center gap-4">
+                <span className="w-20 text-sm text-slate-400">Smoothing</span>
+                <input
+                  type="range"
+                  min="0"
+                  max={MAX_SMOOTHING}
+                  step="0.05"
+                  value={visualizer.smoothing}
+                  onChange={(e) => setVisualizer({ ...visualizer, smoothing: Number(e.target.value) })}
+                  className="flex-1 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+                <span className="w-10 text-right text-sm text-slate-300 tabular-nums">{Math.round(visualizer.smoothing * 100)}%</span>
+              </div>
+              <div className="mt-2 flex items-center gap-4">
+                <span className="w-20 text-sm text-slate-400">Sensitivity</span>
+                <input
+                  type="range"
+                  min={MIN_SENSITIVITY}
+                  max={MAX_SENSITIVITY}
+                  step="0.1"
+                  value={visualizer.sensitivity}
+                  onChange={(e) => setVisualizer({ ...visualizer, sensitivity: Number(e.target.value) })}
+                  className="flex-1 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+                <span className="w-10 text-right text-sm text-slate-300 tabular-nums">{visualizer.sensitivity.toFixed(1)}×</span>
+              </div>
+              <p className="mt-2 text-xs text-slate-500">
+                Colors come from the cover of what's playing. In full screen, click the visualizer to switch styles.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                <BookHeadphones size={16} className="text-blue-400" />
+                Audiobooks & Podcasts
+              </label>
+              <select
+                value={longFormMinutes}
+                onChange={(e) => setLongFormMinutes(Number(e.target.value))}
+                className="w-full bg-slate-900/60 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {LONG_FORM_MINUTES.map(minutes => (
+                  <option key={minutes} value={minutes}>
+                    {minutes === 0 ? 'Only by folder or genre' : `Tracks longer than ${minutes} minutes`}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-2 text-xs text-slate-500">
+                Long-form tracks remember where you stopped, get skip buttons, a speed control and chapters. Folders named like "Audiobooks" or "Podcasts", M4B files and folders you mark in Folders count too.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                <ListMusic size={16} className="text-blue-400" />
+                Playlists
+              </label>
+              <label className="flex items-start gap-3 text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={playlistSync}
+                  onChange={(e) => setPlaylistSync(e.target.checked)}
+                  className="mt-0.5 accent-blue-500"
+                />
+                <span>
+                  Save playlists to Google Drive
+                  <span className="block text-xs text-slate-500 mt-1">
+                    Keeps a copy in the app's private Drive folder so your playlists follow you to other devices.
+                    {playlistService.getSyncStatus() === 'error' && ' The last sync failed.'}
+                    {playlistService.getSyncStatus() === 'reconnect-required' && ' Reconnect Google Drive to grant access to the app folder.'}
+                  </span>
+                </span>
+              </label>
+            </div>
           </div>
         </div>
         
@@ -1,17 +1,30 @@
 
 import React from 'react';
-import { Home, Search, Library, PlusCircle, Heart, FolderOpen, Share2, Zap, Cloud, Loader2, Settings, X } from 'lucide-react';
+import { AppView, Playlist } from '../types';
+import { Home, Search, Library, PlusCircle, Heart, FolderOpen, Share2, Zap, Cloud, Loader2, Settings, X, ListMusic, FileUp } from 'lucide-react';
 
 interface SidebarProps {
   onConnect: () => void;
   isSyncing: boolean;
   isConnected: boolean;
   onOpenSettings: () => void;
+  activeView: AppView;
+  onNavigate: (view: AppView) => void;
+  playlists: Playlist[];
+  activePlaylistId: string | null;
+  onOpenPlaylist: (id: string) => void;
+  onCreatePlaylist: () => void;
+  onImportPlaylist: () => void;
   isOpen: boolean;
   onClose: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ onConnect, isSyncing, isConnected, onOpenSettings, isOpen, onClose }) => {
+const Sidebar: React.FC<SidebarProps> = ({ onConnect, isSyncing, isConnected, onOpenSettings, activeView, onNavigate, playlists, activePlaylistId, onOpenPlaylist, onCreatePlaylist, onImportPlaylist, isOpen, onClose }) => {
+  const navigate = (view: AppView) => {
+    onNavigate(view);
+    onClose();
+  };
+
   return (
     <>
       {/* Mobile Backdrop */}
@@ -43,9 +56,9 @@ const Sidebar: React.FC<SidebarProps> = ({ onConnect, isSyncing, isConnected, on
         <nav className="space-y-6 flex-1 overflow-y-auto no-scrollbar">
           <div className="space-y-3">
             <p className="text-xs font-bold text-slate-500 uppercase tracking-widest px-2">Menu</p>
-            <NavItem icon={<Home size={20} />} label="Home" active />
+            <NavItem icon={<Home size={20} />} label="Home" active={activeView === 'home'} onClick={() => navigate('home')} />
             <NavItem icon={<Search size={20} />} label="Explore" />
-            <NavItem icon={<Library size={20} />} label="My Library" />
+            <NavItem icon={<Library size={20} />} label="My Library" active={activeView === 'library'} onClick={() => navigate('library')} />
           </div>
 
           <div className="space-y-3">
@@ -61,16 +74,40 @@ const Sidebar: React.FC<SidebarProps> = ({ onConnect, isSyncing, isConnected, on
               {isSyncing ? <Loader2 size={20} className="animate-spin" /> : <Cloud size={20} />}
               <span className="font-medium">{isConnected ? 'Library Synced' : 'Connect Drive'}</span>
             </button>
-            <NavItem icon={<FolderOpen size={20} />} label="All Audio" />
-            <NavItem icon={<Heart size={20} />} label="Liked Songs" />
+            <NavItem icon={<FolderOpen size={20} />} label="All Audio" active={activeView === 'folders'} onClick={() => navigate('folders')} />
+            <NavItem icon={<Heart size={20} />} label="Liked Songs" active={activeView === 'liked'} onClick={() => navigate('liked')} />
             <NavItem icon={<Share2 size={20} />} label="Shared" />
           </div>
 
           <div className="pt-6 border-t border-slate-800/50">
-            <button className="flex items-center space-x-3 w-full px-2 py-2 text-slate-400 hover:text-white transition-colors group">
+            <button
+              onClick={() => { onCreatePlaylist(); onClose(); }}
+              className="flex items-center space-x-3 w-full px-2 py-2 text-slate-400 hover:text-white transition-colors group"
+            >
               <PlusCircle size={20} className="group-hover:text-blue-400" />
               <span className="font-medium">Create Playlist</span>
             </button>
+            <button
+              onClick={() => { onImportPlaylist(); onClose(); }}
+              className="flex items-center space-x-3 w-full px-2 py-2 text-slate-400 hover:text-white transition-colors group"
+            >
+              <FileUp size={20} className="group-hover:text-blue-400" />
+              <span className="font-medium">Import Playlist</span>
+            </button>
+
+            {playlists.length > 0 && (
+              <div className="space-y-1 my-2">
+                {playlists.map(playlist => (
+                  <NavItem
+                    key={playlist.id}
+                    icon={<ListMusic size={18} />}
+                    label={playlist.name}
+                    active={activeView === 'playlist' && activePlaylistId === playlist.id}
+                    onClick={() => { onOpenPlaylist(playlist.id); onClose(); }}
+                  />
+                ))}
+              </div>
+            )}
             
             <button 
               onClick={() => { onOpenSettings(); onClose(); }}
@@ -86,9 +123,13 @@ const Sidebar: React.FC<SidebarProps> = ({ onConnect, isSyncing, isConnected, on
   );
 };
 
-const NavItem: React.FC<{ icon: React.ReactNode, label: string, active?: boolean }> = ({ icon, label, active }) => (
+const NavItem: React.FC<{ icon: React.ReactNode, label: string, active?: boolean, onClick?: () => void }> = ({ icon, label, active, onClick }) => (
   <a 
     href="#" 
+    onClick={(e) => {
+      e.preventDefault();
+      onClick?.();
+    }}
     className={`flex items-center space-x-4 px-3 py-2 rounded-lg transition-all duration-200 ${
       active 
         ? 'bg-blue-600/10 text-blue-400 border border-blue-600/20' 
@@ -96,7 +137,7 @@ const NavItem: React.FC<{ icon: React.ReactNode, label: string, active?: boolean
     }`}
   >
     {icon}
-    <span className="font-medium">{label}</span>
+    <span className="font-medium truncate">{label}</span>
   </a>
 );
 
@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { X, Moon, AlarmClock } from 'lucide-react';
+import { sleepTimerService, SLEEP_DURATIONS, ALARM_FADES, LIBRARY_SOURCE, Alarm } from '../services/sleepTimerService';
+import { playlistService } from '../services/playlistService';
+
+interface SleepTimerPanelProps {
+  onClose: () => void;
+}
+
+export const formatCountdown = (seconds: number) => {
+  const total = Math.ceil(seconds);
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(mins)}:${pad(secs)}` : `${mins}:${pad(secs)}`;
+};
+
+const formatFade = (seconds: number) => {
+  if (seconds === 0) return 'No fade';
+  return seconds < 60 ? `Fade in over ${seconds} s` : `Fade in over ${seconds / 60} min`;
+};
+
+const DEFAULT_ALARM: Alarm = { time: '07:00', source: LIBRARY_SOURCE, shuffle: true, fadeSeconds: 60, daily: false };
+
+const SleepTimerPanel: React.FC<SleepTimerPanelProps> = ({ onClose }) => {
+  const [sleep, setSleep] = useState(sleepTimerService.getSleepTimer());
+  const [sleepRemaining, setSleepRemaining] = useState(sleepTimerService.getSleepRemaining());
+  const [alarm, setAlarm] = useState(sleepTimerService.getAlarm());
+  const [alarmAt, setAlarmAt] = useState(sleepTimerService.getAlarmTime());
+  // The alarm being edited; saved with "Set alarm"
+  const [draft, setDraft] = useState<Alarm>(sleepTimerService.getAlarm() ?? DEFAULT_ALARM);
+  const playlists = playlistService.getPlaylists();
+
+  useEffect(() => sleepTimerService.subscribe(() => {
+    setSleep(sleepTimerService.getSleepTimer());
+    setSleepRemaining(sleepTimerService.getSleepRemaining());
+    setAlarm(sleepTimerService.getAlarm());
+    setAlarmAt(sleepTimerService.getAlarmTime());
+  }), []);
+
+  const optionButton = (label: string, active: boolean, onClick: () => void) => (
+    <button
+      key={label}
+      onClick={onClick}
+      className={`px-3 py-2 rounded-lg text-sm border transition-colors ${active ? 'bg-blue-500/20 border-blue-500/40 text-blue-200' : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="glass w-full max-w-lg max-h-[90vh] flex flex-col rounded-3xl overflow-hidden shadow-2xl border border-slate-700 animate-in fade-in zoom-in duration-300"
+      >
+        <div className="p-6 border-b border-slate-800 flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-xl font-bold font-display text-white">
+            <Moon size={22} className="text-blue-400" /> Sleep & Alarm
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-8 overflow-y-auto">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-bold text-slate-500 uppercase tracking-widest">Sleep timer</p>
+              {sleep && (
+                <span className="text-sm text-blue-300 tabular-nums">
+                  {sleepRemaining !== null ? `Pausing in ${formatCountdown(sleepRemaining)}` : 'Pausing after this track'}
+                </span>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {SLEEP_DURATIONS.map(minutes => optionButton(`${minutes} min`, false, () => sleepTimerService.startSleep(minutes)))}
+              {optionButton('End of track', sleep?.mode === 'track', () => sleepTimerService.sleepAtEndOfTrack())}
+            </div>
+            {sleep && (
+              <button onClick={() => sleepTimerService.cancelSleep()} className="text-sm text-rose-400 hover:text-rose-300 transition-colors">
+                Turn off sleep timer
+              </button>
+            )}
+            <p className="text-xs text-slate-500">The last 30 seconds fade out before playback pauses.</p>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-bold text-slate-500 uppercase tracking-widest">Alarm</p>
+              {alarm && alarmAt !== null && (
+                <span className="text-sm text-blue-300 tabular-nums">Starts in {formatCountdown((alarmAt - Date.now()) / 1000)}</span>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="time"
+                value={draft.time}
+                onChange={(e) => setDraft({ ...draft, time: e.target.value })}
+                className="bg-slate-900/60 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              />
+              <select
+                value={draft.source}
+                onChange={(e) => setDraft({ ...draft, source: e.target.value })}
+                className="bg-slate-900/60 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                <option value={LIBRARY_SOURCE}>Whole library</option>
+                {playlists.map(playlist => (
+                  <option key={playlist.id} value={playlist.id}>{playlist.name}</option>
+                ))}
+              </select>
+              <select
+                value={draft.fadeSeconds}
+                onChange={(e) => setDraft({ ...draft, fadeSeconds: Number(e.target.value) })}
+                className="col-span-2 bg-slate-900/60 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {ALARM_FADES.map(seconds => (
+                  <option key={seconds} value={seconds}>{formatFade(seconds)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-slate-300">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={draft.shuffle} onChange={(e) => setDraft({ ...draft, shuffle: e.target.checked })} className="accent-blue-500" />
+                Shuffle
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={draft.daily} onChange={(e) => setDraft({ ...draft, daily: e.target.checked })} className="accent-blue-500" />
+                Every day
+              </label>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => sleepTimerService.setAlarm(draft)}
+                disabled={!draft.time}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-sm font-medium text-white transition-colors"
+              >
+                <AlarmClock size={16} /> {alarm ? 'Update alarm' : 'Set alarm'}
+              </button>
+              {alarm && (
+                <button onClick={() => sleepTimerService.setAlarm(null)} className="text-sm text-rose-400 hover:text-rose-300 transition-colors">
+                  Remove alarm
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-slate-500">
+              The alarm only goes off while NovaDrive is open in a tab, and the computer isn't asleep.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SleepTimerPanel;
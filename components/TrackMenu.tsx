@@ -0,0 +1,104 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MoreVertical, ChevronRight } from 'lucide-react';
+
+export interface TrackMenuItem {
+  label: string;
+  icon?: React.ReactNode;
+  onClick?: () => void;
+  danger?: boolean;
+  // Items with children open a nested list instead of running an action
+  children?: TrackMenuItem[];
+}
+
+interface TrackMenuProps {
+  items: TrackMenuItem[];
+  className?: string;
+  // The trigger defaults to the ⋮ "More" button used on track rows
+  icon?: React.ReactNode;
+  title?: string;
+  buttonClassName?: string;
+  // Opens above the trigger, for menus near the bottom of the screen
+  openUp?: boolean;
+}
+
+const TrackMenu: React.FC<TrackMenuProps> = ({ items, className = '', icon, title = 'More', openUp = false, buttonClassName = 'p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-slate-800/80 transition-colors' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [openSubmenu, setOpenSubmenu] = useState<number | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setOpenSubmenu(null);
+      return;
+    }
+    const handleOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleOutside);
+    return () => document.removeEventListener('mousedown', handleOutside);
+  }, [isOpen]);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={buttonClassName}
+        title={title}
+      >
+        {icon || <MoreVertical size={16} />}
+      </button>
+      {isOpen && (
+        <div className={`absolute right-0 ${openUp ? 'bottom-full mb-1' : 'top-full mt-1'} z-30 min-w-[12rem] max-h-[60vh] overflow-y-auto glass bg-slate-900/95 rounded-xl border border-slate-700 shadow-2xl py-1 animate-in fade-in zoom-in duration-100`}>
+          {items.map((item, idx) => (
+            <React.Fragment key={idx}>
+              <MenuButton
+                item={item}
+                expanded={openSubmenu === idx}
+                onClick={() => {
+                  if (item.children) {
+                    setOpenSubmenu(openSubmenu === idx ? null : idx);
+                    return;
+                  }
+                  setIsOpen(false);
+                  item.onClick?.();
+                }}
+              />
+              {item.children && openSubmenu === idx && (
+                <div className="max-h-48 overflow-y-auto border-y border-slate-800/80 bg-slate-950/40">
+                  {item.children.map((child, childIdx) => (
+                    <MenuButton
+                      key={childIdx}
+                      item={child}
+                      nested
+                      onClick={() => {
+                        setIsOpen(false);
+                        child.onClick?.();
+                      }}
+                    />
+                  ))}
+                </div>
+              )}
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const MenuButton: React.FC<{ item: TrackMenuItem; onClick: () => void; expanded?: boolean; nested?: boolean }> = ({ item, onClick, expanded, nested }) => (
+  <button
+    onClick={onClick}
+    className={`w-full flex items-center space-x-3 py-2 text-left text-xs md:text-sm transition-colors hover:bg-slate-800/80 ${nested ? 'pl-6 pr-3' : 'px-3'} ${item.danger ? 'text-rose-400' : 'text-slate-200'}`}
+  >
+    {item.icon}
+    <span className="flex-1 truncate">{item.label}</span>
+    {item.children && <ChevronRight size={14} className={`text-slate-500 transition-transform ${expanded ? 'rotate-90' : ''}`} />}
+  </button>
+);
+
+export default TrackMenu;
@@ -0,0 +1,254 @@
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+import { Play, Clock, ChevronUp, ChevronDown } from 'lucide-react';
+import { Track } from '../types';
+import { SearchResult, TrackSort, TrackSortKey } from '../services/trackSearch';
+import { offlineService } from '../services/offlineService';
+import TrackMenu, { TrackMenuItem } from './TrackMenu';
+import OfflineBadge from './OfflineBadge';
+import LikeButton from './LikeButton';
+import LazyCover from './LazyCover';
+import Highlight from './Highlight';
+
+interface TrackResultsProps {
+  results: SearchResult[];
+  viewMode: 'grid' | 'list';
+  currentTrack: Track | null;
+  sort: TrackSort | null;
+  onSortChange: (sort: TrackSort | null) => void;
+  getTrackMenuItems: (track: Track) => TrackMenuItem[];
+  onPlayTrack: (track: Track) => void;
+  // The element that scrolls; only the rows near its viewport are rendered
+  scrollRef: React.RefObject<HTMLDivElement | null>;
+}
+
+// Rows rendered above and below the viewport, so fast scrolling doesn't show gaps
+const OVERSCAN_ROWS = 4;
+// Guesses until the first row has been measured
+const ESTIMATED_GRID_ROW = 280;
+const ESTIMATED_LIST_ROW = 65;
+
+// Mirrors the grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 breakpoints
+const gridColumns = () => {
+  if (typeof window === 'undefined') return 2;
+  const width = window.innerWidth;
+  return width >= 1280 ? 5 : width >= 1024 ? 4 : width >= 768 ? 3 : 2;
+};
+
+const formatDuration = (duration: number) =>
+  duration > 0 ? `${Math.floor(duration / 60)}:${(duration % 60).toString().padStart(2, '0')}` : '--:--';
+
+/** The height of a rendered row, kept up to date as the layout changes. */
+const useRowHeight = (estimate: number) => {
+  const [height, setHeight] = useState(estimate);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const measureRef = useCallback((element: HTMLElement | null) => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+    if (!element) return;
+    const measure = () => {
+      const measured = element.getBoundingClientRect().height;
+      if (measured > 0) setHeight(measured);
+    };
+    measure();
+    if (typeof ResizeObserver !== 'undefined') {
+      observerRef.current = new ResizeObserver(measure);
+      observerRef.current.observe(element);
+    }
+  }, []);
+  return [height, measureRef] as const;
+};
+
+/**
+ * The library's tracks as a grid of covers or a table. Both only render the rows in and near
+ * the viewport, and keep the first visible track in place when the results change.
+ */
+const TrackResults: React.FC<TrackResultsProps> = ({ results, viewMode, currentTrack, sort, onSortChange, getTrackMenuItems, onPlayTrack, scrollRef }) => {
+  const [columns, setColumns] = useState(() => viewMode === 'grid' ? gridColumns() : 1);
+  const [rowHeight, measureRef] = useRowHeight(viewMode === 'grid' ? ESTIMATED_GRID_ROW : ESTIMATED_LIST_ROW);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const bodyRef = useRef<HTMLElement | null>(null);
+  const resultsRef = useRef(results);
+  // The first visible track and where its row sat in the viewport, to restore after a change
+  const anchorRef = useRef<{ id: string; top: number } | null>(null);
+  const rowCount = Math.ceil(results.length / columns);
+
+  useEffect(() => {
+    if (viewMode !== 'grid') {
+      setColumns(1);
+      return;
+    }
+    const update = () => setColumns(gridColumns());
+    update();
+    window.addEventListener('resize', update);
+    return () => window.removeEventListener('resize', update);
+  }, [viewMode]);
+
+  // Keep the track that was at the top of the viewport there, or the nearest one that's left
+  useLayoutEffect(() => {
+    const previous = resultsRef.current;
+    resultsRef.current = results;
+    const anchor = anchorRef.current;
+    const scroll = scrollRef.current;
+    const body = bodyRef.current;
+    if (previous === results || !anchor || !scroll || !body) return;
+
+    const positions = new Map<string, number>(results.map((result, index) => [result.track.id, index]));
+    const from = previous.findIndex(result => result.track.id === anchor.id);
+    let index = positions.get(anchor.id);
+    for (let i = from + 1; index === undefined && from !== -1 && i < previous.length; i++) {
+      index = positions.get(previous[i].track.id);
+    }
+    if (index === undefined) return;
+
+    const bodyTop = body.getBoundingClientRect().top - scroll.getBoundingClientRect().top + scroll.scrollTop;
+    scroll.scrollTop = bodyTop + Math.floor(index / columns) * rowHeight - anchor.top;
+  }, [results]);
+
+  useLayoutEffect(() => {
+    const scroll = scrollRef.current;
+    if (!scroll) return;
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const body = bodyRef.current;
+      if (!body) return;
+      // Where the first row starts, relative to the top of the viewport
+      const offset = body.getBoundingClientRect().top - scroll.getBoundingClientRect().top;
+      const firstVisible = Math.min(rowCount - 1, Math.max(0, Math.floor(-offset / rowHeight)));
+      anchorRef.current = offset < 0 && rowCount > 0
+        ? { id: resultsRef.current[firstVisible * columns].track.id, top: offset + firstVisible * rowHeight }
+        : null;
+      const start = Math.max(0, firstVisible - OVERSCAN_ROWS);
+      const end = Math.min(rowCount, Math.ceil((scroll.clientHeight - offset) / rowHeight) + OVERSCAN_ROWS);
+      setRange(prev => prev.start === start && prev.end === end ? prev : { start, end: Math.max(start, end) });
+    };
+    const schedule = () => { if (!frame) frame = requestAnimationFrame(update); };
+    update();
+    scroll.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      scroll.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [scrollRef, rowCount, rowHeight, columns]);
+
+  const start = Math.min(range.start, rowCount);
+  const end = Math.min(range.end, rowCount);
+  const spaceAbove = start * rowHeight;
+  const spaceBelow = (rowCount - end) * rowHeight;
+
+  const toggleSort = (key: TrackSortKey) => {
+    // Clicking a column sorts by it, again reverses, and a third time goes back to relevance
+    if (sort?.key !== key) onSortChange({ key, direction: 'asc' });
+    else onSortChange(sort.direction === 'asc' ? { key, direction: 'desc' } : null);
+  };
+
+  const sortHeader = (key: TrackSortKey, label: React.ReactNode, className = '') => (
+    <th className={`px-4 py-3 md:px-6 md:py-4 font-semibold ${className}`}>
+      <button
+        onClick={() => toggleSort(key)}
+        className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-white transition-colors ${sort?.key === key ? 'text-blue-400' : ''}`}
+      >
+        {label}
+        {sort?.key === key && (sort.direction === 'asc' ? <ChevronUp size={12} /> : <ChevronDown size={12} />)}
+      </button>
+    </th>
+  );
+
+  if (viewMode === 'grid') {
+    const rows: SearchResult[][] = [];
+    for (let row = start; row < end; row++) rows.push(results.slice(row * columns, (row + 1) * columns));
+    return (
+      <div ref={el => { bodyRef.current = el; }} style={{ paddingTop: spaceAbove, paddingBottom: spaceBelow }}>
+        {rows.map((row, i) => (
+          <div
+            key={start + i}
+            ref={i === 0 ? measureRef : undefined}
+            className="grid gap-3 md:gap-6 pb-3 md:pb-6"
+            style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+          >
+            {row.map(({ track, highlights }) => (
+              <div
+                key={track.id}
+                onClick={() => onPlayTrack(track)}
+                className={`group cursor-pointer glass rounded-xl md:rounded-2xl p-3 md:p-4 transition-all duration-300 border-transparent hover:border-blue-500/40 hover:-translate-y-1 ${currentTrack?.id === track.id ? 'bg-blue-600/10 border-blue-500/30 ring-1 ring-blue-500/20' : ''}`}
+              >
+                <div className="relative aspect-square mb-3 md:mb-4 rounded-lg md:rounded-xl overflow-hidden shadow-lg shadow-black/40">
+                  <LazyCover track={track} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110" alt={track.name} />
+                  <OfflineBadge status={offlineService.getStatus(track.id)} className="absolute top-2 left-2 z-10" />
+                  <div className={`absolute inset-0 bg-slate-950/40 flex items-center justify-center transition-opacity duration-300 ${currentTrack?.id === track.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                    <div className="w-10 h-10 md:w-12 md:h-12 bg-blue-500 rounded-full flex items-center justify-center shadow-xl transform scale-90 group-hover:scale-100 transition-transform">
+                      <Play size={20} fill="white" className="ml-1" />
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-start justify-between gap-1">
+                  <div className="min-w-0">
+                    <h4 className="font-semibold text-white truncate mb-1 text-xs md:text-sm"><Highlight text={track.name} indices={highlights.name} /></h4>
+                    <p className="text-slate-500 text-[10px] md:text-xs truncate"><Highlight text={track.artist} indices={highlights.artist} /></p>
+                  </div>
+                  <TrackMenu items={getTrackMenuItems(track)} className="-mr-1 md:opacity-0 md:group-hover:opacity-100 transition-opacity" />
+                </div>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass rounded-xl md:rounded-2xl border border-slate-800/50">
+      <table className="w-full text-left">
+        <thead>
+          <tr className="text-slate-500 text-[10px] md:text-xs uppercase tracking-wider border-b border-slate-800/50">
+            <th className="px-4 py-3 md:px-6 md:py-4 font-semibold w-8">#</th>
+            {sortHeader('title', 'Title')}
+            {sortHeader('artist', 'Artist', 'hidden sm:table-cell')}
+            {sortHeader('album', 'Album', 'hidden md:table-cell')}
+            {sortHeader('duration', <Clock size={14} />, 'text-right')}
+            <th className="py-3 pr-2 md:py-4 w-16"></th>
+          </tr>
+        </thead>
+        <tbody ref={el => { bodyRef.current = el; }} className="divide-y divide-slate-800/30">
+          {spaceAbove > 0 && <tr style={{ height: spaceAbove }}><td colSpan={6} /></tr>}
+          {results.slice(start, end).map(({ track, highlights }, i) => (
+            <tr
+              key={track.id}
+              ref={i === 0 ? measureRef : undefined}
+              onClick={() => onPlayTrack(track)}
+              className={`hover:bg-blue-600/5 transition-colors cursor-pointer group ${currentTrack?.id === track.id ? 'bg-blue-600/10' : ''}`}
+            >
+              <td className="px-4 py-3 md:px-6 md:py-4 text-xs text-slate-500">{start + i + 1}</td>
+              <td className="px-4 py-3 md:px-6 md:py-4">
+                <div className="flex items-center space-x-3">
+                  <LazyCover track={track} className="w-8 h-8 md:w-10 md:h-10 rounded-md object-cover shrink-0" />
+                  <div className="min-w-0">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <span className={`block font-medium text-xs md:text-sm truncate ${currentTrack?.id === track.id ? 'text-blue-400' : 'text-slate-200'}`}><Highlight text={track.name} indices={highlights.name} /></span>
+                      <OfflineBadge status={offlineService.getStatus(track.id)} />
+                    </span>
+                    <span className="block text-[10px] text-slate-500 sm:hidden"><Highlight text={track.artist} indices={highlights.artist} /></span>
+                  </div>
+                </div>
+              </td>
+              <td className="px-4 py-3 md:px-6 md:py-4 text-xs text-slate-400 hidden sm:table-cell"><Highlight text={track.artist} indices={highlights.artist} /></td>
+              <td className="px-4 py-3 md:px-6 md:py-4 text-xs text-slate-400 hidden md:table-cell">{track.album ? <Highlight text={track.album} indices={highlights.album} /> : 'Unknown'}</td>
+              <td className="px-4 py-3 md:px-6 md:py-4 text-xs text-slate-500 text-right">{formatDuration(track.duration)}</td>
+              <td className="py-3 pr-2 md:py-4">
+                <div className="flex items-center justify-end">
+                  <LikeButton track={track} hideUntilHover />
+                  <TrackMenu items={getTrackMenuItems(track)} className="md:opacity-0 md:group-hover:opacity-100 transition-opacity" />
+                </div>
+              </td>
+            </tr>
+          ))}
+          {spaceBelow > 0 && <tr style={{ height: spaceBelow }}><td colSpan={6} /></tr>}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default TrackResults;
@@ -1,83 +1,221 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
+import { visualizerService, VisualizerMode, VISUALIZER_MODES } from '../services/visualizerService';
+import { DEFAULT_PALETTE, extractPalette } from '../services/coverPalette';
 
 interface VisualizerProps {
   analyser: AnalyserNode | null;
   isPlaying: boolean;
+  // Colors are taken from this cover
+  coverUrl?: string | null;
+  // Clicking switches to the next mode
+  interactive?: boolean;
 }
 
-const Visualizer: React.FC<VisualizerProps> = ({ analyser, isPlaying }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
-  const animationRef = useRef<number>(0);
+// Frequency range shown by the spectrum modes, spread logarithmically like pitch
+const MIN_FREQUENCY = 30;
+const MAX_FREQUENCY = 16000;
+const MIN_FFT_SIZE = 256;
+const MAX_FFT_SIZE = 8192;
+// Canvas pixels per CSS pixel stop at 2; more costs fill rate without looking sharper
+const MAX_PIXEL_RATIO = 2;
+const BAR_STEP = 6;
+const BAR_GAP = 2;
+const RADIAL_BARS = 96;
+const SPECTROGRAM_ROW = 2;
+
+// Enough bins that the bass end of the log scale isn't a few coarse blocks;
+// an oscilloscope wants about a sample per pixel
+const fftSizeFor = (mode: VisualizerMode, width: number) => {
+  const wanted = mode === 'oscilloscope' ? width : width * 4;
+  return Math.min(MAX_FFT_SIZE, Math.max(MIN_FFT_SIZE, 2 ** Math.ceil(Math.log2(Math.max(1, wanted)))));
+};
 
-  useEffect(() => {
-    if (!svgRef.current || !analyser) return;
-
-    const svg = d3.select(svgRef.current);
-    const width = svgRef.current.clientWidth;
-    const height = svgRef.current.clientHeight;
-    const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-
-    const barWidth = (width / bufferLength) * 2.5;
-    
-    // Clear previous
-    svg.selectAll("*").remove();
-
-    const bars = svg.selectAll("rect")
-      .data(Array.from(dataArray))
-      .enter()
-      .append("rect")
-      .attr("x", (d, i) => i * barWidth)
-      .attr("width", barWidth - 1)
-      .attr("fill", "url(#barGradient)");
-
-    // Gradient
-    const defs = svg.append("defs");
-    const gradient = defs.append("linearGradient")
-      .attr("id", "barGradient")
-      .attr("x1", "0%")
-      .attr("y1", "0%")
-      .attr("x2", "0%")
-      .attr("y2", "100%");
-
-    gradient.append("stop")
-      .attr("offset", "0%")
-      .attr("stop-color", "#60a5fa");
-
-    gradient.append("stop")
-      .attr("offset", "100%")
-      .attr("stop-color", "#3b82f6");
+// The FFT bins behind each of `count` log-spaced bands
+const logBands = (count: number, binCount: number, sampleRate: number): [number, number][] => {
+  const nyquist = sampleRate / 2;
+  const top = Math.min(MAX_FREQUENCY, nyquist);
+  const binAt = (i: number) => ((MIN_FREQUENCY * (top / MIN_FREQUENCY) ** (i / count)) / nyquist) * binCount;
+  return Array.from({ length: count }, (_, i) => {
+    const start = Math.min(binCount - 1, Math.floor(binAt(i)));
+    return [start, Math.min(binCount, Math.max(start + 1, Math.ceil(binAt(i + 1))))];
+  });
+};
 
-    const renderFrame = () => {
-      if (!isPlaying) {
-        return;
-      }
+// Level of each band from 0 to 1, the loudest bin in it scaled by the sensitivity
+const bandLevels = (data: Uint8Array, bands: [number, number][], sensitivity: number, out: Float32Array) => {
+  bands.forEach(([start, end], i) => {
+    let peak = 0;
+    for (let bin = start; bin < end; bin++) if (data[bin] > peak) peak = data[bin];
+    out[i] = Math.min(1, (peak / 255) * sensitivity);
+  });
+  return out;
+};
 
-      analyser.getByteFrequencyData(dataArray);
+/**
+ * Draws the analyser's output on a canvas in one of several modes, in the cover's colors.
+ * The canvas and the FFT size follow the size of the container.
+ */
+const Visualizer: React.FC<VisualizerProps> = ({ analyser, isPlaying, coverUrl, interactive = false }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const animationRef = useRef<number>(0);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [settings, setSettings] = useState(visualizerService.getSettings());
+  const [palette, setPalette] = useState(DEFAULT_PALETTE);
 
-      svg.selectAll("rect")
-        .data(Array.from(dataArray))
-        .attr("height", (d) => (d / 255) * height)
-        .attr("y", (d) => height - (d / 255) * height)
-        .attr("opacity", (d) => 0.4 + (d / 255) * 0.6);
+  useEffect(() => visualizerService.subscribe(() => setSettings(visualizerService.getSettings())), []);
 
-      animationRef.current = requestAnimationFrame(renderFrame);
-    };
+  useEffect(() => {
+    let cancelled = false;
+    extractPalette(coverUrl).then(colors => { if (!cancelled) setPalette(colors); });
+    return () => { cancelled = true; };
+  }, [coverUrl]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measure = () => setSize({ width: container.clientWidth, height: container.clientHeight });
+    measure();
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
 
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    // Hidden (e.g. the mini bar's visualizer on small screens) means nothing to draw
+    if (!canvas || !ctx || !analyser || size.width === 0 || size.height === 0) return;
+
+    const { mode, smoothing, sensitivity } = settings;
+    const ratio = Math.min(MAX_PIXEL_RATIO, window.devicePixelRatio || 1);
+    const width = Math.round(size.width * ratio);
+    const height = Math.round(size.height * ratio);
+    canvas.width = width;
+    canvas.height = height;
+
+    analyser.fftSize = fftSizeFor(mode, size.width);
+    analyser.smoothingTimeConstant = smoothing;
+    const binCount = analyser.frequencyBinCount;
+    const frequencyData = new Uint8Array(binCount);
+    const timeData = new Uint8Array(analyser.fftSize);
+    const [primary, secondary, accent] = palette;
+
+    let drawFrame: () => void;
+    if (mode === 'oscilloscope') {
+      drawFrame = () => {
+        analyser.getByteTimeDomainData(timeData);
+        ctx.clearRect(0, 0, width, height);
+        ctx.lineWidth = 2 * ratio;
+        ctx.strokeStyle = primary;
+        ctx.shadowColor = primary;
+        ctx.shadowBlur = 8 * ratio;
+        ctx.beginPath();
+        for (let i = 0; i < timeData.length; i++) {
+          const x = (i / (timeData.length - 1)) * width;
+          const y = height / 2 + ((timeData[i] - 128) / 128) * (height / 2) * sensitivity;
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      };
+    } else if (mode === 'radial') {
+      const bands = logBands(RADIAL_BARS, binCount, analyser.context.sampleRate);
+      const levels = new Float32Array(RADIAL_BARS);
+      const color = d3.interpolateRgbBasis([primary, secondary, accent, primary]);
+      const colors = d3.range(RADIAL_BARS).map(i => color(i / RADIAL_BARS));
+      drawFrame = () => {
+        analyser.getByteFrequencyData(frequencyData);
+        bandLevels(frequencyData, bands, sensitivity, levels);
+        ctx.clearRect(0, 0, width, height);
+        const radius = Math.min(width, height) * 0.22;
+        const reach = Math.min(width, height) / 2 - radius;
+        ctx.lineWidth = Math.max(1, ((2 * Math.PI * radius) / RADIAL_BARS) * 0.6);
+        ctx.lineCap = 'round';
+        for (let i = 0; i < RADIAL_BARS; i++) {
+          const angle = (i / RADIAL_BARS) * 2 * Math.PI - Math.PI / 2;
+          const length = radius + Math.max(1, levels[i] * reach);
+          ctx.strokeStyle = colors[i];
+          ctx.beginPath();
+          ctx.moveTo(width / 2 + Math.cos(angle) * radius, height / 2 + Math.sin(angle) * radius);
+          ctx.lineTo(width / 2 + Math.cos(angle) * length, height / 2 + Math.sin(angle) * length);
+          ctx.stroke();
+        }
+      };
+    } else if (mode === 'spectrogram') {
+      // Each frame moves the picture left a column and paints the newest spectrum on the right, bass at the bottom
+      const rowHeight = SPECTROGRAM_ROW * ratio;
+      const rows = Math.max(1, Math.floor(height / rowHeight));
+      const bands = logBands(rows, binCount, analyser.context.sampleRate);
+      const levels = new Float32Array(rows);
+      const color = d3.interpolateRgbBasis([secondary, primary, '#ffffff']);
+      const colors = d3.range(256).map(i => color(i / 255));
+      const column = Math.max(1, Math.round(ratio));
+      ctx.clearRect(0, 0, width, height);
+      drawFrame = () => {
+        analyser.getByteFrequencyData(frequencyData);
+        bandLevels(frequencyData, bands, sensitivity, levels);
+        ctx.globalCompositeOperation = 'copy';
+        ctx.drawImage(canvas, -column, 0);
+        ctx.globalCompositeOperation = 'source-over';
+        for (let row = 0; row < rows; row++) {
+          const level = levels[row];
+          if (level === 0) continue;
+          ctx.globalAlpha = Math.min(1, level * 1.5);
+          ctx.fillStyle = colors[Math.round(level * 255)];
+          ctx.fillRect(width - column, height - (row + 1) * rowHeight, column, rowHeight);
+        }
+        ctx.globalAlpha = 1;
+      };
+    } else {
+      const count = Math.max(8, Math.floor(size.width / BAR_STEP));
+      const bands = logBands(count, binCount, analyser.context.sampleRate);
+      const levels = new Float32Array(count);
+      const barWidth = width / count - BAR_GAP * ratio;
+      const gradient = ctx.createLinearGradient(0, height, 0, 0);
+      gradient.addColorStop(0, secondary);
+      gradient.addColorStop(1, primary);
+      drawFrame = () => {
+        analyser.getByteFrequencyData(frequencyData);
+        bandLevels(frequencyData, bands, sensitivity, levels);
+        ctx.clearRect(0, 0, width, height);
+        ctx.fillStyle = gradient;
+        for (let i = 0; i < count; i++) {
+          const barHeight = Math.max(ratio, levels[i] * height);
+          ctx.globalAlpha = 0.4 + levels[i] * 0.6;
+          ctx.fillRect(i * (width / count), height - barHeight, Math.max(1, barWidth), barHeight);
+        }
+        ctx.globalAlpha = 1;
+      };
+    }
+
+    // While paused, one frame shows where the music stopped
+    const renderFrame = () => {
+      drawFrame();
+      if (isPlaying) animationRef.current = requestAnimationFrame(renderFrame);
+    };
     renderFrame();
 
     return () => {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [analyser, isPlaying]);
+  }, [analyser, isPlaying, settings, palette, size]);
+
+  const modeLabel = VISUALIZER_MODES.find(m => m.mode === settings.mode)?.label;
 
   return (
-    <div className="w-full h-24 overflow-hidden rounded-xl bg-slate-900/40 relative">
-      <svg ref={svgRef} className="w-full h-full" />
+    <div
+      ref={containerRef}
+      onClick={interactive ? (e) => { e.stopPropagation(); visualizerService.cycleMode(); } : undefined}
+      title={interactive ? `${modeLabel} · click for the next style` : undefined}
+      className={`w-full h-24 overflow-hidden rounded-xl bg-slate-900/40 relative ${interactive ? 'cursor-pointer' : ''}`}
+    >
+      <canvas ref={canvasRef} className="w-full h-full" />
       <div className="absolute inset-0 pointer-events-none bg-gradient-to-t from-slate-950/20 to-transparent"></div>
     </div>
   );
 };
 
-export default Visualizer;
\ No newline at end of file
+export default Visualizer;
@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { Track } from '../types';
+import { waveformService } from '../services/waveformService';
+
+interface WaveformSeekBarProps {
+  track: Track;
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  formatTime: (time: number) => string;
+  // Sets the height; the bars fill it
+  className?: string;
+  // SVG fill classes for the part already played and the rest
+  playedClassName: string;
+  restClassName: string;
+  // Drawn over the bars, e.g. chapter marks
+  children?: React.ReactNode;
+}
+
+const BAR_WIDTH = 2;
+const BAR_STEP = 3;
+// Shortest bar, so silence still reads as part of the bar
+const MIN_BAR_HEIGHT = 2;
+// Shown while the peaks load, or for tracks without them
+const FLAT_LEVEL = 0.15;
+
+// Loudest peak under each bar
+const resample = (peaks: Float32Array | null, count: number): number[] => {
+  if (!peaks || peaks.length === 0) return new Array(count).fill(FLAT_LEVEL);
+  return Array.from({ length: count }, (_, i) => {
+    const start = Math.floor((i * peaks.length) / count);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * peaks.length) / count));
+    let peak = 0;
+    for (let p = start; p < end; p++) peak = Math.max(peak, peaks[p]);
+    return peak;
+  });
+};
+
+/**
+ * A seek bar drawn as the track's waveform. Hovering previews the time under the pointer;
+ * clicking or dragging seeks, once the pointer is released.
+ */
+const WaveformSeekBar: React.FC<WaveformSeekBarProps> = ({
+  track, currentTime, duration, onSeek, formatTime, className = '', playedClassName, restClassName, children,
+}) => {
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [hoverX, setHoverX] = useState<number | null>(null);
+  const [dragTime, setDragTime] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const restRef = useRef<SVGGElement>(null);
+  const playedRef = useRef<SVGGElement>(null);
+
+  // The length only matters once it's known, so the effect below reads it without re-running on every change
+  const durationRef = useRef(duration);
+  durationRef.current = duration;
+  const hasDuration = duration > 0;
+  useEffect(() => {
+    setPeaks(null);
+    let cancelled = false;
+    waveformService.getPeaks(track, durationRef.current).then(found => { if (!cancelled) setPeaks(found); });
+    return () => { cancelled = true; };
+  // Library enrichment replaces the track object; only another file needs another waveform
+  }, [track.id, track.revision, hasDuration]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measure = () => setSize({ width: container.clientWidth, height: container.clientHeight });
+    measure();
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const { width, height } = size;
+    if (!restRef.current || !playedRef.current || width === 0) return;
+
+    const values = resample(peaks, Math.max(1, Math.floor(width / BAR_STEP)));
+    const x = d3.scaleLinear().domain([0, values.length]).range([0, width]);
+    const barHeight = d3.scaleLinear().domain([0, 1]).range([MIN_BAR_HEIGHT, height]).clamp(true);
+
+    [restRef.current, playedRef.current].forEach(group => {
+      d3.select(group)
+        .selectAll<SVGRectElement, number>('rect')
+        .data(values)
+        .join('rect')
+        .attr('x', (_, i) => x(i))
+        .attr('width', BAR_WIDTH)
+        .attr('rx', BAR_WIDTH / 2)
+        .attr('y', d => (height - barHeight(d)) / 2)
+        .attr('height', d => barHeight(d));
+    });
+  }, [peaks, size]);
+
+  const timeAt = (clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const fraction = rect.width > 0 ? (clientX - rect.left) / rect.width : 0;
+    return Math.min(1, Math.max(0, fraction)) * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!hasDuration || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragTime(timeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    setHoverX(Math.min(rect.width, Math.max(0, e.clientX - rect.left)));
+    if (dragTime !== null) setDragTime(timeAt(e.clientX));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (dragTime === null) return;
+    onSeek(timeAt(e.clientX));
+    setDragTime(null);
+    // Touch has no hover to go back to
+    if (e.pointerType !== 'mouse') setHoverX(null);
+  };
+
+  const shownTime = dragTime ?? currentTime;
+  const playedWidth = hasDuration ? Math.min(1, shownTime / duration) * size.width : 0;
+  const hoverTime = hoverX !== null && size.width > 0 ? (hoverX / size.width) * duration : null;
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { setDragTime(null); setHoverX(null); }}
+      onPointerLeave={() => { if (dragTime === null) setHoverX(null); }}
+      onClick={(e) => e.stopPropagation()}
+      className={`relative w-full touch-none select-none ${hasDuration ? 'cursor-pointer' : ''} ${className}`}
+    >
+      <svg className="absolute inset-0 w-full h-full overflow-visible">
+        <g ref={restRef} className={`${restClassName} transition-opacity ${peaks ? 'opacity-100' : 'opacity-60'}`} />
+        {/* A nested svg clips the played copy of the bars at the playhead */}
+        <svg width={playedWidth} height={size.height} className="overflow-hidden">
+          <g ref={playedRef} className={playedClassName} />
+        </svg>
+      </svg>
+      {children}
+      {hoverTime !== null && hasDuration && (
+        <>
+          <span className="pointer-events-none absolute inset-y-0 w-px bg-white/70" style={{ left: hoverX! }} />
+          <span
+            className="pointer-events-none absolute bottom-full mb-1.5 -translate-x-1/2 px-1.5 py-0.5 rounded bg-slate-900/90 border border-slate-700 text-[10px] font-mono text-white whitespace-nowrap"
+            style={{ left: hoverX! }}
+          >
+            {formatTime(hoverTime)}
+          </span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WaveformSeekBar;
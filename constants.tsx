@@ -18,6 +18,10 @@ export const ALLOWED_USER_EMAIL = '';
 
 // ==========================================
 
+// Placeholders for Drive files until (or unless) their tags say otherwise
+export const UNKNOWN_ARTIST = "Google Drive";
+export const UNKNOWN_ALBUM = "Cloud Library";
+
 export const MOCK_TRACKS: Track[] = [
   {
     id: '1',
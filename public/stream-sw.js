@@ -0,0 +1,128 @@
+// Streams Google Drive media to the <audio> element.
+// Requests to /drive-stream/<fileId> are proxied to the Drive `alt=media` endpoint with the
+// page's access token, passing the Range header through so playback and seeking never need
+// the whole file. Serving them from our own origin also keeps the Web Audio graph untainted.
+// Requests to /offline-audio/<fileId> are answered from the copies pinned for offline playback.
+
+const STREAM_PREFIX = '/drive-stream/';
+// Must match services/offlineService.ts
+const OFFLINE_CACHE = 'nova-offline-audio-v1';
+const OFFLINE_PREFIX = '/offline-audio/';
+const DRIVE_FILES_URL = 'https://www.googleapis.com/drive/v3/files/';
+const PASSTHROUGH_HEADERS = ['Content-Type', 'Content-Length', 'Content-Range', 'Last-Modified', 'ETag'];
+
+let accessToken = null;
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SET_TOKEN') {
+    accessToken = event.data.token || null;
+  }
+});
+
+// The worker can be stopped at any time and loses its memory, so ask a page for the token again.
+// After a 401 the page is asked to refresh it instead; that can take a while if GIS shows a prompt.
+const askClientForToken = (client, staleToken) => new Promise((resolve) => {
+  const channel = new MessageChannel();
+  const timer = setTimeout(() => resolve(null), staleToken ? 35000 : 5000);
+  channel.port1.onmessage = (event) => {
+    clearTimeout(timer);
+    resolve((event.data && event.data.token) || null);
+  };
+  client.postMessage(staleToken ? { type: 'REFRESH_TOKEN', staleToken } : { type: 'GET_TOKEN' }, [channel.port2]);
+});
+
+const requestToken = async (clientId, staleToken) => {
+  const client = clientId ? await self.clients.get(clientId) : null;
+  const candidates = client ? [client] : await self.clients.matchAll({ type: 'window' });
+  for (const candidate of candidates) {
+    const token = await askClientForToken(candidate, staleToken);
+    if (token) return token;
+  }
+  return null;
+};
+
+const fetchFromDrive = (request, fileId, token) => {
+  const headers = new Headers({ Authorization: `Bearer ${token}` });
+  const range = request.headers.get('Range');
+  if (range) headers.set('Range', range);
+
+  return fetch(`${DRIVE_FILES_URL}${encodeURIComponent(fileId)}?alt=media&supportsAllDrives=true`, {
+    method: request.method === 'HEAD' ? 'HEAD' : 'GET',
+    headers,
+    signal: request.signal,
+  });
+};
+
+const streamFile = async (request, clientId, fileId) => {
+  if (!accessToken) {
+    accessToken = await requestToken(clientId);
+  }
+  if (!accessToken) {
+    return new Response('Not authenticated', { status: 401 });
+  }
+
+  let upstream = await fetchFromDrive(request, fileId, accessToken);
+
+  // Token expired mid-session: get a fresh one from the page and retry once
+  if (upstream.status === 401) {
+    const refreshed = await requestToken(clientId, accessToken);
+    if (refreshed) {
+      accessToken = refreshed;
+      upstream = await fetchFromDrive(request, fileId, accessToken);
+    }
+  }
+
+  const responseHeaders = new Headers({ 'Accept-Ranges': 'bytes' });
+  PASSTHROUGH_HEADERS.forEach((name) => {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  });
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: responseHeaders,
+  });
+};
+
+// Cached bodies are blobs on disk, so slicing one reads only the requested bytes
+const serveOffline = async (request, path) => {
+  const cache = await caches.open(OFFLINE_CACHE);
+  const cached = await cache.match(path);
+  if (!cached) return new Response('Not available offline', { status: 404 });
+
+  const blob = await cached.blob();
+  const size = blob.size;
+  const headers = new Headers({ 'Accept-Ranges': 'bytes', 'Content-Type': cached.headers.get('Content-Type') || blob.type });
+  const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('Range') || '');
+  if (!range || (!range[1] && !range[2])) {
+    headers.set('Content-Length', String(size));
+    return new Response(request.method === 'HEAD' ? null : blob, { status: 200, headers });
+  }
+
+  // "bytes=-500" asks for the last 500 bytes
+  const start = range[1] ? Number(range[1]) : Math.max(0, size - Number(range[2]));
+  const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+  if (start >= size || start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+  headers.set('Content-Length', String(end - start + 1));
+  headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+  return new Response(request.method === 'HEAD' ? null : blob.slice(start, end + 1), { status: 206, headers });
+};
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith(OFFLINE_PREFIX)) {
+    event.respondWith(serveOffline(event.request, url.pathname));
+    return;
+  }
+  if (!url.pathname.startsWith(STREAM_PREFIX)) return;
+
+  const fileId = decodeURIComponent(url.pathname.slice(STREAM_PREFIX.length));
+  event.respondWith(streamFile(event.request, event.clientId, fileId));
+});
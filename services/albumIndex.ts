@@ -0,0 +1,102 @@
+import { Album, Artist, Track } from "../types";
+import { UNKNOWN_ALBUM, UNKNOWN_ARTIST } from "../constants";
+
+const VARIOUS_ARTISTS = 'Various Artists';
+
+const byName = (a: { name: string }, b: { name: string }) =>
+  a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/** Disc first, then track number; tracks without numbers go last in name order. */
+export const byDiscAndTrack = (a: Track, b: Track) =>
+  (a.discNumber ?? 1) - (b.discNumber ?? 1)
+  || (a.trackNumber ?? Number.MAX_SAFE_INTEGER) - (b.trackNumber ?? Number.MAX_SAFE_INTEGER)
+  || byName(a, b);
+
+/**
+ * Albums and artists grouped from track tags. An album is its name plus its album artist or,
+ * for compilations without one, the Drive folder it sits in, so different albums with the
+ * same title stay apart.
+ */
+export class AlbumIndex {
+  private albums = new Map<string, Album>();
+  private artists = new Map<string, Artist>();
+
+  constructor(tracks: Track[]) {
+    const groups = new Map<string, Track[]>();
+    tracks.forEach(track => {
+      if (!track.album || track.album === UNKNOWN_ALBUM) return;
+      const owner = track.albumArtist ? normalize(track.albumArtist) : `folder:${track.parents?.[0] ?? ''}`;
+      const id = `${owner}/${normalize(track.album)}`;
+      const group = groups.get(id);
+      if (group) group.push(track);
+      else groups.set(id, [track]);
+    });
+
+    groups.forEach((albumTracks, id) => {
+      albumTracks.sort(byDiscAndTrack);
+      const album: Album = {
+        id,
+        name: albumTracks[0].album,
+        artist: this.albumArtist(albumTracks),
+        year: albumTracks.reduce<number | undefined>((year, t) => (t.year && (!year || t.year < year) ? t.year : year), undefined),
+        coverArt: albumTracks.find(t => t.coverArt)?.coverArt || null,
+        tracks: albumTracks,
+        duration: albumTracks.reduce((sum, t) => sum + (t.duration || 0), 0),
+      };
+      this.albums.set(id, album);
+      this.addToArtists(album);
+    });
+
+    this.artists.forEach(artist => artist.albums.sort((a, b) => (a.year ?? 0) - (b.year ?? 0) || byName(a, b)));
+  }
+
+  private albumArtist(tracks: Track[]): string {
+    const tagged = tracks.find(t => t.albumArtist)?.albumArtist;
+    if (tagged) return tagged;
+    const artists = new Set(tracks.map(t => t.artist));
+    return artists.size === 1 ? tracks[0].artist : VARIOUS_ARTISTS;
+  }
+
+  // An album shows up under its album artist and under everyone who performs on it
+  private addToArtists(album: Album) {
+    const names = new Map<string, string>();
+    [album.artist, ...album.tracks.map(t => t.artist)].forEach(name => {
+      if (name && name !== UNKNOWN_ARTIST && name !== VARIOUS_ARTISTS) names.set(normalize(name), name);
+    });
+
+    names.forEach((name, id) => {
+      let artist = this.artists.get(id);
+      if (!artist) {
+        artist = { id, name, albums: [], trackCount: 0 };
+        this.artists.set(id, artist);
+      }
+      artist.albums.push(album);
+      artist.trackCount += album.tracks.filter(t =>
+        normalize(t.artist) === id || (t.albumArtist && normalize(t.albumArtist) === id)
+      ).length;
+    });
+  }
+
+  public getAlbums(): Album[] {
+    return Array.from(this.albums.values()).sort(byName);
+  }
+
+  public getAlbum(id: string): Album | undefined {
+    return this.albums.get(id);
+  }
+
+  public getArtists(): Artist[] {
+    return Array.from(this.artists.values()).sort(byName);
+  }
+
+  public getArtist(id: string): Artist | undefined {
+    return this.artists.get(id);
+  }
+
+  /** The artist entry behind a display name, e.g. to link from an album page. */
+  public findArtist(name: string): Artist | undefined {
+    return this.artists.get(normalize(name));
+  }
+}
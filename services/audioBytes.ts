@@ -0,0 +1,37 @@
+import { Track } from "../types";
+
+// The playing track and the prefetched next one
+const MAX_CACHED = 2;
+
+/**
+ * Whole audio files for the analyses that need to decode them (loudness, waveform). A track is
+ * downloaded once per revision however many of them ask, and only the last few are kept.
+ */
+export class AudioBytesCache {
+  private entries = new Map<string, Promise<ArrayBuffer>>();
+
+  /** The file's bytes. Each caller gets its own copy, since decoding detaches the buffer it's given. */
+  public async get(track: Track): Promise<ArrayBuffer> {
+    const key = `${track.id}:${track.revision ?? ''}`;
+    let bytes = this.entries.get(key);
+    if (bytes) {
+      // Most recently used goes last
+      this.entries.delete(key);
+    } else {
+      bytes = fetch(track.url).then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.arrayBuffer();
+      });
+      const pending = bytes;
+      // A failed download is tried again by the next caller
+      pending.catch(() => {
+        if (this.entries.get(key) === pending) this.entries.delete(key);
+      });
+    }
+    this.entries.set(key, bytes);
+    if (this.entries.size > MAX_CACHED) this.entries.delete(this.entries.keys().next().value!);
+    return (await bytes).slice(0);
+  }
+}
+
+export const audioBytes = new AudioBytesCache();
@@ -0,0 +1,85 @@
+import * as d3 from 'd3';
+
+// The app's own blues, for covers that can't be read or have no color to speak of
+export const DEFAULT_PALETTE = ['#3b82f6', '#60a5fa', '#a78bfa'];
+
+// Covers are shrunk to this many pixels a side before counting colors
+const SAMPLE_SIZE = 48;
+const PALETTE_SIZE = 3;
+// Colors closer than this in hue count as the same one
+const MIN_HUE_DISTANCE = 30;
+const MAX_CACHED = 50;
+
+const cache = new Map<string, Promise<string[]>>();
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    // Pixels of cross-origin images can only be read when the server allows it
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load ${url}`));
+    image.src = url;
+  });
+
+const hueDistance = (a: number, b: number) => {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+};
+
+const computePalette = async (url: string): Promise<string[]> => {
+  const image = await loadImage(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return DEFAULT_PALETTE;
+  ctx.drawImage(image, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const pixels = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data;
+
+  // Count colors in 4-bit-per-channel buckets, keeping each bucket's average
+  const buckets = new Map<number, { r: number; g: number; b: number; count: number }>();
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < 128) continue;
+    const key = ((pixels[i] >> 4) << 8) | ((pixels[i + 1] >> 4) << 4) | (pixels[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, count: 0 };
+    bucket.r += pixels[i];
+    bucket.g += pixels[i + 1];
+    bucket.b += pixels[i + 2];
+    bucket.count++;
+    buckets.set(key, bucket);
+  }
+
+  // Common colors win, but a vivid accent beats a large dull background
+  const candidates = [...buckets.values()]
+    .map(({ r, g, b, count }) => ({ color: d3.hsl(d3.rgb(r / count, g / count, b / count)), count }))
+    .filter(({ color }) => color.s > 0.2 && color.l > 0.15 && color.l < 0.9)
+    .sort((a, b) => b.count * (0.3 + b.color.s) - a.count * (0.3 + a.color.s));
+
+  const picked: d3.HSLColor[] = [];
+  for (const { color } of candidates) {
+    if (picked.every(other => hueDistance(other.h, color.h) >= MIN_HUE_DISTANCE)) picked.push(color);
+    if (picked.length === PALETTE_SIZE) break;
+  }
+  if (picked.length === 0) return DEFAULT_PALETTE;
+
+  // Bright enough to stand out on the dark player
+  const colors = picked.map(color => d3.hsl(color.h, Math.max(color.s, 0.5), Math.min(0.75, Math.max(color.l, 0.55))));
+  while (colors.length < PALETTE_SIZE) colors.push(colors[colors.length - 1].brighter(0.6));
+  return colors.map(color => color.formatHex());
+};
+
+/** The dominant colors of a cover, most prominent first; the default palette when it can't be read. */
+export const extractPalette = (url: string | null | undefined): Promise<string[]> => {
+  if (!url || typeof document === 'undefined') return Promise.resolve(DEFAULT_PALETTE);
+  let palette = cache.get(url);
+  if (!palette) {
+    palette = computePalette(url).catch(e => {
+      console.warn("Failed to read cover colors:", e);
+      return DEFAULT_PALETTE;
+    });
+    cache.set(url, palette);
+    if (cache.size > MAX_CACHED) cache.delete(cache.keys().next().value!);
+  }
+  return palette;
+};
@@ -0,0 +1,320 @@
+import { Track } from "../types";
+import { PlaybackEngine, Transition } from "./playbackController";
+
+export interface DeckEvents {
+  // Runs before a deck starts from a user gesture, so the AudioContext can be created or resumed
+  beforePlay(): void;
+  onTimeUpdate(time: number): void;
+  onDurationChange(duration: number): void;
+  onEnded(): void;
+  onError(): void;
+}
+
+const CURVE_POINTS = 64;
+// Level changes (e.g. a loudness measurement finishing mid-track) glide instead of jumping
+const LEVEL_TIME_CONSTANT = 0.3;
+
+// Equal-power curves keep the combined loudness steady while two tracks overlap
+const fadeCurve = (direction: 'in' | 'out') => {
+  const curve = new Float32Array(CURVE_POINTS);
+  for (let i = 0; i < CURVE_POINTS; i++) {
+    const angle = (i / (CURVE_POINTS - 1)) * (Math.PI / 2);
+    curve[i] = direction === 'in' ? Math.sin(angle) : Math.cos(angle);
+  }
+  return curve;
+};
+
+// Interpolating the square root of the gain makes long fades sound even instead of dropping off at the end
+const levelCurve = (from: number, to: number) => {
+  const curve = new Float32Array(CURVE_POINTS);
+  const [start, end] = [Math.sqrt(from), Math.sqrt(to)];
+  for (let i = 0; i < CURVE_POINTS; i++) {
+    curve[i] = (start + (end - start) * (i / (CURVE_POINTS - 1))) ** 2;
+  }
+  return curve;
+};
+
+// Catches peaks that normalization pushed past full scale
+const createLimiter = (ctx: AudioContext) => {
+  const limiter = ctx.createDynamicsCompressor();
+  limiter.threshold.value = -1;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.003;
+  limiter.release.value = 0.1;
+  return limiter;
+};
+
+/**
+ * Plays through two alternating <audio> elements ("decks"). The idle deck buffers the next
+ * track so it can start the moment the current one ends, or fade in over its last seconds.
+ * Only the active deck reports time, duration, end and errors.
+ *
+ * Back to back, the next deck starts from the outgoing deck's `ended` event rather than a timer,
+ * which background tabs throttle. That event follows the audio itself, so the gap is only the
+ * few milliseconds it takes the next deck to start.
+ *
+ * Each deck runs through a level gain (loudness normalization, from `getLevel`) and a fade
+ * gain, then both meet in a bus that feeds any inserted effects (the equalizer), the optional
+ * limiter and the destination. The limiter comes last so it also catches boosts from the
+ * effects. The bus gain is the master fade used by the sleep timer and alarm.
+ */
+export class DeckEngine implements PlaybackEngine {
+  private active = 0;
+  // What each deck has loaded; compared by URL since `src` reads back as an absolute URL
+  private tracks: (Track | null)[] = [null, null];
+  private levelValues = [1, 1];
+  private levels: GainNode[] = [];
+  private gains: GainNode[] = [];
+  private ctx: AudioContext | null = null;
+  private bus: GainNode | null = null;
+  private limiter: DynamicsCompressorNode | null = null;
+  private destination: AudioNode | null = null;
+  // The end of the chain before the limiter: the bus, or the last inserted effect
+  private chainEnd: AudioNode | null = null;
+  private limiterEnabled = false;
+  private masterLevel = 1;
+  // The deck playing out during a handoff
+  private outgoing: number | null = null;
+  // Stops waiting for the outgoing deck to end before starting the incoming one
+  private cancelStart: (() => void) | null = null;
+  private fadeTimer: number | null = null;
+  private pendingPreload: Track | null = null;
+  private removeListeners: () => void;
+
+  constructor(
+    private decks: [HTMLAudioElement, HTMLAudioElement],
+    private events: DeckEvents,
+    private getLevel: (track: Track) => Promise<number> = async () => 1
+  ) {
+    const removers = decks.map((deck, index) => {
+      const isActive = () => index === this.active;
+      const handlers: [string, () => void][] = [
+        ['timeupdate', () => isActive() && events.onTimeUpdate(deck.currentTime)],
+        ['loadedmetadata', () => isActive() && events.onDurationChange(deck.duration)],
+        ['ended', () => isActive() && events.onEnded()],
+        ['error', () => isActive() && events.onError()],
+      ];
+      handlers.forEach(([type, handler]) => deck.addEventListener(type, handler));
+      return () => handlers.forEach(([type, handler]) => deck.removeEventListener(type, handler));
+    });
+    this.removeListeners = () => removers.forEach(remove => remove());
+  }
+
+  /**
+   * Builds the deck graph into `destination`, through `effects` when given. Media elements can
+   * only be connected once.
+   */
+  public connect(ctx: AudioContext, destination: AudioNode, effects?: { input: AudioNode; output: AudioNode }) {
+    if (this.ctx) return;
+    this.ctx = ctx;
+    this.destination = destination;
+    this.bus = ctx.createGain();
+    this.bus.gain.value = this.masterLevel;
+    if (effects) {
+      this.bus.connect(effects.input);
+      this.chainEnd = effects.output;
+    } else {
+      this.chainEnd = this.bus;
+    }
+    this.limiter = createLimiter(ctx);
+    this.limiter.connect(destination);
+    this.routeOutput();
+
+    this.levels = this.decks.map((_, index) => {
+      const level = ctx.createGain();
+      level.gain.value = this.levelValues[index];
+      return level;
+    });
+    this.gains = this.decks.map((deck, index) => {
+      const gain = ctx.createGain();
+      ctx.createMediaElementSource(deck).connect(this.levels[index]).connect(gain);
+      gain.connect(this.bus!);
+      return gain;
+    });
+  }
+
+  public setLimiter(enabled: boolean) {
+    this.limiterEnabled = enabled;
+    this.routeOutput();
+  }
+
+  /** Asks for both decks' levels again, e.g. after the normalization settings changed. */
+  public refreshLevels() {
+    this.decks.forEach((_, index) => this.updateLevel(index));
+  }
+
+  public destroy() {
+    this.finishHandoff();
+    this.removeListeners();
+  }
+
+  public load(track: Track, transition?: Transition) {
+    this.finishHandoff();
+    const idle = 1 - this.active;
+
+    // Switch decks when the idle one already has this track, or when the current one must play out
+    if (this.hasSource(idle, track) || transition) {
+      if (!this.hasSource(idle, track)) this.setSource(idle, track);
+      const previous = this.active;
+      this.active = idle;
+      this.decks[idle].currentTime = 0;
+      if (transition) this.handoff(previous, transition);
+      else this.decks[previous].pause();
+    } else {
+      this.setSource(this.active, track);
+    }
+
+    // A prefetched deck read its metadata while idle, so its event was not passed on
+    const deck = this.decks[this.active];
+    if (deck.readyState >= HTMLMediaElement.HAVE_METADATA) this.events.onDurationChange(deck.duration);
+  }
+
+  public preload(track: Track) {
+    // Mid-handoff the idle deck is still playing out; buffer once it's done
+    if (this.outgoing !== null) {
+      this.pendingPreload = track;
+      return;
+    }
+    const idle = 1 - this.active;
+    if (!this.hasSource(idle, track)) this.setSource(idle, track);
+  }
+
+  public play(): Promise<void> {
+    this.events.beforePlay();
+    // A pending handoff starts the deck on its own
+    if (this.cancelStart !== null) return Promise.resolve();
+    return this.decks[this.active].play();
+  }
+
+  public pause() {
+    this.finishHandoff();
+    this.decks[this.active].pause();
+  }
+
+  public seek(time: number) {
+    this.finishHandoff();
+    this.decks[this.active].currentTime = time;
+  }
+
+  public setVolume(volume: number) {
+    this.decks.forEach(deck => { deck.volume = volume; });
+  }
+
+  public fadeTo(level: number, seconds: number) {
+    this.masterLevel = level;
+    if (!this.ctx || !this.bus) return;
+
+    const gain = this.bus.gain;
+    const now = this.ctx.currentTime;
+    gain.cancelScheduledValues(now);
+    if (seconds <= 0) {
+      gain.setValueAtTime(level, now);
+      return;
+    }
+    // Start from wherever a fade that was cut short had got to
+    gain.setValueCurveAtTime(levelCurve(gain.value, level), now, seconds);
+  }
+
+  // Only the active deck: a track playing out keeps its own speed. The default rate survives load().
+  public setRate(rate: number) {
+    const deck = this.decks[this.active];
+    deck.preservesPitch = true;
+    deck.defaultPlaybackRate = rate;
+    deck.playbackRate = rate;
+  }
+
+  private hasSource(index: number, track: Track) {
+    return this.tracks[index]?.url === track.url;
+  }
+
+  private setSource(index: number, track: Track) {
+    this.tracks[index] = track;
+    this.decks[index].src = track.url;
+    this.decks[index].load();
+    this.updateLevel(index);
+  }
+
+  private updateLevel(index: number) {
+    const track = this.tracks[index];
+    if (!track) return;
+    this.getLevel(track)
+      .then(value => {
+        // The deck moved on to another track meanwhile
+        if (this.tracks[index] !== track) return;
+        this.levelValues[index] = value;
+        if (this.ctx && this.levels[index]) {
+          this.levels[index].gain.setTargetAtTime(value, this.ctx.currentTime, LEVEL_TIME_CONSTANT);
+        }
+      })
+      .catch(e => console.warn("Failed to get track level:", e));
+  }
+
+  private routeOutput() {
+    if (!this.chainEnd || !this.limiter || !this.destination) return;
+    this.chainEnd.disconnect();
+    this.chainEnd.connect(this.limiterEnabled ? this.limiter : this.destination);
+  }
+
+  private handoff(previous: number, { delay, fade }: Transition) {
+    this.outgoing = previous;
+    const incoming = this.active;
+    const tail = this.decks[previous];
+
+    const start = () => {
+      this.cancelStart?.();
+      this.cancelStart = null;
+      this.decks[incoming].play().catch(e => console.log("Playback failed or was prevented:", e));
+
+      if (fade > 0 && this.ctx) {
+        const now = this.ctx.currentTime;
+        [incoming, previous].forEach(index => this.gains[index].gain.cancelScheduledValues(now));
+        this.gains[incoming].gain.setValueCurveAtTime(fadeCurve('in'), now, fade);
+        this.gains[previous].gain.setValueCurveAtTime(fadeCurve('out'), now, fade);
+        this.fadeTimer = window.setTimeout(() => this.finishHandoff(), fade * 1000);
+        return;
+      }
+
+      // Back to back: the outgoing deck has finished
+      this.finishHandoff();
+    };
+
+    if (fade > 0 || delay <= 0 || tail.ended || tail.paused) {
+      start();
+      return;
+    }
+    // A deck that fails part way through would never end
+    tail.addEventListener('ended', start, { once: true });
+    tail.addEventListener('error', start, { once: true });
+    this.cancelStart = () => {
+      tail.removeEventListener('ended', start);
+      tail.removeEventListener('error', start);
+    };
+  }
+
+  // Cuts a handoff short (or tidies up after it): the outgoing deck stops and both decks are at full gain
+  private finishHandoff() {
+    this.cancelStart?.();
+    if (this.fadeTimer !== null) window.clearTimeout(this.fadeTimer);
+    this.cancelStart = null;
+    this.fadeTimer = null;
+    if (this.outgoing === null) return;
+
+    this.decks[this.outgoing].pause();
+    if (this.ctx) {
+      const now = this.ctx.currentTime;
+      this.gains.forEach(node => {
+        node.gain.cancelScheduledValues(now);
+        node.gain.setValueAtTime(1, now);
+      });
+    }
+    this.outgoing = null;
+
+    if (this.pendingPreload) {
+      const track = this.pendingPreload;
+      this.pendingPreload = null;
+      const idle = 1 - this.active;
+      if (!this.hasSource(idle, track)) this.setSource(idle, track);
+    }
+  }
+}
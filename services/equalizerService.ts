@@ -0,0 +1,200 @@
+const STORAGE_KEY_EQUALIZER = 'nova_equalizer';
+
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_MAX_GAIN_DB = 12;
+// Octave-wide peaking bands
+const BAND_Q = 1.41;
+
+export interface EqCurve {
+  preamp: number;
+  gains: number[]; // dB per band in EQ_BANDS order
+}
+
+export interface EqPreset extends EqCurve {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+}
+
+// A listening setup (headphones, speakers, car...) with its own curve
+export interface EqProfile {
+  id: string;
+  name: string;
+  enabled: boolean;
+  curve: EqCurve;
+  presetId: string | null; // null once the curve was edited by hand
+}
+
+interface EqualizerStore {
+  activeProfileId: string;
+  profiles: EqProfile[];
+  userPresets: EqPreset[];
+}
+
+const flat = (): EqCurve => ({ preamp: 0, gains: EQ_BANDS.map(() => 0) });
+
+export const BUILT_IN_PRESETS: EqPreset[] = [
+  { id: 'flat', name: 'Flat', ...flat() },
+  { id: 'bass-boost', name: 'Bass Boost', preamp: -4, gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  { id: 'bass-cut', name: 'Bass Cut', preamp: 0, gains: [-6, -5, -3, -1, 0, 0, 0, 0, 0, 0] },
+  { id: 'treble-boost', name: 'Treble Boost', preamp: -4, gains: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6] },
+  { id: 'vocal', name: 'Vocal', preamp: -3, gains: [-2, -2, -1, 1, 3, 3, 2, 1, 0, -1] },
+  { id: 'rock', name: 'Rock', preamp: -4, gains: [4, 3, 2, 0, -1, -1, 1, 3, 4, 4] },
+  { id: 'electronic', name: 'Electronic', preamp: -4, gains: [5, 4, 1, 0, -2, 1, 0, 1, 4, 5] },
+  { id: 'acoustic', name: 'Acoustic', preamp: -2, gains: [3, 2, 2, 1, 1, 1, 2, 2, 2, 1] },
+  { id: 'loudness', name: 'Loudness', preamp: -5, gains: [6, 4, 0, 0, -1, 0, -1, 0, 4, 5] },
+].map(preset => ({ ...preset, builtIn: true }));
+
+const createProfile = (id: string, name: string): EqProfile => ({ id, name, enabled: false, curve: flat(), presetId: 'flat' });
+
+const DEFAULT_STORE: EqualizerStore = {
+  activeProfileId: 'headphones',
+  profiles: [createProfile('headphones', 'Headphones'), createProfile('speakers', 'Speakers')],
+  userPresets: [],
+};
+
+const clampGain = (db: number) => Math.min(EQ_MAX_GAIN_DB, Math.max(-EQ_MAX_GAIN_DB, db));
+
+/**
+ * The 10-band EQ as audio nodes: a pre-amp gain followed by a low shelf, eight peaking
+ * filters and a high shelf. At 0 dB every filter passes audio through unchanged.
+ */
+export class EqualizerGraph {
+  public readonly input: GainNode;
+  public readonly output: AudioNode;
+  private filters: BiquadFilterNode[];
+
+  constructor(private ctx: AudioContext) {
+    this.input = ctx.createGain();
+    this.filters = EQ_BANDS.map((frequency, index) => {
+      const filter = ctx.createBiquadFilter();
+      filter.type = index === 0 ? 'lowshelf' : index === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking';
+      filter.frequency.value = frequency;
+      filter.Q.value = BAND_Q;
+      return filter;
+    });
+    this.filters.reduce<AudioNode>((previous, filter) => previous.connect(filter), this.input);
+    this.output = this.filters[this.filters.length - 1];
+  }
+
+  public apply(profile: EqProfile) {
+    const curve = profile.enabled ? profile.curve : flat();
+    const now = this.ctx.currentTime;
+    // A short glide avoids clicks while dragging sliders
+    this.input.gain.setTargetAtTime(10 ** (curve.preamp / 20), now, 0.02);
+    this.filters.forEach((filter, index) => filter.gain.setTargetAtTime(curve.gains[index] ?? 0, now, 0.02));
+  }
+}
+
+/** Equalizer settings: one curve per listening profile, built-in presets and the user's own. */
+export class EqualizerService {
+  private store: EqualizerStore = DEFAULT_STORE;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const stored: EqualizerStore | null = JSON.parse(localStorage.getItem(STORAGE_KEY_EQUALIZER) || 'null');
+      if (stored && stored.profiles?.length > 0) this.store = stored;
+    } catch (e) {
+      console.warn("Discarding unreadable equalizer settings:", e);
+    }
+  }
+
+  private save() {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY_EQUALIZER, JSON.stringify(this.store));
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public getProfiles(): EqProfile[] {
+    return this.store.profiles;
+  }
+
+  public getActiveProfile(): EqProfile {
+    return this.store.profiles.find(p => p.id === this.store.activeProfileId) || this.store.profiles[0];
+  }
+
+  public getPresets(): EqPreset[] {
+    return [...BUILT_IN_PRESETS, ...this.store.userPresets];
+  }
+
+  private updateActive(patch: Partial<EqProfile>) {
+    const active = this.getActiveProfile();
+    this.store = {
+      ...this.store,
+      profiles: this.store.profiles.map(p => (p.id === active.id ? { ...p, ...patch } : p)),
+    };
+    this.save();
+  }
+
+  public setEnabled(enabled: boolean) {
+    this.updateActive({ enabled });
+  }
+
+  public setBand(index: number, db: number) {
+    const { curve } = this.getActiveProfile();
+    const gains = curve.gains.map((gain, i) => (i === index ? clampGain(db) : gain));
+    this.updateActive({ curve: { ...curve, gains }, presetId: null, enabled: true });
+  }
+
+  public setPreamp(db: number) {
+    const { curve } = this.getActiveProfile();
+    this.updateActive({ curve: { ...curve, preamp: clampGain(db) }, presetId: null, enabled: true });
+  }
+
+  public applyPreset(presetId: string) {
+    const preset = this.getPresets().find(p => p.id === presetId);
+    if (!preset) return;
+    this.updateActive({ curve: { preamp: preset.preamp, gains: [...preset.gains] }, presetId, enabled: true });
+  }
+
+  /** Saves the active profile's curve as a preset. */
+  public savePreset(name: string): EqPreset {
+    const { curve } = this.getActiveProfile();
+    const preset: EqPreset = { id: `user-${Date.now()}`, name, preamp: curve.preamp, gains: [...curve.gains] };
+    this.store = { ...this.store, userPresets: [...this.store.userPresets, preset] };
+    this.updateActive({ presetId: preset.id });
+    return preset;
+  }
+
+  public deletePreset(presetId: string) {
+    this.store = {
+      ...this.store,
+      userPresets: this.store.userPresets.filter(p => p.id !== presetId),
+      profiles: this.store.profiles.map(p => (p.presetId === presetId ? { ...p, presetId: null } : p)),
+    };
+    this.save();
+  }
+
+  public selectProfile(profileId: string) {
+    if (!this.store.profiles.some(p => p.id === profileId)) return;
+    this.store = { ...this.store, activeProfileId: profileId };
+    this.save();
+  }
+
+  /** Adds a profile starting from the active one's curve and switches to it. */
+  public addProfile(name: string): EqProfile {
+    const active = this.getActiveProfile();
+    const profile: EqProfile = { ...active, id: `profile-${Date.now()}`, name, curve: { ...active.curve, gains: [...active.curve.gains] } };
+    this.store = { ...this.store, profiles: [...this.store.profiles, profile], activeProfileId: profile.id };
+    this.save();
+    return profile;
+  }
+
+  public deleteProfile(profileId: string) {
+    if (this.store.profiles.length <= 1) return;
+    const profiles = this.store.profiles.filter(p => p.id !== profileId);
+    const activeProfileId = this.store.activeProfileId === profileId ? profiles[0].id : this.store.activeProfileId;
+    this.store = { ...this.store, profiles, activeProfileId };
+    this.save();
+  }
+}
+
+export const equalizerService = new EqualizerService();
@@ -0,0 +1,85 @@
+import { DriveFolder, Track } from "../types";
+
+const byName = (a: { name: string }, b: { name: string }) =>
+  a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Navigable view over the flat Drive listing. `null` stands for the virtual top level,
+ * which is either the configured library roots or the top of My Drive plus shared items.
+ */
+export class FolderTree {
+  private folders = new Map<string, DriveFolder>();
+  private childFolders = new Map<string | null, DriveFolder[]>();
+  private childTracks = new Map<string | null, Track[]>();
+  private roots: string[];
+
+  constructor(folders: DriveFolder[], tracks: Track[], private rootFolderId: string | null, roots: string[] = []) {
+    folders.forEach(f => this.folders.set(f.id, f));
+    this.roots = roots.filter(id => this.folders.has(id));
+
+    folders.forEach(f => this.push(this.childFolders, this.parentKey(f.parents), f));
+    tracks.forEach(t => this.push(this.childTracks, this.parentKey(t.parents), t));
+    this.childFolders.forEach(list => list.sort(byName));
+    this.childTracks.forEach(list => list.sort(byName));
+  }
+
+  private push<T>(map: Map<string | null, T[]>, key: string | null, item: T) {
+    const list = map.get(key);
+    if (list) list.push(item);
+    else map.set(key, [item]);
+  }
+
+  // Items at the top of My Drive, or whose parent we can't see (shared with me), live at the top level
+  private parentKey(parents?: string[]): string | null {
+    const parent = parents?.[0];
+    if (!parent || parent === this.rootFolderId || !this.folders.has(parent)) return null;
+    return parent;
+  }
+
+  public getFolder(id: string): DriveFolder | undefined {
+    return this.folders.get(id);
+  }
+
+  public getSubfolders(folderId: string | null): DriveFolder[] {
+    if (folderId === null && this.roots.length > 0) {
+      return this.roots.map(id => this.folders.get(id)!).sort(byName);
+    }
+    return this.childFolders.get(folderId) || [];
+  }
+
+  public getTracks(folderId: string | null): Track[] {
+    if (folderId === null && this.roots.length > 0) return [];
+    return this.childTracks.get(folderId) || [];
+  }
+
+  /** All tracks below a folder, depth-first in name order. */
+  public getDescendantTracks(folderId: string | null): Track[] {
+    const result: Track[] = [];
+    const visit = (id: string | null) => {
+      result.push(...this.getTracks(id));
+      this.getSubfolders(id).forEach(sub => visit(sub.id));
+    };
+    visit(folderId);
+    return result;
+  }
+
+  /** Folders from the top level down to (and including) the given folder. */
+  public getPath(folderId: string | null): DriveFolder[] {
+    const path: DriveFolder[] = [];
+    let current = folderId ? this.folders.get(folderId) : undefined;
+    while (current) {
+      path.unshift(current);
+      if (this.roots.includes(current.id)) break;
+      const parent = this.parentKey(current.parents);
+      current = parent ? this.folders.get(parent) : undefined;
+    }
+    return path;
+  }
+
+  /** Tracks that belong to the music library, i.e. everything when no roots are configured. */
+  public getLibraryTracks(allTracks: Track[]): Track[] {
+    if (this.roots.length === 0) return allTracks;
+    const included = new Set(this.getDescendantTracks(null).map(t => t.id));
+    return allTracks.filter(t => included.has(t.id));
+  }
+}
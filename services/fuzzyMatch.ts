@@ -0,0 +1,125 @@
+export interface FieldMatch {
+  score: number;
+  // Matched character positions in each field, for highlighting
+  indices: number[][];
+}
+
+// Scattered letters only count when they sit this close together, relative to the word's length
+const MAX_SPREAD_FACTOR = 4;
+// Words this long may have one typo, and twice as long two
+const TYPO_MIN_LENGTH = 4;
+// Folded strings remembered between searches; a 20k-track library has about 60k distinct fields
+const FOLD_CACHE_LIMIT = 100000;
+
+const foldCache = new Map<string, string>();
+
+/**
+ * Lowercases and strips diacritics so "Beyoncé" matches "beyonce". Folds one character at a
+ * time, so positions in the result line up with the original string.
+ */
+export const foldText = (value: string): string => {
+  let folded = foldCache.get(value);
+  if (folded === undefined) {
+    folded = value.split('').map(ch => ch.normalize('NFD').charAt(0).toLowerCase().charAt(0)).join('');
+    if (foldCache.size >= FOLD_CACHE_LIMIT) foldCache.clear();
+    foldCache.set(value, folded);
+  }
+  return folded;
+};
+
+const isWordStart = (text: string, index: number) => index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1]);
+
+const range = (start: number, length: number) => Array.from({ length }, (_, i) => start + i);
+
+/** Edits (insert, delete, substitute, swap neighbours) to turn `a` into `b`, giving up past `max`. */
+export const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let beforePrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) value = Math.min(value, beforePrev[j - 2] + 1);
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+/** The closest word in the text within the typos allowed for `word`, e.g. "beatels" for "beatles". */
+const matchTypo = (word: string, text: string): { score: number; indices: number[] } | null => {
+  if (word.length < TYPO_MIN_LENGTH) return null;
+  const max = word.length < TYPO_MIN_LENGTH * 2 ? 1 : 2;
+  let best: { edits: number; indices: number[] } | null = null;
+  for (const token of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const value = token[0];
+    // A longer word may just not be typed out yet
+    const edits = Math.min(editDistance(word, value, max), value.length > word.length ? editDistance(word, value.slice(0, word.length), max) : max + 1);
+    if (edits <= max && (!best || edits < best.edits)) best = { edits, indices: range(token.index!, value.length) };
+  }
+  return best && { score: word.length * 2 - best.edits * 2, indices: best.indices };
+};
+
+/**
+ * Scores one query word against folded text: a substring beats a near miss, which beats letters
+ * in order, and word starts beat the middle of a word.
+ */
+const matchWord = (word: string, text: string): { score: number; indices: number[] } | null => {
+  let best: { score: number; indices: number[] } | null = null;
+  for (let from = text.indexOf(word); from !== -1; from = text.indexOf(word, from + 1)) {
+    const score = word.length * 3 + (isWordStart(text, from) ? 4 : 0) + (from === 0 ? 2 : 0);
+    if (!best || score > best.score) best = { score, indices: range(from, word.length) };
+  }
+  if (best || word.length < 2) return best;
+
+  const typo = matchTypo(word, text);
+  if (typo) return typo;
+
+  // Letters in order ("bttls" for "beatles"), as long as they aren't strewn across the text
+  const indices: number[] = [];
+  let score = 0;
+  let last = -1;
+  for (const ch of word) {
+    const index = text.indexOf(ch, last + 1);
+    if (index === -1) return null;
+    score += index === last + 1 ? 2 : isWordStart(text, index) ? 1.5 : 0.5;
+    indices.push(index);
+    last = index;
+  }
+  if (indices[indices.length - 1] - indices[0] > word.length * MAX_SPREAD_FACTOR) return null;
+  return { score, indices };
+};
+
+/**
+ * Fuzzy-matches a query against several fields (e.g. title, artist, album). Every word of the
+ * query has to match some field; earlier fields weigh more. Returns null when a word doesn't match.
+ */
+export const fuzzyMatchFields = (query: string, fields: string[], weights: number[] = []): FieldMatch | null => {
+  const words = foldText(query).split(/\s+/).filter(Boolean);
+  const folded = fields.map(foldText);
+  const indices: number[][] = fields.map(() => []);
+  let score = 0;
+
+  for (const word of words) {
+    let best: { score: number; field: number; indices: number[] } | null = null;
+    folded.forEach((text, field) => {
+      const match = matchWord(word, text);
+      if (!match) return;
+      const weighted = match.score * (weights[field] ?? 1);
+      if (!best || weighted > best.score) best = { score: weighted, field, indices: match.indices };
+    });
+    if (!best) return null;
+    const { score: wordScore, field, indices: wordIndices } = best;
+    score += wordScore;
+    indices[field].push(...wordIndices);
+  }
+
+  return { score, indices: indices.map(list => Array.from(new Set(list)).sort((a, b) => a - b)) };
+};
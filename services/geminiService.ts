@@ -1,11 +1,15 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import { GeminiAnalysis, Track } from "../types";
+import { libraryDb } from "./libraryDb";
 
 // Fixed: Always use direct process.env.API_KEY for initialization as per guidelines
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
 export const analyzeTrack = async (track: Track): Promise<GeminiAnalysis> => {
+  const cached = await libraryDb.getAnalysis(track).catch(() => undefined);
+  if (cached) return cached;
+
   try {
     const response = await ai.models.generateContent({
       model: "gemini-3-flash-preview",
@@ -35,6 +39,7 @@ export const analyzeTrack = async (track: Track): Promise<GeminiAnalysis> => {
 
     // Fixed: Accessed .text property directly (it's a getter, not a method)
     const result = JSON.parse(response.text || '{}');
+    libraryDb.putAnalysis(track, result).catch(e => console.warn("Failed to cache analysis:", e));
     return result;
   } catch (error) {
     console.error("Gemini Analysis Error:", error);
@@ -1,16 +1,62 @@
 
-import { Track } from "../types";
-import { GOOGLE_CLIENT_ID, ALLOWED_USER_EMAIL } from "../constants";
+import { DriveFolder, Track } from "../types";
+import { GOOGLE_CLIENT_ID, ALLOWED_USER_EMAIL, UNKNOWN_ALBUM, UNKNOWN_ARTIST } from "../constants";
+import { streamService } from "./streamService";
+import { AuthState, ReconnectRequiredError, TokenManager } from "./tokenManager";
+import { libraryDb } from "./libraryDb";
 
+export { ReconnectRequiredError } from "./tokenManager";
+export type { AuthState } from "./tokenManager";
+
+// drive.appdata holds synced playlists; sessions from before it was added don't have it
+const APPDATA_SCOPE = 'https://www.googleapis.com/auth/drive.appdata';
 // Added userinfo.email scope to verify user identity
-const SCOPES = 'https://www.googleapis.com/auth/drive.readonly https://www.googleapis.com/auth/userinfo.email';
-const STORAGE_KEY_TOKEN = 'nova_drive_token';
-const STORAGE_KEY_EXPIRY = 'nova_drive_token_expiry';
+const SCOPES = `https://www.googleapis.com/auth/drive.readonly ${APPDATA_SCOPE} https://www.googleapis.com/auth/userinfo.email`;
+// The library used to be cached in localStorage before it moved to IndexedDB
+const LEGACY_STORAGE_KEYS = ['nova_drive_library', 'nova_drive_changes_token'];
+const STORAGE_KEY_LIBRARY_ROOTS = 'nova_library_roots';
+
+const DRIVE_API = 'https://www.googleapis.com/drive/v3';
+const UPLOAD_API = 'https://www.googleapis.com/upload/drive/v3';
+const FILE_FIELDS = 'id, name, mimeType, size, parents, md5Checksum, modifiedTime, webContentLink, thumbnailLink, iconLink';
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+// The playing track, the prefetched next one, and one prefetch that was superseded
+const MAX_FALLBACK_BLOBS = 3;
+
+export interface SyncProgress {
+  phase: 'listing' | 'changes';
+  loaded: number;
+}
+
+export interface DriveLibrary {
+  tracks: Track[];
+  folders: DriveFolder[];
+  rootFolderId: string | null;
+}
+
+interface LibraryIndex {
+  tracks: Map<string, Track>;
+  folders: Map<string, DriveFolder>;
+  rootFolderId: string | null;
+}
+
+interface CachedLibrary {
+  index: LibraryIndex;
+  changesToken: string | null;
+}
+
+export class DriveApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'DriveApiError';
+  }
+}
 
 export class GoogleDriveService {
-  private accessToken: string | null = null;
-  private tokenClient: any = null;
+  private tokens = new TokenManager(SCOPES, token => streamService.setToken(token));
   private clientId: string;
+  private library: LibraryIndex | null = null;
+  private fallbackBlobUrls: string[] = [];
 
   constructor() {
     // Priority: Hardcoded Config -> LocalStorage -> Empty
@@ -19,8 +65,9 @@ export class GoogleDriveService {
       : '');
     
     if (this.clientId) {
-      this.initTokenClient();
+      this.tokens.init(this.clientId);
     }
+    streamService.setTokenRefresher(staleToken => this.tokens.handleUnauthorized(staleToken));
   }
 
   public setClientId(id: string) {
@@ -28,7 +75,7 @@ export class GoogleDriveService {
     if (typeof localStorage !== 'undefined') {
       localStorage.setItem('nova_drive_client_id', id);
     }
-    this.initTokenClient();
+    this.tokens.init(id);
   }
 
   public getClientId(): string {
@@ -38,64 +85,23 @@ export class GoogleDriveService {
   // --- Persistence Logic ---
 
   public getStoredToken(): string | null {
-    if (typeof localStorage === 'undefined') return null;
-    
-    const token = localStorage.getItem(STORAGE_KEY_TOKEN);
-    const expiryStr = localStorage.getItem(STORAGE_KEY_EXPIRY);
-    
-    if (!token || !expiryStr) return null;
-
-    const expiry = parseInt(expiryStr, 10);
-    // Add a 5 minute buffer to be safe
-    if (Date.now() > expiry - 5 * 60 * 1000) {
-      this.clearStoredToken();
-      return null;
-    }
+    return this.tokens.restore();
+  }
 
-    this.accessToken = token;
-    return token;
+  public clearStoredToken() {
+    this.tokens.clear();
   }
 
-  private saveToken(token: string, expiresInSeconds: number) {
-    if (typeof localStorage === 'undefined') return;
-    const expiryTime = Date.now() + (expiresInSeconds * 1000);
-    localStorage.setItem(STORAGE_KEY_TOKEN, token);
-    localStorage.setItem(STORAGE_KEY_EXPIRY, expiryTime.toString());
+  public getAuthState(): AuthState {
+    return this.tokens.getState();
   }
 
-  public clearStoredToken() {
-    if (typeof localStorage === 'undefined') return;
-    localStorage.removeItem(STORAGE_KEY_TOKEN);
-    localStorage.removeItem(STORAGE_KEY_EXPIRY);
-    this.accessToken = null;
+  public onAuthStateChange(listener: (state: AuthState) => void): () => void {
+    return this.tokens.subscribe(listener);
   }
 
   // -------------------------
 
-  private initTokenClient() {
-    if (!this.clientId) return;
-
-    if (typeof window !== 'undefined' && (window as any).google) {
-      try {
-        this.tokenClient = (window as any).google.accounts.oauth2.initTokenClient({
-          client_id: this.clientId,
-          scope: SCOPES,
-          callback: async (response: any) => {
-            if (response.error !== undefined) {
-              console.error("Token Client Error:", response);
-              return;
-            }
-            this.accessToken = response.access_token;
-            // Implicit flow tokens usually last 3600s (1 hour)
-            this.saveToken(response.access_token, response.expires_in || 3599);
-          },
-        });
-      } catch (e) {
-        console.error("Failed to initialize Google Token Client:", e);
-      }
-    }
-  }
-
   private async verifyUser(token: string): Promise<void> {
     if (!ALLOWED_USER_EMAIL) return; // No restriction set
 
@@ -113,7 +119,7 @@ export class GoogleDriveService {
       }
     } catch (e) {
       // If we can't verify, we must fail secure
-      this.accessToken = null;
+      this.tokens.clear();
       throw e;
     }
   }
@@ -123,90 +129,375 @@ export class GoogleDriveService {
       throw new Error("MISSING_CLIENT_ID");
     }
 
-    return new Promise((resolve, reject) => {
-      // Re-initialize if needed
-      if (!this.tokenClient) {
-        this.initTokenClient();
-      }
-
-      if (!this.tokenClient) {
-        reject(new Error("Google Identity Services not loaded or Client ID invalid"));
-        return;
-      }
-
-      // Override the callback for this specific request to handle the promise
-      this.tokenClient.callback = async (response: any) => {
-        if (response.error !== undefined) {
-          reject(new Error(`Auth Error: ${response.error}`));
-          return;
-        }
+    const response = await this.tokens.requestToken('consent');
+    // Verify user email if configured
+    await this.verifyUser(response.access_token);
 
-        try {
-          // Verify user email if configured
-          await this.verifyUser(response.access_token);
-          
-          this.accessToken = response.access_token;
-          this.saveToken(response.access_token, parseInt(response.expires_in || '3599', 10));
-          resolve(this.accessToken!);
-        } catch (e) {
-          reject(e);
-        }
-      };
+    this.tokens.setToken(response.access_token, parseInt(String(response.expires_in || '3599'), 10), response.scope);
+    return response.access_token;
+  }
 
-      this.tokenClient.requestAccessToken({ prompt: 'consent' });
-    });
+  /**
+   * fetch() with the current access token. Waits for a token refresh that's in flight
+   * and retries once with a fresh token if Drive answers 401.
+   */
+  public async authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const send = (token: string) => {
+      const headers = new Headers(init.headers);
+      headers.set('Authorization', `Bearer ${token}`);
+      return fetch(url, { ...init, headers });
+    };
+
+    const token = await this.tokens.getToken();
+    const response = await send(token);
+    if (response.status !== 401) return response;
+
+    return send(await this.tokens.handleUnauthorized(token));
   }
 
-  public async fetchAudioFiles(): Promise<Track[]> {
-    if (!this.accessToken) throw new Error("Not authenticated");
+  // --- Library Sync ---
 
-    const response = await fetch(
-      'https://www.googleapis.com/drive/v3/files?q=mimeType contains "audio/" and trashed = false&fields=files(id, name, mimeType, size, webContentLink, thumbnailLink, iconLink)',
-      {
-        headers: {
-          Authorization: `Bearer ${this.accessToken}`,
-        },
-      }
-    );
+  private async request(url: string): Promise<any> {
+    const response = await this.authorizedFetch(url);
 
     if (!response.ok) {
-        // If 401, token might have expired despite our checks
+        // Still 401 after a refresh: the session really is gone
         if (response.status === 401) {
-          this.clearStoredToken();
-          throw new Error("Session expired. Please reconnect.");
+          throw new ReconnectRequiredError();
         }
-        throw new Error(`Drive API Error: ${response.statusText}`);
+        throw new DriveApiError(response.status, `Drive API Error: ${response.statusText}`);
     }
 
-    const data = await response.json();
-    if (!data.files) return [];
+    return response.json();
+  }
 
-    return data.files.map((file: any) => ({
+  private mapFileToTrack(file: any): Track {
+    return {
       id: file.id,
       name: file.name.replace(/\.[^/.]+$/, ""), // Remove extension
-      artist: "Google Drive",
-      album: "Cloud Library",
+      artist: UNKNOWN_ARTIST,
+      album: UNKNOWN_ALBUM,
       duration: 0, 
-      url: `https://www.googleapis.com/drive/v3/files/${file.id}?alt=media`,
+      url: `${DRIVE_API}/files/${file.id}?alt=media`,
       coverArt: file.thumbnailLink ? file.thumbnailLink.replace('=s220', '=s400') : null, // Try to get higher res
       mimeType: file.mimeType,
-      isRemote: true
-    }));
+      size: file.size ? Number(file.size) : undefined,
+      isRemote: true,
+      parents: file.parents,
+      fileName: file.name,
+      revision: file.md5Checksum || file.modifiedTime
+    };
   }
 
-  public async getTrackUrl(fileId: string): Promise<string> {
-    if (!this.accessToken) throw new Error("Not authenticated");
+  /**
+   * Sorts a Drive file into the library index, or drops it if it's no longer audio or a folder.
+   * A known record of the same revision keeps what was read from the file; a new revision starts over.
+   */
+  private indexFile(index: LibraryIndex, file: any, known: Map<string, Track> = index.tracks) {
+    if (file.mimeType === FOLDER_MIME_TYPE) {
+      index.folders.set(file.id, { id: file.id, name: file.name, parents: file.parents });
+    } else if (file.mimeType?.startsWith('audio/')) {
+      const track = this.mapFileToTrack(file);
+      const existing = known.get(file.id);
+      index.tracks.set(file.id, existing?.metadataLoaded && existing.revision && existing.revision === track.revision
+        ? { ...existing, url: track.url, coverArt: track.coverArt, size: track.size, parents: track.parents, fileName: track.fileName }
+        : track);
+    } else {
+      this.removeFile(index, file.id);
+    }
+  }
+
+  private removeFile(index: LibraryIndex, fileId: string) {
+    index.tracks.delete(fileId);
+    index.folders.delete(fileId);
+  }
+
+  private toLibrary(index: LibraryIndex): DriveLibrary {
+    return {
+      tracks: Array.from(index.tracks.values()),
+      folders: Array.from(index.folders.values()),
+      rootFolderId: index.rootFolderId,
+    };
+  }
+
+  private async loadLibraryCache(): Promise<CachedLibrary | null> {
+    if (typeof localStorage !== 'undefined') {
+      LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+    }
+    try {
+      const snapshot = await libraryDb.loadLibrary();
+      if (!snapshot) return null;
+      return {
+        index: {
+          tracks: new Map(snapshot.tracks.map(t => [t.id, t])),
+          folders: new Map(snapshot.folders.map(f => [f.id, f])),
+          rootFolderId: snapshot.rootFolderId,
+        },
+        changesToken: snapshot.changesToken,
+      };
+    } catch (e) {
+      console.warn("Library database unavailable:", e);
+      return null;
+    }
+  }
+
+  private async saveLibraryCache(index: LibraryIndex, startPageToken: string) {
+    try {
+      await libraryDb.saveLibrary({ ...this.toLibrary(index), changesToken: startPageToken });
+    } catch (e) {
+      // Without a stored token the next sync simply does a full listing
+      console.warn("Failed to persist library:", e);
+    }
+  }
+
+  /** The library saved by the last sync, so the UI can render before Drive answers. */
+  public async loadCachedLibrary(): Promise<DriveLibrary | null> {
+    const cached = await this.loadLibraryCache();
+    // A sync that finished in the meantime is newer than anything on disk
+    if (!cached || this.library) return null;
+    this.library = cached.index;
+    return this.toLibrary(cached.index);
+  }
+
+  private async listLibrary(known: LibraryIndex | null, onProgress?: (progress: SyncProgress) => void): Promise<LibraryIndex> {
+    const root = await this.request(`${DRIVE_API}/files/root?fields=id`);
+    const index: LibraryIndex = { tracks: new Map(), folders: new Map(), rootFolderId: root.id };
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        q: `(mimeType contains "audio/" or mimeType = "${FOLDER_MIME_TYPE}") and trashed = false`,
+        fields: `nextPageToken, files(${FILE_FIELDS})`,
+        pageSize: '1000',
+        includeItemsFromAllDrives: 'true',
+        supportsAllDrives: 'true',
+      });
+      if (pageToken) params.set('pageToken', pageToken);
+
+      const data = await this.request(`${DRIVE_API}/files?${params}`);
+      for (const file of data.files || []) {
+        this.indexFile(index, file, known?.tracks);
+      }
+      pageToken = data.nextPageToken;
+      onProgress?.({ phase: 'listing', loaded: index.tracks.size });
+    } while (pageToken);
+
+    return index;
+  }
+
+  private async getStartPageToken(): Promise<string> {
+    const data = await this.request(`${DRIVE_API}/changes/startPageToken?supportsAllDrives=true`);
+    return data.startPageToken;
+  }
+
+  // Applies the change feed on top of the cached library and returns the new start page token
+  private async applyChanges(index: LibraryIndex, startPageToken: string, onProgress?: (progress: SyncProgress) => void): Promise<string> {
+    let pageToken: string | undefined = startPageToken;
+    let processed = 0;
+
+    while (pageToken) {
+      const params = new URLSearchParams({
+        pageToken,
+        fields: `nextPageToken, newStartPageToken, changes(removed, fileId, file(${FILE_FIELDS}, trashed))`,
+        pageSize: '1000',
+        includeRemoved: 'true',
+        includeItemsFromAllDrives: 'true',
+        supportsAllDrives: 'true',
+        spaces: 'drive',
+      });
+
+      const data = await this.request(`${DRIVE_API}/changes?${params}`);
+      for (const change of data.changes || []) {
+        if (change.removed || !change.file || change.file.trashed) {
+          this.removeFile(index, change.fileId);
+        } else {
+          this.indexFile(index, change.file);
+        }
+      }
+      processed += (data.changes || []).length;
+      onProgress?.({ phase: 'changes', loaded: processed });
+
+      if (data.newStartPageToken) return data.newStartPageToken;
+      pageToken = data.nextPageToken;
+    }
+
+    return startPageToken;
+  }
+
+  /**
+   * Brings the library up to date. The first sync lists every page of the drive,
+   * later syncs only replay the Drive change feed since the stored start page token.
+   */
+  public async syncLibrary(onProgress?: (progress: SyncProgress) => void): Promise<DriveLibrary> {
+    const cached = await this.loadLibraryCache();
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`, {
-      headers: {
-        Authorization: `Bearer ${this.accessToken}`,
-      },
+    if (cached?.changesToken) {
+      try {
+        const nextToken = await this.applyChanges(cached.index, cached.changesToken, onProgress);
+        await this.saveLibraryCache(cached.index, nextToken);
+        this.library = cached.index;
+        return this.toLibrary(cached.index);
+      } catch (e) {
+        // An expired or invalid page token means we have to start over
+        if (!(e instanceof DriveApiError)) throw e;
+        console.warn("Incremental sync failed, falling back to a full listing:", e);
+      }
+    }
+
+    // Grab the token before listing so changes made during the listing are replayed next time
+    const startPageToken = await this.getStartPageToken();
+    const index = await this.listLibrary(cached?.index ?? null, onProgress);
+    await this.saveLibraryCache(index, startPageToken);
+    this.library = index;
+    return this.toLibrary(index);
+  }
+
+  /** Merges fields read from the files themselves (tags, duration) into the library database. */
+  public updateTracks(updates: Map<string, Partial<Track>>) {
+    const index = this.library;
+    if (!index) return;
+
+    const changed: Track[] = [];
+    updates.forEach((fields, id) => {
+      const track = index.tracks.get(id);
+      if (!track) return;
+      const updated = { ...track, ...fields };
+      index.tracks.set(id, updated);
+      changed.push(updated);
     });
 
+    libraryDb.putTracks(changed).catch(e => console.warn("Failed to persist track metadata:", e));
+  }
+
+  public getFolders(): DriveFolder[] {
+    return this.library ? Array.from(this.library.folders.values()) : [];
+  }
+
+  public getRootFolderId(): string | null {
+    return this.library?.rootFolderId ?? null;
+  }
+
+  // --- Library Roots ---
+
+  public getLibraryRoots(): string[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY_LIBRARY_ROOTS) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  public setLibraryRoots(folderIds: string[]) {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY_LIBRARY_ROOTS, JSON.stringify(folderIds));
+  }
+
+  // --- App Data Folder ---
+
+  /** Whether the session may use the app data folder; older sessions need to reconnect first. */
+  public hasAppDataAccess(): boolean {
+    return this.tokens.hasGrantedScope(APPDATA_SCOPE);
+  }
+
+  private async findAppDataFile(name: string): Promise<string | null> {
+    const params = new URLSearchParams({
+      spaces: 'appDataFolder',
+      q: `name = '${name}' and trashed = false`,
+      fields: 'files(id)',
+    });
+    const data = await this.request(`${DRIVE_API}/files?${params}`);
+    return data.files?.[0]?.id ?? null;
+  }
+
+  /** Reads a JSON file from the app's hidden Drive folder, or null if it doesn't exist yet. */
+  public async readAppDataFile<T>(name: string): Promise<T | null> {
+    const fileId = await this.findAppDataFile(name);
+    if (!fileId) return null;
+    return this.request(`${DRIVE_API}/files/${fileId}?alt=media`);
+  }
+
+  public async writeAppDataFile(name: string, content: unknown) {
+    const body = JSON.stringify(content);
+    const fileId = await this.findAppDataFile(name);
+
+    let response: Response;
+    if (fileId) {
+      response = await this.authorizedFetch(`${UPLOAD_API}/files/${fileId}?uploadType=media`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+      });
+    } else {
+      const form = new FormData();
+      form.append('metadata', new Blob([JSON.stringify({ name, parents: ['appDataFolder'] })], { type: 'application/json' }));
+      form.append('file', new Blob([body], { type: 'application/json' }));
+      response = await this.authorizedFetch(`${UPLOAD_API}/files?uploadType=multipart`, { method: 'POST', body: form });
+    }
+
+    if (response.status === 401) throw new ReconnectRequiredError();
+    if (!response.ok) throw new DriveApiError(response.status, `Drive API Error: ${response.statusText}`);
+  }
+
+  public async downloadFile(fileId: string): Promise<Blob> {
+    const response = await this.authorizedFetch(`${DRIVE_API}/files/${fileId}?alt=media`);
+
+    if (response.status === 401) throw new ReconnectRequiredError();
     if (!response.ok) throw new Error("Failed to fetch track media");
+    return response.blob();
+  }
+
+  /**
+   * Reads a text file next to a track with the same name and another extension, such as the
+   * track's .lrc lyrics. Resolves to null when there is none.
+   */
+  public async readSiblingText(track: Track, extension: string): Promise<string | null> {
+    const parent = track.parents?.[0];
+    const baseName = track.fileName?.replace(/\.[^/.]+$/, '');
+    if (!parent || !baseName) return null;
+    const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+    const params = new URLSearchParams({
+      q: `'${escape(parent)}' in parents and name = '${escape(`${baseName}.${extension}`)}' and trashed = false`,
+      fields: 'files(id)',
+      supportsAllDrives: 'true',
+      includeItemsFromAllDrives: 'true',
+    });
+    const data = await this.request(`${DRIVE_API}/files?${params}`);
+    const fileId = data.files?.[0]?.id;
+    if (!fileId) return null;
+    return (await this.downloadFile(fileId)).text();
+  }
+
+  /** Fetches the bytes in [start, end) of a file. */
+  public async fetchRange(fileId: string, start: number, end: number): Promise<ArrayBuffer> {
+    const response = await this.authorizedFetch(`${DRIVE_API}/files/${fileId}?alt=media`, {
+      headers: { Range: `bytes=${start}-${end - 1}` },
+    });
+
+    if (response.status === 401) throw new ReconnectRequiredError();
+    if (!response.ok) throw new DriveApiError(response.status, `Drive API Error: ${response.statusText}`);
+
+    const data = await response.arrayBuffer();
+    // A server that ignores Range sends the whole file
+    return response.status === 206 ? data : data.slice(start, end);
+  }
+
+  /**
+   * Prefers a streaming URL served by the worker so playback can start right away and seek
+   * with Range requests. Only downloads the whole file when no worker is available.
+   */
+  public async getTrackUrl(fileId: string): Promise<string> {
+    if (!this.tokens.hasToken()) throw new Error("Not authenticated");
+
+    const streamUrl = await streamService.getStreamUrl(fileId);
+    if (streamUrl) return streamUrl;
 
-    const blob = await response.blob();
-    return URL.createObjectURL(blob);
+    const blob = await this.downloadFile(fileId);
+    // Only the current and next track are ever in use, so don't keep older ones in memory
+    const url = URL.createObjectURL(blob);
+    this.fallbackBlobUrls = [...this.fallbackBlobUrls, url];
+    while (this.fallbackBlobUrls.length > MAX_FALLBACK_BLOBS) URL.revokeObjectURL(this.fallbackBlobUrls.shift()!);
+    return url;
   }
 }
 
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { isTypingTarget, shortcutFor } from './keyboardShortcuts';
+
+// Just enough of an element for the checks, since tests run without a DOM
+const makeElement = (tagName: string, fields: { type?: string; isContentEditable?: boolean } = {}) =>
+  ({ tagName, isContentEditable: false, ...fields }) as unknown as HTMLElement;
+
+const makeKey = (key: string, target: EventTarget | null, modifiers: Partial<KeyboardEvent> = {}) =>
+  ({ key, target, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, repeat: false, ...modifiers }) as KeyboardEvent;
+
+describe('isTypingTarget', () => {
+  it('counts text fields, selects and editable content', () => {
+    ['text', 'search', 'email', 'number', 'password', 'url', 'tel'].forEach(type => {
+      expect(isTypingTarget(makeElement('INPUT', { type }))).toBe(true);
+    });
+    expect(isTypingTarget(makeElement('TEXTAREA'))).toBe(true);
+    expect(isTypingTarget(makeElement('SELECT'))).toBe(true);
+    expect(isTypingTarget(makeElement('DIV', { isContentEditable: true }))).toBe(true);
+  });
+
+  it('leaves out sliders, checkboxes and other controls', () => {
+    expect(isTypingTarget(makeElement('INPUT', { type: 'range' }))).toBe(false);
+    expect(isTypingTarget(makeElement('INPUT', { type: 'checkbox' }))).toBe(false);
+    expect(isTypingTarget(makeElement('BUTTON'))).toBe(false);
+    expect(isTypingTarget(null)).toBe(false);
+  });
+});
+
+describe('shortcutFor', () => {
+  it('keeps working while a slider has focus', () => {
+    const slider = makeElement('INPUT', { type: 'range' });
+    expect(shortcutFor(makeKey(' ', slider))).toBe('togglePlay');
+    expect(shortcutFor(makeKey('ArrowRight', slider))).toBe('seekForward');
+    expect(shortcutFor(makeKey('k', slider, { ctrlKey: true }))).toBe('palette');
+  });
+
+  it('leaves keys typed into a text field alone, except for the palette', () => {
+    const search = makeElement('INPUT', { type: 'search' });
+    expect(shortcutFor(makeKey(' ', search))).toBeNull();
+    expect(shortcutFor(makeKey('n', search))).toBeNull();
+    expect(shortcutFor(makeKey('k', search, { metaKey: true }))).toBe('palette');
+  });
+
+  it('ignores held space and keys with other modifiers', () => {
+    expect(shortcutFor(makeKey(' ', null, { repeat: true }))).toBeNull();
+    expect(shortcutFor(makeKey('n', null, { altKey: true }))).toBeNull();
+    expect(shortcutFor(makeKey('N', null))).toBe('next');
+  });
+});
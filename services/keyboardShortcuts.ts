@@ -0,0 +1,75 @@
+export const SEEK_STEP_SECONDS = 5;
+export const VOLUME_STEP = 0.05;
+
+export type ShortcutAction =
+  | 'togglePlay'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'next'
+  | 'previous'
+  | 'shuffle'
+  | 'repeat'
+  | 'fullScreen'
+  | 'mute'
+  | 'like'
+  | 'palette';
+
+const KEY_ACTIONS: Record<string, ShortcutAction> = {
+  ' ': 'togglePlay',
+  arrowleft: 'seekBackward',
+  arrowright: 'seekForward',
+  arrowup: 'volumeUp',
+  arrowdown: 'volumeDown',
+  n: 'next',
+  p: 'previous',
+  s: 'shuffle',
+  r: 'repeat',
+  f: 'fullScreen',
+  m: 'mute',
+  l: 'like',
+};
+
+/** Key labels for each action, as shown in the command palette. */
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  togglePlay: 'Space',
+  seekBackward: '←',
+  seekForward: '→',
+  volumeUp: '↑',
+  volumeDown: '↓',
+  next: 'N',
+  previous: 'P',
+  shuffle: 'S',
+  repeat: 'R',
+  fullScreen: 'F',
+  mute: 'M',
+  like: 'L',
+  palette: 'Ctrl K',
+};
+
+// Inputs that take typed text; sliders, checkboxes and buttons keep focus after a click but don't
+const TEXT_INPUT_TYPES = ['text', 'search', 'email', 'number', 'password', 'url', 'tel'];
+
+/** Whether key presses are going into a text field, where they must be left alone. */
+export const isTypingTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  if (!element || typeof element.tagName !== 'string') return false;
+  if (element.isContentEditable || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT') return true;
+  return element.tagName === 'INPUT' && TEXT_INPUT_TYPES.includes((element as HTMLInputElement).type);
+};
+
+/** Whether a modal dialog (settings, equalizer, lyrics editor...) is open and owns the keyboard. */
+export const isDialogOpen = () =>
+  typeof document !== 'undefined' && !!document.querySelector('[aria-modal="true"]');
+
+/** The action a key press stands for. Ctrl/Cmd+K works anywhere; the rest not while typing. */
+export const shortcutFor = (e: KeyboardEvent): ShortcutAction | null => {
+  const key = e.key.toLowerCase();
+  if ((e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && key === 'k') return 'palette';
+  if (e.ctrlKey || e.metaKey || e.altKey) return null;
+  // Holding space would toggle play over and over
+  if (e.repeat && key === ' ') return null;
+  if (isTypingTarget(e.target)) return null;
+  return KEY_ACTIONS[key] ?? null;
+};
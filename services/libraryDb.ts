@@ -0,0 +1,273 @@
+import { Chapter, DriveFolder, GeminiAnalysis, LoudnessInfo, Lyrics, Track } from "../types";
+
+const DB_NAME = 'nova-library';
+const DB_VERSION = 6;
+
+const STORE_TRACKS = 'tracks';
+const STORE_FOLDERS = 'folders';
+const STORE_ART = 'art';
+const STORE_ANALYSIS = 'analysis';
+const STORE_LOUDNESS = 'loudness';
+const STORE_CHAPTERS = 'chapters';
+const STORE_THUMBNAILS = 'thumbnails';
+const STORE_LYRICS = 'lyrics';
+const STORE_WAVEFORMS = 'waveforms';
+// Lyrics timed in the app belong to the song, not a file revision
+const STORE_LYRICS_EDITS = 'lyricsEdits';
+const STORE_META = 'meta';
+
+export interface LibrarySnapshot {
+  tracks: Track[];
+  folders: DriveFolder[];
+  rootFolderId: string | null;
+  changesToken: string | null;
+}
+
+// Data derived from a file's contents, only valid for the revision it was computed from
+interface RevisionRecord<T> {
+  id: string;
+  revision: string;
+  value: T;
+}
+
+// Thumbnails are a cache, so they also carry when they were stored to drop the oldest first
+interface ThumbnailRecord extends RevisionRecord<Blob> {
+  storedAt: number;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * The local library database. Track records are keyed by Drive file id and carry the file's
+ * revision (md5Checksum or modifiedTime), so anything read from a file is kept until it changes.
+ */
+export class LibraryDb {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private get isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          [STORE_TRACKS, STORE_FOLDERS, STORE_ART, STORE_ANALYSIS, STORE_LOUDNESS, STORE_CHAPTERS, STORE_LYRICS, STORE_LYRICS_EDITS, STORE_WAVEFORMS].forEach(name => {
+            if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+          });
+          if (!db.objectStoreNames.contains(STORE_META)) db.createObjectStore(STORE_META);
+          if (!db.objectStoreNames.contains(STORE_THUMBNAILS)) {
+            db.createObjectStore(STORE_THUMBNAILS, { keyPath: 'id' }).createIndex('storedAt', 'storedAt');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let the next call try again instead of caching the failure
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  // --- Library ---
+
+  public async loadLibrary(): Promise<LibrarySnapshot | null> {
+    if (!this.isSupported) return null;
+    const db = await this.open();
+    const tx = db.transaction([STORE_TRACKS, STORE_FOLDERS, STORE_META], 'readonly');
+    const meta = tx.objectStore(STORE_META);
+
+    const [tracks, folders, rootFolderId, changesToken] = await Promise.all([
+      promisify<Track[]>(tx.objectStore(STORE_TRACKS).getAll()),
+      promisify<DriveFolder[]>(tx.objectStore(STORE_FOLDERS).getAll()),
+      promisify(meta.get('rootFolderId')),
+      promisify(meta.get('changesToken')),
+    ]);
+    if (tracks.length === 0 && !changesToken) return null;
+
+    return { tracks, folders, rootFolderId: rootFolderId ?? null, changesToken: changesToken ?? null };
+  }
+
+  /** Replaces the stored library and drops what was read from files that are gone. */
+  public async saveLibrary(snapshot: LibrarySnapshot) {
+    if (!this.isSupported) return;
+    const db = await this.open();
+    const tx = db.transaction([STORE_TRACKS, STORE_FOLDERS, STORE_ART, STORE_ANALYSIS, STORE_LOUDNESS, STORE_CHAPTERS, STORE_THUMBNAILS, STORE_LYRICS, STORE_WAVEFORMS, STORE_META], 'readwrite');
+    const done = transactionDone(tx);
+
+    const trackStore = tx.objectStore(STORE_TRACKS);
+    const folderStore = tx.objectStore(STORE_FOLDERS);
+    trackStore.clear();
+    folderStore.clear();
+    snapshot.tracks.forEach(track => trackStore.put(track));
+    snapshot.folders.forEach(folder => folderStore.put(folder));
+
+    const meta = tx.objectStore(STORE_META);
+    meta.put(snapshot.rootFolderId, 'rootFolderId');
+    meta.put(snapshot.changesToken, 'changesToken');
+
+    const ids = new Set(snapshot.tracks.map(t => t.id));
+    [STORE_ART, STORE_ANALYSIS, STORE_LOUDNESS, STORE_CHAPTERS, STORE_THUMBNAILS, STORE_LYRICS, STORE_WAVEFORMS].forEach(name => {
+      const store = tx.objectStore(name);
+      const request = store.getAllKeys();
+      request.onsuccess = () => {
+        request.result.forEach(key => { if (!ids.has(String(key))) store.delete(key); });
+      };
+    });
+
+    await done;
+  }
+
+  public async putTracks(tracks: Track[]) {
+    if (!this.isSupported || tracks.length === 0) return;
+    const db = await this.open();
+    const tx = db.transaction(STORE_TRACKS, 'readwrite');
+    const store = tx.objectStore(STORE_TRACKS);
+    tracks.forEach(track => store.put(track));
+    await transactionDone(tx);
+  }
+
+  // --- Per-revision data ---
+
+  private async getForRevision<T>(storeName: string, track: Track): Promise<T | undefined> {
+    if (!this.isSupported || !track.revision) return undefined;
+    const db = await this.open();
+    const record: RevisionRecord<T> | undefined = await promisify(
+      db.transaction(storeName, 'readonly').objectStore(storeName).get(track.id)
+    );
+    return record?.revision === track.revision ? record.value : undefined;
+  }
+
+  private async putForRevision<T>(storeName: string, track: Track, value: T) {
+    if (!this.isSupported || !track.revision) return;
+    const db = await this.open();
+    const tx = db.transaction(storeName, 'readwrite');
+    const record: RevisionRecord<T> = { id: track.id, revision: track.revision, value };
+    tx.objectStore(storeName).put(record);
+    await transactionDone(tx);
+  }
+
+  /** Embedded cover art. null means the file is known to have none; undefined means not read yet. */
+  public getArt(track: Track): Promise<Blob | null | undefined> {
+    return this.getForRevision<Blob | null>(STORE_ART, track);
+  }
+
+  public putArt(track: Track, art: Blob | null) {
+    return this.putForRevision(STORE_ART, track, art);
+  }
+
+  public getAnalysis(track: Track): Promise<GeminiAnalysis | undefined> {
+    return this.getForRevision<GeminiAnalysis>(STORE_ANALYSIS, track);
+  }
+
+  public putAnalysis(track: Track, analysis: GeminiAnalysis) {
+    return this.putForRevision(STORE_ANALYSIS, track, analysis);
+  }
+
+  /** Measured or tagged loudness. null means it couldn't be determined; undefined means not tried yet. */
+  public getLoudness(track: Track): Promise<LoudnessInfo | null | undefined> {
+    return this.getForRevision<LoudnessInfo | null>(STORE_LOUDNESS, track);
+  }
+
+  public putLoudness(track: Track, loudness: LoudnessInfo | null) {
+    return this.putForRevision(STORE_LOUDNESS, track, loudness);
+  }
+
+  /** Chapter marks; an empty list means the file has none. */
+  public getChapters(track: Track): Promise<Chapter[] | undefined> {
+    return this.getForRevision<Chapter[]>(STORE_CHAPTERS, track);
+  }
+
+  public putChapters(track: Track, chapters: Chapter[]) {
+    return this.putForRevision(STORE_CHAPTERS, track, chapters);
+  }
+
+  /** Lyrics from the file's tags. null means it has none; undefined means not read yet. */
+  public getLyrics(track: Track): Promise<Lyrics | null | undefined> {
+    return this.getForRevision<Lyrics | null>(STORE_LYRICS, track);
+  }
+
+  public putLyrics(track: Track, lyrics: Lyrics | null) {
+    return this.putForRevision(STORE_LYRICS, track, lyrics);
+  }
+
+  /** Waveform peaks. null means the audio couldn't be decoded; undefined means not tried yet. */
+  public getWaveform(track: Track): Promise<Float32Array | null | undefined> {
+    return this.getForRevision<Float32Array | null>(STORE_WAVEFORMS, track);
+  }
+
+  public putWaveform(track: Track, peaks: Float32Array | null) {
+    return this.putForRevision(STORE_WAVEFORMS, track, peaks);
+  }
+
+  public async getEditedLyrics(trackId: string): Promise<Lyrics | undefined> {
+    if (!this.isSupported) return undefined;
+    const db = await this.open();
+    const record: { id: string; value: Lyrics } | undefined = await promisify(
+      db.transaction(STORE_LYRICS_EDITS, 'readonly').objectStore(STORE_LYRICS_EDITS).get(trackId)
+    );
+    return record?.value;
+  }
+
+  /** Saves lyrics made in the app, or removes them when given null. */
+  public async putEditedLyrics(trackId: string, lyrics: Lyrics | null) {
+    if (!this.isSupported) return;
+    const db = await this.open();
+    const tx = db.transaction(STORE_LYRICS_EDITS, 'readwrite');
+    const store = tx.objectStore(STORE_LYRICS_EDITS);
+    if (lyrics) store.put({ id: trackId, value: lyrics });
+    else store.delete(trackId);
+    await transactionDone(tx);
+  }
+
+  // --- Thumbnails ---
+
+  public getThumbnail(track: Track): Promise<Blob | undefined> {
+    return this.getForRevision<Blob>(STORE_THUMBNAILS, track);
+  }
+
+  public async putThumbnail(track: Track, thumbnail: Blob) {
+    if (!this.isSupported || !track.revision) return;
+    const db = await this.open();
+    const tx = db.transaction(STORE_THUMBNAILS, 'readwrite');
+    const record: ThumbnailRecord = { id: track.id, revision: track.revision, value: thumbnail, storedAt: Date.now() };
+    tx.objectStore(STORE_THUMBNAILS).put(record);
+    await transactionDone(tx);
+  }
+
+  /** Deletes the oldest thumbnails until at most `limit` are left. */
+  public async pruneThumbnails(limit: number) {
+    if (!this.isSupported) return;
+    const db = await this.open();
+    const tx = db.transaction(STORE_THUMBNAILS, 'readwrite');
+    const done = transactionDone(tx);
+    const store = tx.objectStore(STORE_THUMBNAILS);
+    let excess = (await promisify(store.count())) - limit;
+    if (excess > 0) {
+      const cursorRequest = store.index('storedAt').openKeyCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) return;
+        store.delete(cursor.primaryKey);
+        excess--;
+        cursor.continue();
+      };
+    }
+    await done;
+  }
+}
+
+export const libraryDb = new LibraryDb();
@@ -0,0 +1,70 @@
+import { Track } from "../types";
+
+const STORAGE_KEY_LIKES = 'nova_liked_tracks';
+
+// A snapshot of the track is kept so exports still make sense once a file is gone from Drive
+export interface LikedTrack {
+  id: string;
+  likedAt: number;
+  name: string;
+  artist: string;
+  album: string;
+}
+
+export class LikesService {
+  private likes: Record<string, LikedTrack> = {};
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      this.likes = JSON.parse(localStorage.getItem(STORAGE_KEY_LIKES) || '{}');
+    } catch (e) {
+      console.warn("Discarding unreadable liked songs:", e);
+    }
+  }
+
+  private save() {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY_LIKES, JSON.stringify(this.likes));
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public isLiked(trackId: string): boolean {
+    return !!this.likes[trackId];
+  }
+
+  public toggleLike(track: Track) {
+    if (this.likes[track.id]) {
+      delete this.likes[track.id];
+    } else {
+      this.likes[track.id] = { id: track.id, likedAt: Date.now(), name: track.name, artist: track.artist, album: track.album };
+    }
+    this.save();
+  }
+
+  /** Liked tracks, most recently liked first. */
+  public getLikes(): LikedTrack[] {
+    return Object.values(this.likes).sort((a, b) => b.likedAt - a.likedAt);
+  }
+
+  /** A JSON document of every like, refreshed with current tags where the track is still around. */
+  public exportLikes(tracks: Track[]): Blob {
+    const byId = new Map(tracks.map(t => [t.id, t]));
+    const entries = this.getLikes().map(like => {
+      const track = byId.get(like.id);
+      return track
+        ? { ...like, name: track.name, artist: track.artist, album: track.album }
+        : like;
+    });
+    return new Blob([JSON.stringify({ exportedAt: new Date().toISOString(), likes: entries }, null, 2)], { type: 'application/json' });
+  }
+}
+
+export const likesService = new LikesService();
@@ -0,0 +1,159 @@
+import { DriveFolder, Track } from "../types";
+import { MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE, PlaybackController, PlaybackProfile } from "./playbackController";
+
+const STORAGE_KEY_SETTINGS = 'nova_long_form';
+const STORAGE_KEY_POSITIONS = 'nova_resume_positions';
+
+// Positions are written every few seconds of playback and whenever it pauses
+const SAVE_INTERVAL_MS = 5000;
+// Close to the end counts as finished, so the next listen starts over
+const FINISHED_THRESHOLD_SECONDS = 30;
+// Resuming a little early helps pick up the thread of the sentence
+const RESUME_REWIND_SECONDS = 3;
+const MAX_POSITIONS = 500;
+
+// Folder names and genres that mark spoken-word content
+const LONG_FORM_PATTERN = /\b(audio ?books?|podcasts?|lectures?|sermons?|spoken ?word)\b/i;
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+export interface LongFormSettings {
+  // Tracks at least this long are long-form; 0 leaves it to folders and tags
+  minMinutes: number;
+  // Folders the user marked as long-form, along with everything below them
+  folderIds: string[];
+  speed: number;
+}
+
+interface SavedPosition {
+  position: number;
+  savedAt: number;
+}
+
+/**
+ * Audiobooks, podcasts and lectures: tracks recognized as long-form by length, folder or tags
+ * remember where they were left and play at their own speed.
+ */
+export class LongFormService {
+  private settings: LongFormSettings = { minMinutes: 20, folderIds: [], speed: 1 };
+  private positions: Record<string, SavedPosition> = {};
+  private getFolders: (track: Track) => DriveFolder[] = () => [];
+  private controller: PlaybackController | null = null;
+  private lastSave = 0;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      this.settings = { ...this.settings, ...JSON.parse(localStorage.getItem(STORAGE_KEY_SETTINGS) || '{}') };
+      this.positions = JSON.parse(localStorage.getItem(STORAGE_KEY_POSITIONS) || '{}');
+    } catch (e) {
+      console.warn("Discarding unreadable long-form settings:", e);
+    }
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public getSettings(): LongFormSettings {
+    return { ...this.settings };
+  }
+
+  public updateSettings(settings: Partial<LongFormSettings>) {
+    this.settings = { ...this.settings, ...settings };
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(this.settings));
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  /** The folders a track sits in, from the library root down. */
+  public setFolderResolver(resolver: (track: Track) => DriveFolder[]) {
+    this.getFolders = resolver;
+    this.listeners.forEach(listener => listener());
+  }
+
+  public isLongForm(track: Track): boolean {
+    if (/\.m4b$/i.test(track.fileName || '')) return true;
+    if (this.settings.minMinutes > 0 && track.duration >= this.settings.minMinutes * 60) return true;
+    if (track.genre && LONG_FORM_PATTERN.test(track.genre)) return true;
+    return this.getFolders(track).some(f => this.settings.folderIds.includes(f.id) || LONG_FORM_PATTERN.test(f.name));
+  }
+
+  public isFolderMarked(folderId: string): boolean {
+    return this.settings.folderIds.includes(folderId);
+  }
+
+  public toggleFolder(folderId: string) {
+    const folderIds = this.isFolderMarked(folderId)
+      ? this.settings.folderIds.filter(id => id !== folderId)
+      : [...this.settings.folderIds, folderId];
+    this.updateSettings({ folderIds });
+  }
+
+  public getResumePosition(track: Track): number {
+    return this.positions[track.id]?.position ?? 0;
+  }
+
+  public getProfile(track: Track): PlaybackProfile {
+    if (!this.isLongForm(track)) return { startAt: 0, rate: 1 };
+    const position = this.getResumePosition(track);
+    return { startAt: position > 0 ? Math.max(0, position - RESUME_REWIND_SECONDS) : 0, rate: this.settings.speed };
+  }
+
+  /** Applies long-form profiles to what the controller plays and keeps the resume positions up to date. */
+  public attach(controller: PlaybackController): () => void {
+    this.controller = controller;
+    controller.setProfileResolver(track => this.getProfile(track));
+
+    let lastTrackId: string | null = null;
+    const unsubscribe = controller.subscribe(change => {
+      if (change === 'queue') return;
+      const { currentTrack, currentTime, duration, isPlaying } = controller.getState();
+      // A track that just loaded is still at its (rewound) start; saving that would rewind it again next time
+      const justLoaded = currentTrack?.id !== lastTrackId;
+      lastTrackId = currentTrack?.id ?? null;
+      if (!currentTrack || justLoaded || currentTime <= 0 || !this.isLongForm(currentTrack)) return;
+      // Pausing saves right away; playback saves every few seconds
+      if (isPlaying && Date.now() - this.lastSave < SAVE_INTERVAL_MS) return;
+      this.savePosition(currentTrack, currentTime, duration || currentTrack.duration);
+    });
+    return () => {
+      unsubscribe();
+      if (this.controller === controller) this.controller = null;
+    };
+  }
+
+  /** Speed for long-form tracks, applied right away if one is playing. */
+  public setSpeed(rate: number) {
+    const speed = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+    this.updateSettings({ speed });
+    const current = this.controller?.getState().currentTrack;
+    if (current && this.isLongForm(current)) this.controller!.setPlaybackRate(speed);
+  }
+
+  private savePosition(track: Track, position: number, duration: number) {
+    this.lastSave = Date.now();
+    const finished = duration > 0 && duration - position < FINISHED_THRESHOLD_SECONDS;
+    if (finished) {
+      if (!this.positions[track.id]) return;
+      delete this.positions[track.id];
+    } else {
+      this.positions[track.id] = { position, savedAt: this.lastSave };
+      // Forget the longest untouched ones
+      const ids = Object.keys(this.positions);
+      if (ids.length > MAX_POSITIONS) {
+        ids.sort((a, b) => this.positions[a].savedAt - this.positions[b].savedAt)
+          .slice(0, ids.length - MAX_POSITIONS)
+          .forEach(id => delete this.positions[id]);
+      }
+    }
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY_POSITIONS, JSON.stringify(this.positions));
+    }
+  }
+}
+
+export const longFormService = new LongFormService();
@@ -0,0 +1,201 @@
+import { LoudnessInfo, Track } from "../types";
+import { audioBytes } from "./audioBytes";
+import { libraryDb } from "./libraryDb";
+import { metadataService } from "./metadataService";
+
+const STORAGE_KEY_SETTINGS = 'nova_normalization';
+
+// Decoding resamples to this rate; loudness barely depends on the top octave and it halves the memory
+const MEASURE_SAMPLE_RATE = 22050;
+// A decoded 10 minute track already takes ~100 MB, so longer ones (mixes, audiobooks) are left alone
+const MAX_MEASURE_SECONDS = 10 * 60;
+const MAX_BOOST_DB = 12;
+
+// BS.1770 gating: 400 ms blocks overlapping by 75%, an absolute gate at -70 LUFS and a relative one 10 LU down
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEPS = 4;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = 10;
+
+export type NormalizationMode = 'off' | 'track' | 'album';
+
+export interface NormalizationSettings {
+  mode: NormalizationMode;
+  targetLufs: number;
+  // Limit peaks instead of holding back the gain of tracks that would clip
+  limiter: boolean;
+}
+
+const blockLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+// 5.1 weights the surround channels up and leaves out the LFE; everything else counts once
+const channelWeight = (index: number, count: number) => (count === 6 ? [1, 1, 1, 0, 1.41, 1.41][index] : 1);
+
+/** Integrated loudness (BS.1770 / EBU R128) and sample peak of an encoded audio file. */
+export const measureLoudness = async (data: ArrayBuffer): Promise<LoudnessInfo | null> => {
+  const decoder = new OfflineAudioContext(1, 1, MEASURE_SAMPLE_RATE);
+  const decoded = await decoder.decodeAudioData(data);
+  const channels = decoded.numberOfChannels;
+
+  let peak = 0;
+  for (let c = 0; c < channels; c++) {
+    const samples = decoded.getChannelData(c);
+    for (let i = 0; i < samples.length; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+  }
+
+  // K-weighting: a +4 dB shelf above ~1.7 kHz and a high-pass at 38 Hz
+  const ctx = new OfflineAudioContext(channels, decoded.length, decoded.sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = decoded;
+  const shelf = ctx.createBiquadFilter();
+  shelf.type = 'highshelf';
+  shelf.frequency.value = 1681;
+  shelf.gain.value = 4;
+  const highpass = ctx.createBiquadFilter();
+  highpass.type = 'highpass';
+  highpass.frequency.value = 38;
+  highpass.Q.value = 0.5;
+  source.connect(shelf).connect(highpass).connect(ctx.destination);
+  source.start();
+  const weighted = await ctx.startRendering();
+
+  // Sum of weighted squares per 100 ms step; a block is four consecutive steps
+  const step = Math.round((BLOCK_SECONDS / BLOCK_STEPS) * weighted.sampleRate);
+  const stepCount = Math.floor(weighted.length / step);
+  const steps = new Float64Array(stepCount);
+  for (let c = 0; c < channels; c++) {
+    const weight = channelWeight(c, channels);
+    if (weight === 0) continue;
+    const samples = weighted.getChannelData(c);
+    for (let s = 0; s < stepCount; s++) {
+      let sum = 0;
+      for (let i = s * step, end = i + step; i < end; i++) sum += samples[i] * samples[i];
+      steps[s] += sum * weight;
+    }
+  }
+
+  const blocks: number[] = [];
+  for (let s = 0; s + BLOCK_STEPS <= stepCount; s++) {
+    let sum = 0;
+    for (let k = 0; k < BLOCK_STEPS; k++) sum += steps[s + k];
+    const meanSquare = sum / (step * BLOCK_STEPS);
+    if (meanSquare > 0 && blockLoudness(meanSquare) > ABSOLUTE_GATE_LUFS) blocks.push(meanSquare);
+  }
+  if (blocks.length === 0) return null;
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const threshold = blockLoudness(mean(blocks)) - RELATIVE_GATE_LU;
+  const gated = blocks.filter(b => blockLoudness(b) > threshold);
+  return { track: blockLoudness(mean(gated)), trackPeak: peak };
+};
+
+/**
+ * Evens out volume between tracks. Loudness comes from ReplayGain/R128 tags where present and
+ * is otherwise measured from the audio, one track at a time; either way it's kept per file revision.
+ */
+export class LoudnessService {
+  private settings: NormalizationSettings = { mode: 'track', targetLufs: -16, limiter: true };
+  private known = new Map<string, LoudnessInfo | null>();
+  private pending = new Map<string, Promise<LoudnessInfo | null>>();
+  private measuring: Promise<unknown> = Promise.resolve();
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      this.settings = { ...this.settings, ...JSON.parse(localStorage.getItem(STORAGE_KEY_SETTINGS) || '{}') };
+    } catch (e) {
+      console.warn("Discarding unreadable normalization settings:", e);
+    }
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public getSettings(): NormalizationSettings {
+    return { ...this.settings };
+  }
+
+  public updateSettings(settings: Partial<NormalizationSettings>) {
+    this.settings = { ...this.settings, ...settings };
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(this.settings));
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  /** Linear gain that brings the track to the target loudness; 1 while its loudness is unknown. */
+  public async getGain(track: Track): Promise<number> {
+    const { mode, targetLufs, limiter } = this.settings;
+    if (mode === 'off') return 1;
+
+    const info = await this.getLoudness(track);
+    const loudness = mode === 'album' ? info?.album ?? info?.track : info?.track;
+    if (loudness === undefined) return 1;
+
+    const gain = 10 ** (Math.min(MAX_BOOST_DB, targetLufs - loudness) / 20);
+    const peak = mode === 'album' && info?.album !== undefined ? info.albumPeak : info?.trackPeak;
+    // Without the limiter, a boost stops where the loudest sample would clip
+    return !limiter && peak ? Math.min(gain, 1 / peak) : gain;
+  }
+
+  public getLoudness(track: Track): Promise<LoudnessInfo | null> {
+    if (track.loudness?.track !== undefined) return Promise.resolve(track.loudness);
+    if (this.known.has(track.id)) return Promise.resolve(this.known.get(track.id)!);
+
+    let pending = this.pending.get(track.id);
+    if (!pending) {
+      pending = this.analyze(track).finally(() => this.pending.delete(track.id));
+      this.pending.set(track.id, pending);
+    }
+    return pending;
+  }
+
+  private async analyze(track: Track): Promise<LoudnessInfo | null> {
+    const cached = await libraryDb.getLoudness(track).catch(() => undefined);
+    if (cached !== undefined) {
+      this.known.set(track.id, cached);
+      return cached;
+    }
+
+    // Libraries read before ReplayGain support don't carry the tags on their tracks yet
+    let info: LoudnessInfo | null = null;
+    try {
+      const tags = await metadataService.readTags(track);
+      if (tags.loudness?.track !== undefined) info = tags.loudness;
+    } catch (e) {
+      // The tags may well be there; measuring would download the whole file for nothing
+      console.warn(`Failed to read loudness tags for "${track.name}":`, e);
+      return null;
+    }
+
+    if (!info && track.duration > 0 && track.duration <= MAX_MEASURE_SECONDS) {
+      try {
+        info = await this.enqueueMeasurement(track);
+      } catch (e) {
+        // Likely a network error; try again next time the track plays
+        console.warn(`Failed to measure loudness of "${track.name}":`, e);
+        return null;
+      }
+    }
+
+    this.known.set(track.id, info);
+    libraryDb.putLoudness(track, info).catch(e => console.warn("Failed to cache loudness:", e));
+    return info;
+  }
+
+  // Decoding is memory hungry, so measurements run one after another. The download is shared
+  // with the waveform, which decodes the same track around the same time.
+  private enqueueMeasurement(track: Track): Promise<LoudnessInfo | null> {
+    const run = this.measuring.then(async () => measureLoudness(await audioBytes.get(track)));
+    this.measuring = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const loudnessService = new LoudnessService();
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { activeLineIndex, formatLrc, isLrc, parseLrc } from './lrcFormat';
+import { Track } from '../types';
+
+const makeTrack = (fields: Partial<Track> = {}): Track => ({
+  id: 't1',
+  name: 'Song',
+  artist: 'Artist',
+  album: 'Album',
+  duration: 180,
+  url: 'https://example.com/t1.mp3',
+  coverArt: '',
+  mimeType: 'audio/mpeg',
+  ...fields,
+});
+
+describe('isLrc', () => {
+  it('tells timed lyrics from plain text', () => {
+    expect(isLrc('[ti:Song]\n[00:12.34]Hello')).toBe(true);
+    expect(isLrc('  [1:05]Hello')).toBe(true);
+    expect(isLrc('Hello\n[Chorus]\nWorld')).toBe(false);
+  });
+});
+
+describe('parseLrc', () => {
+  it('reads timestamps with and without fractions and skips tags and untimed lines', () => {
+    expect(parseLrc('[ti:Song]\n[ar:Artist]\n[00:01]One\nno time\n[00:02.5]Two\r\n[01:03:250]Three\n[100:00.00]Late')).toEqual([
+      { time: 1, text: 'One' },
+      { time: 2.5, text: 'Two' },
+      { time: 63.25, text: 'Three' },
+      { time: 6000, text: 'Late' },
+    ]);
+  });
+
+  it('repeats a line under each of its timestamps, in time order', () => {
+    expect(parseLrc('[00:10.00][00:30.00]Chorus\n[00:20.00]Verse')).toEqual([
+      { time: 10, text: 'Chorus' },
+      { time: 20, text: 'Verse' },
+      { time: 30, text: 'Chorus' },
+    ]);
+  });
+
+  it('shows lines sooner for a positive offset and never before the start', () => {
+    expect(parseLrc('[offset:+500]\n[00:00.20]First\n[00:02.00]Second')).toEqual([
+      { time: 0, text: 'First' },
+      { time: 1.5, text: 'Second' },
+    ]);
+    expect(parseLrc('[offset:-250]\n[00:01.00]Later')).toEqual([{ time: 1.25, text: 'Later' }]);
+  });
+
+  it('drops per-word marks and extra whitespace', () => {
+    expect(parseLrc('[00:05.00] <00:05.00>Hello   <00:05.50>world ')).toEqual([{ time: 5, text: 'Hello world' }]);
+  });
+});
+
+describe('formatLrc', () => {
+  const lines = [
+    { time: 0, text: 'Intro' },
+    { time: 65.5, text: 'Verse' },
+    { time: 6001.239, text: 'Late' },
+  ];
+
+  it('writes the track tags and a timestamp per line', () => {
+    expect(formatLrc(lines, makeTrack())).toBe('[ti:Song]\n[ar:Artist]\n[al:Album]\n[00:00.00]Intro\n[01:05.50]Verse\n[100:01.24]Late\n');
+    expect(formatLrc(lines.slice(0, 1), makeTrack({ album: '' }))).toBe('[ti:Song]\n[ar:Artist]\n[00:00.00]Intro\n');
+  });
+
+  it('reads back what it wrote', () => {
+    const written = [{ time: 1.23, text: 'One' }, { time: 61, text: 'Two' }];
+    expect(parseLrc(formatLrc(written, makeTrack()))).toEqual(written);
+  });
+});
+
+describe('activeLineIndex', () => {
+  const lines = [{ time: 1, text: 'a' }, { time: 5, text: 'b' }, { time: 9, text: 'c' }];
+
+  it('finds the last line that has started', () => {
+    expect(activeLineIndex(lines, 0.5)).toBe(-1);
+    expect(activeLineIndex(lines, 1)).toBe(0);
+    expect(activeLineIndex(lines, 8.99)).toBe(1);
+    expect(activeLineIndex(lines, 100)).toBe(2);
+    expect(activeLineIndex([], 3)).toBe(-1);
+  });
+});
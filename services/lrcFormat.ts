@@ -0,0 +1,74 @@
+import { LyricLine, Track } from "../types";
+
+// [mm:ss], [mm:ss.xx] or [mm:ss:xx] at the start of a line; some files use minutes past 99
+const LEADING_TIMESTAMP = /^\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/;
+const LRC_LINE = /^\s*\[\d+:\d{1,2}(?:[.:]\d{1,3})?\]/m;
+
+const parseTimestamp = (minutes: string, seconds: string, fraction: string | undefined) =>
+  Number(minutes) * 60 + Number(seconds) + (fraction ? Number(fraction) / 10 ** fraction.length : 0);
+
+/** Whether text is in LRC format rather than plain lyrics. */
+export const isLrc = (text: string) => LRC_LINE.test(text);
+
+/**
+ * Parses LRC lyrics. Lines can carry several timestamps (a repeated chorus), an [offset:]
+ * tag shifts every line, and enhanced LRC's per-word <mm:ss.xx> marks are dropped.
+ */
+export const parseLrc = (text: string): LyricLine[] => {
+  const lines: LyricLine[] = [];
+  let offset = 0;
+
+  for (const raw of text.split(/\r\n?|\n/)) {
+    const offsetTag = /^\s*\[offset:\s*([+-]?\d+)\s*\]/i.exec(raw);
+    if (offsetTag) {
+      // Positive offsets make lyrics appear sooner
+      offset = -Number(offsetTag[1]) / 1000;
+      continue;
+    }
+    const times: number[] = [];
+    let rest = raw.trim();
+    for (let match = LEADING_TIMESTAMP.exec(rest); match; match = LEADING_TIMESTAMP.exec(rest)) {
+      times.push(parseTimestamp(match[1], match[2], match[3]));
+      rest = rest.slice(match[0].length).trimStart();
+    }
+    if (times.length === 0) continue;
+    const lineText = rest.replace(/<\d+:\d{1,2}(?:[.:]\d{1,3})?>/g, '').replace(/\s+/g, ' ').trim();
+    times.forEach(time => lines.push({ time, text: lineText }));
+  }
+
+  return lines
+    .map(line => ({ ...line, time: Math.max(0, line.time + offset) }))
+    .sort((a, b) => a.time - b.time);
+};
+
+const formatTimestamp = (time: number) => {
+  const hundredths = Math.round(time * 100);
+  const minutes = Math.floor(hundredths / 6000);
+  const seconds = (hundredths % 6000) / 100;
+  return `[${minutes.toString().padStart(2, '0')}:${seconds.toFixed(2).padStart(5, '0')}]`;
+};
+
+/** Writes lines as LRC, with title, artist and album tags at the top. */
+export const formatLrc = (lines: LyricLine[], track?: Track): string => {
+  const header = track
+    ? [`[ti:${track.name}]`, `[ar:${track.artist}]`, track.album ? `[al:${track.album}]` : null].filter(Boolean)
+    : [];
+  return [...header, ...lines.map(line => `${formatTimestamp(line.time)}${line.text}`)].join('\n') + '\n';
+};
+
+/** Index of the line being sung at `time`: the last one that has started, or -1 before the first. */
+export const activeLineIndex = (lines: LyricLine[], time: number): number => {
+  let low = 0;
+  let high = lines.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (lines[mid].time <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
@@ -0,0 +1,78 @@
+import { LyricLine, Lyrics, Track } from "../types";
+import { driveService } from "./googleDriveService";
+import { metadataService } from "./metadataService";
+import { libraryDb } from "./libraryDb";
+import { isLrc, parseLrc } from "./lrcFormat";
+
+// Lyrics looked up this session; a sync or edit replaces them
+const MAX_CACHED = 50;
+
+/**
+ * Finds lyrics for a track. Lyrics timed in the app come first, then a sibling .lrc file in
+ * the same Drive folder, then lyrics embedded in the file's tags.
+ */
+export class LyricsService {
+  private cache = new Map<string, Promise<Lyrics | null>>();
+  private listeners = new Set<(trackId: string) => void>();
+
+  private key(track: Track) {
+    return `${track.id}:${track.revision ?? ''}`;
+  }
+
+  /** Listeners hear the id of a track whose lyrics were edited. */
+  public subscribe(listener: (trackId: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public getLyrics(track: Track): Promise<Lyrics | null> {
+    const key = this.key(track);
+    let lyrics = this.cache.get(key);
+    if (!lyrics) {
+      lyrics = this.findLyrics(track);
+      // Failures aren't remembered, so the next look tries again
+      lyrics.catch(() => this.cache.delete(key));
+      this.cache.set(key, lyrics);
+      if (this.cache.size > MAX_CACHED) this.cache.delete(this.cache.keys().next().value!);
+    }
+    return lyrics;
+  }
+
+  private async findLyrics(track: Track): Promise<Lyrics | null> {
+    const edited = await libraryDb.getEditedLyrics(track.id).catch(() => undefined);
+    if (edited) return edited;
+
+    if (track.isRemote) {
+      try {
+        const lrc = await driveService.readSiblingText(track, 'lrc');
+        if (lrc?.trim()) {
+          return isLrc(lrc)
+            ? { synced: true, lines: parseLrc(lrc), source: 'lrc' }
+            : { synced: false, text: lrc.trim(), source: 'lrc' };
+        }
+      } catch (e) {
+        console.warn("Failed to look for an .lrc file:", e);
+      }
+    }
+
+    if (!track.isRemote && !track.url.startsWith('blob:')) return null;
+    return metadataService.getEmbeddedLyrics(track);
+  }
+
+  /** Keeps lyrics timed in the app for this track, ahead of any found in Drive. */
+  public async saveEdited(track: Track, lines: LyricLine[]) {
+    const lyrics: Lyrics = { synced: true, lines: [...lines].sort((a, b) => a.time - b.time), source: 'edited' };
+    await libraryDb.putEditedLyrics(track.id, lyrics);
+    this.cache.set(this.key(track), Promise.resolve(lyrics));
+    this.listeners.forEach(listener => listener(track.id));
+  }
+
+  /** Drops lyrics timed in the app, going back to what Drive has. */
+  public async removeEdited(track: Track) {
+    await libraryDb.putEditedLyrics(track.id, null);
+    this.cache.delete(this.key(track));
+    this.listeners.forEach(listener => listener(track.id));
+  }
+}
+
+export const lyricsService = new LyricsService();
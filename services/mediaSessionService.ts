@@ -0,0 +1,119 @@
+import { PlayerState, Track } from "../types";
+import { PlaybackChange, PlaybackController } from "./playbackController";
+
+// What seek backward/forward jump by when the OS doesn't say
+const DEFAULT_SEEK_OFFSET_SECONDS = 10;
+// The OS extrapolates the position from the last update; only a jump this large needs a new one
+const POSITION_DRIFT_SECONDS = 1.5;
+
+const ACTIONS: MediaSessionAction[] = ['play', 'pause', 'previoustrack', 'nexttrack', 'seekto', 'seekbackward', 'seekforward'];
+
+/**
+ * Hooks the player up to the Media Session API, so hardware media keys, the lock screen and
+ * OS media overlays can control it and show what's playing.
+ */
+export class MediaSessionService {
+  private artwork: string | null = null;
+  private track: Track | null = null;
+  // The last position reported, and when, to tell a seek from ordinary playback
+  private reported: { position: number; at: number; rate: number } | null = null;
+
+  private get session(): MediaSession | null {
+    return typeof navigator !== 'undefined' && 'mediaSession' in navigator ? navigator.mediaSession : null;
+  }
+
+  public attach(controller: PlaybackController): () => void {
+    const session = this.session;
+    if (!session) return () => {};
+
+    const offset = (details: MediaSessionActionDetails) => details.seekOffset ?? DEFAULT_SEEK_OFFSET_SECONDS;
+    const handlers: Record<string, MediaSessionActionHandler> = {
+      play: () => { controller.play(); },
+      pause: () => { controller.pause(); },
+      previoustrack: () => controller.previous(),
+      nexttrack: () => controller.next(),
+      seekto: details => { if (details.seekTime !== undefined) controller.seek(details.seekTime); },
+      seekbackward: details => controller.skip(-offset(details)),
+      seekforward: details => controller.skip(offset(details)),
+    };
+    ACTIONS.forEach(action => {
+      try {
+        session.setActionHandler(action, handlers[action]);
+      } catch {
+        // Browsers throw for actions they don't support
+      }
+    });
+
+    const update = (state: PlayerState, change: PlaybackChange) => {
+      if (state.currentTrack !== this.track) {
+        this.track = state.currentTrack;
+        this.updateMetadata();
+      }
+      session.playbackState = state.currentTrack ? (state.isPlaying ? 'playing' : 'paused') : 'none';
+      if (change === 'state' || this.hasDrifted(state)) this.updatePosition(state);
+    };
+    update(controller.getState(), 'state');
+    const unsubscribe = controller.subscribe(change => {
+      if (change !== 'queue') update(controller.getState(), change);
+    });
+
+    return () => {
+      unsubscribe();
+      ACTIONS.forEach(action => {
+        try {
+          session.setActionHandler(action, null);
+        } catch {
+          // Not supported, so never set
+        }
+      });
+    };
+  }
+
+  /** Cover art read from the file, which is preferred over the track's own cover URL. */
+  public setArtwork(url: string | null) {
+    if (url === this.artwork) return;
+    this.artwork = url;
+    this.updateMetadata();
+  }
+
+  private updateMetadata() {
+    const session = this.session;
+    if (!session || typeof MediaMetadata === 'undefined') return;
+    const track = this.track;
+    if (!track) {
+      session.metadata = null;
+      return;
+    }
+    const src = this.artwork || track.coverArt;
+    session.metadata = new MediaMetadata({
+      title: track.name,
+      artist: track.artist,
+      album: track.album,
+      artwork: src ? [{ src }] : [],
+    });
+  }
+
+  private hasDrifted(state: PlayerState): boolean {
+    if (!this.reported) return true;
+    const elapsed = ((Date.now() - this.reported.at) / 1000) * this.reported.rate;
+    return Math.abs(this.reported.position + elapsed - state.currentTime) > POSITION_DRIFT_SECONDS;
+  }
+
+  private updatePosition(state: PlayerState) {
+    const session = this.session;
+    if (!session?.setPositionState) return;
+    const { duration, currentTime, playbackRate } = state;
+    this.reported = { position: currentTime, at: Date.now(), rate: state.isPlaying ? playbackRate : 0 };
+    try {
+      if (!state.currentTrack || !Number.isFinite(duration) || duration <= 0) {
+        session.setPositionState();
+        return;
+      }
+      session.setPositionState({ duration, playbackRate, position: Math.min(Math.max(0, currentTime), duration) });
+    } catch (e) {
+      console.warn("Failed to update media position:", e);
+    }
+  }
+}
+
+export const mediaSessionService = new MediaSessionService();
@@ -0,0 +1,255 @@
+import { AudioTags, Chapter, Lyrics, Track } from "../types";
+import { driveService } from "./googleDriveService";
+import { libraryDb } from "./libraryDb";
+import { isLrc, parseLrc } from "./lrcFormat";
+import type { TagWorkerRequest } from "./tagWorker";
+
+// Most tags fit in the first chunk; the parser asks for more when they don't
+const HEAD_BYTES = 256 * 1024;
+const MIN_FETCH_BYTES = 128 * 1024;
+const MAX_FETCH_ROUNDS = 32;
+// QuickTime chapter titles are stored between the audio frames, often a fetch apiece
+const MAX_CHAPTER_FETCH_ROUNDS = 160;
+const CONCURRENCY = 3;
+const FLUSH_INTERVAL_MS = 1000;
+
+type RangeReader = (start: number, end: number) => Promise<ArrayBuffer>;
+
+type WorkerReply =
+  | { id: number; status: 'done'; tags: AudioTags }
+  | { id: number; status: 'need'; offset: number; length: number }
+  | { id: number; status: 'error'; message: string };
+
+interface PendingJob {
+  read: RangeReader;
+  size: number;
+  rounds: number;
+  maxRounds: number;
+  resolve: (tags: AudioTags) => void;
+  reject: (error: Error) => void;
+}
+
+/** The file itself couldn't be parsed, as opposed to a network or auth failure. */
+export class TagParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TagParseError';
+  }
+}
+
+/** Maps parsed tags onto a track, keeping what the track already has for missing tags. */
+export const tagsToTrackFields = (track: Track, tags: AudioTags): Partial<Track> => ({
+  name: tags.title || track.name,
+  artist: tags.artist || tags.albumArtist || track.artist,
+  albumArtist: tags.albumArtist,
+  album: tags.album || track.album,
+  duration: tags.duration ? Math.round(tags.duration) : track.duration,
+  trackNumber: tags.trackNumber,
+  discNumber: tags.discNumber,
+  year: tags.year,
+  genre: tags.genre,
+  loudness: tags.loudness,
+  metadataLoaded: true,
+});
+
+/**
+ * Reads tags through a Web Worker, fetching only the byte ranges the parser asks for.
+ * Also works through the library in the background to fill in titles, artists and durations.
+ */
+export class MetadataService {
+  private worker: Worker | null = null;
+  private nextJobId = 1;
+  private jobs = new Map<number, PendingJob>();
+
+  private queue: Track[] = [];
+  private queued = new Set<string>();
+  private active = 0;
+  private updates = new Map<string, Partial<Track>>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(updates: Map<string, Partial<Track>>) => void>();
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./tagWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<WorkerReply>) => this.handleReply(event.data);
+      this.worker.onerror = (event) => this.handleWorkerFailure(new Error(`Tag worker failed: ${event.message || 'unknown error'}`));
+      this.worker.onmessageerror = () => this.handleWorkerFailure(new Error("Tag worker sent an unreadable message"));
+    }
+    return this.worker;
+  }
+
+  // A worker that failed to load or crashed never answers; fail its jobs so their slots free up
+  private handleWorkerFailure(error: Error) {
+    console.error(error);
+    this.worker?.terminate();
+    this.worker = null;
+    const jobs = [...this.jobs.values()];
+    this.jobs.clear();
+    jobs.forEach(job => job.reject(error));
+  }
+
+  private post(message: TagWorkerRequest, transfer: Transferable[] = []) {
+    this.getWorker().postMessage(message, transfer);
+  }
+
+  private fail(id: number, error: Error) {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    this.jobs.delete(id);
+    this.post({ type: 'cancel', id });
+    job.reject(error);
+  }
+
+  private async handleReply(reply: WorkerReply) {
+    const job = this.jobs.get(reply.id);
+    if (!job) return;
+
+    if (reply.status === 'done') {
+      this.jobs.delete(reply.id);
+      job.resolve(reply.tags);
+      return;
+    }
+    if (reply.status === 'error') {
+      this.jobs.delete(reply.id);
+      job.reject(new TagParseError(reply.message));
+      return;
+    }
+
+    if (++job.rounds > job.maxRounds) {
+      this.fail(reply.id, new TagParseError("Tag data too large"));
+      return;
+    }
+    const end = Math.min(job.size, reply.offset + Math.max(reply.length, MIN_FETCH_BYTES));
+    try {
+      const data = await job.read(reply.offset, end);
+      this.post({ type: 'more', id: reply.id, offset: reply.offset, data }, [data]);
+    } catch (e) {
+      this.fail(reply.id, e as Error);
+    }
+  }
+
+  private async openSource(track: Track): Promise<{ read: RangeReader; size: number }> {
+    // Offline copies and download fallbacks are already in memory
+    if (track.url.startsWith('blob:')) {
+      const blob = await (await fetch(track.url)).blob();
+      return { size: blob.size, read: (start, end) => blob.slice(start, end).arrayBuffer() };
+    }
+    if (track.isRemote && track.size) {
+      return { size: track.size, read: (start, end) => driveService.fetchRange(track.id, start, end) };
+    }
+    throw new Error("Track has no readable source");
+  }
+
+  public async readTags(track: Track, options: { withPicture?: boolean; withChapters?: boolean; withLyrics?: boolean } = {}): Promise<AudioTags> {
+    const { read, size } = await this.openSource(track);
+    const head = await read(0, Math.min(size, HEAD_BYTES));
+    const parseOptions = { withPicture: !!options.withPicture, withChapters: !!options.withChapters, withLyrics: !!options.withLyrics };
+    const maxRounds = options.withChapters ? MAX_CHAPTER_FETCH_ROUNDS : MAX_FETCH_ROUNDS;
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextJobId++;
+      this.jobs.set(id, { read, size, rounds: 0, maxRounds, resolve, reject });
+      this.post({ type: 'start', id, size, options: parseOptions, offset: 0, data: head }, [head]);
+    });
+  }
+
+  /** Embedded cover art, read once per file revision and kept in the library database. */
+  public async getCoverArt(track: Track): Promise<Blob | null> {
+    const cached = await libraryDb.getArt(track).catch(() => undefined);
+    if (cached !== undefined) return cached;
+
+    const tags = await this.readTags(track, { withPicture: true });
+    const art = tags.picture ? new Blob([tags.picture.data], { type: tags.picture.mimeType }) : null;
+    libraryDb.putArt(track, art).catch(e => console.warn("Failed to cache cover art:", e));
+    return art;
+  }
+
+  /** Chapter marks (MP4 chapters or ID3 CHAP frames), read on demand and kept like cover art. */
+  public async getChapters(track: Track): Promise<Chapter[]> {
+    const cached = await libraryDb.getChapters(track).catch(() => undefined);
+    if (cached !== undefined) return cached;
+
+    const tags = await this.readTags(track, { withChapters: true });
+    const chapters = tags.chapters || [];
+    libraryDb.putChapters(track, chapters).catch(e => console.warn("Failed to cache chapters:", e));
+    return chapters;
+  }
+
+  /** Lyrics from USLT/SYLT frames, Vorbis LYRICS or MP4 ©lyr, read on demand and kept like cover art. */
+  public async getEmbeddedLyrics(track: Track): Promise<Lyrics | null> {
+    const cached = await libraryDb.getLyrics(track).catch(() => undefined);
+    if (cached !== undefined) return cached;
+
+    const tags = await this.readTags(track, { withLyrics: true });
+    let lyrics: Lyrics | null = null;
+    if (tags.syncedLyrics?.length) {
+      lyrics = { synced: true, lines: tags.syncedLyrics, source: 'embedded' };
+    } else if (tags.lyrics && isLrc(tags.lyrics)) {
+      // Some taggers store LRC text in the plain lyrics tag
+      lyrics = { synced: true, lines: parseLrc(tags.lyrics), source: 'embedded' };
+    } else if (tags.lyrics) {
+      lyrics = { synced: false, text: tags.lyrics, source: 'embedded' };
+    }
+    libraryDb.putLyrics(track, lyrics).catch(e => console.warn("Failed to cache lyrics:", e));
+    return lyrics;
+  }
+
+  // --- Library Enrichment ---
+
+  public subscribe(listener: (updates: Map<string, Partial<Track>>) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** Queues Drive tracks whose tags haven't been read yet. */
+  public enrich(tracks: Track[]) {
+    for (const track of tracks) {
+      if (!track.isRemote || !track.size || track.metadataLoaded || this.queued.has(track.id)) continue;
+      this.queue.push(track);
+      this.queued.add(track.id);
+    }
+    this.pump();
+  }
+
+  private pump() {
+    while (this.active < CONCURRENCY && this.queue.length > 0) {
+      const track = this.queue.shift()!;
+      this.active++;
+
+      this.readTags(track)
+        .then(tags => this.addUpdate(track.id, tagsToTrackFields(track, tags)))
+        .catch(e => {
+          console.warn(`Failed to read tags for "${track.name}":`, e);
+          // Don't retry files we can't parse on every sync; network errors get another go
+          if (e instanceof TagParseError) this.addUpdate(track.id, { metadataLoaded: true });
+        })
+        .finally(() => {
+          this.active--;
+          this.queued.delete(track.id);
+          this.pump();
+          if (this.active === 0 && this.queue.length === 0) this.flush();
+        });
+    }
+  }
+
+  // Updates are delivered in batches so the library doesn't re-render per track
+  private addUpdate(trackId: string, fields: Partial<Track>) {
+    this.updates.set(trackId, fields);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  private flush() {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    if (this.updates.size === 0) return;
+
+    const updates = this.updates;
+    this.updates = new Map();
+    driveService.updateTracks(updates);
+    this.listeners.forEach(listener => listener(updates));
+  }
+}
+
+export const metadataService = new MetadataService();
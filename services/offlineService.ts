@@ -0,0 +1,373 @@
+import { Track } from "../types";
+import { driveService } from "./googleDriveService";
+import { streamService } from "./streamService";
+
+// The streaming worker (public/stream-sw.js) serves this cache under the same prefix
+const CACHE_NAME = 'nova-offline-audio-v1';
+const CACHE_PREFIX = '/offline-audio/';
+const STORAGE_KEY_PINS = 'nova_offline_pins';
+const STORAGE_KEY_SETTINGS = 'nova_offline_settings';
+
+const DEFAULT_LIMIT_BYTES = 2 * 1024 * 1024 * 1024;
+// Without the streaming worker copies are read into object URLs; playback prefetches the next
+// track, so those stay valid for a couple more calls
+const MAX_LOCAL_URLS = 3;
+
+export type OfflineStatus = 'queued' | 'downloading' | 'done' | 'error';
+export type EvictionPolicy = 'lru' | 'none';
+
+// A pin source records why a track is offline, e.g. 'track', 'folder:<id>' or 'playlist:<id>'
+export type PinSource = string;
+
+interface PinnedTrack {
+  id: string;
+  name: string;
+  size: number;
+  pinnedAt: number;
+  lastPlayedAt: number;
+  sources: PinSource[];
+  // The Drive revision that was downloaded; missing for pins made before revisions were kept
+  revision?: string;
+}
+
+interface DownloadItem {
+  track: Track;
+  sources: PinSource[];
+}
+
+export interface OfflineSettings {
+  limitBytes: number;
+  eviction: EvictionPolicy;
+}
+
+export interface OfflineUsage {
+  pinnedBytes: number;
+  pinnedCount: number;
+  limitBytes: number;
+  browserUsage: number | null;
+  browserQuota: number | null;
+}
+
+export class StorageLimitError extends Error {
+  constructor() {
+    super("Offline storage limit reached");
+    this.name = 'StorageLimitError';
+  }
+}
+
+/**
+ * Keeps full copies of pinned tracks in Cache Storage so they play without a network.
+ * Pin bookkeeping lives in localStorage; the audio itself lives in the cache.
+ */
+export class OfflineService {
+  private pins: Record<string, PinnedTrack> = {};
+  private settings: OfflineSettings = { limitBytes: DEFAULT_LIMIT_BYTES, eviction: 'lru' };
+  private pending = new Map<string, OfflineStatus>();
+  private queue: DownloadItem[] = [];
+  private activeItem: DownloadItem | null = null;
+  private listeners = new Set<() => void>();
+  private localUrls: string[] = [];
+
+  constructor() {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      this.pins = JSON.parse(localStorage.getItem(STORAGE_KEY_PINS) || '{}');
+      this.settings = { ...this.settings, ...JSON.parse(localStorage.getItem(STORAGE_KEY_SETTINGS) || '{}') };
+    } catch (e) {
+      console.warn("Discarding unreadable offline pins:", e);
+    }
+  }
+
+  private get isSupported(): boolean {
+    return typeof caches !== 'undefined';
+  }
+
+  private cacheKey(trackId: string): string {
+    return `${CACHE_PREFIX}${encodeURIComponent(trackId)}`;
+  }
+
+  private savePins() {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY_PINS, JSON.stringify(this.pins));
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // --- Status ---
+
+  public getStatus(trackId: string): OfflineStatus | null {
+    if (this.pending.has(trackId)) return this.pending.get(trackId)!;
+    return this.pins[trackId] ? 'done' : null;
+  }
+
+  public isPinned(trackId: string): boolean {
+    return !!this.pins[trackId];
+  }
+
+  public hasSource(source: PinSource): boolean {
+    return Object.values(this.pins).some(pin => pin.sources.includes(source))
+      || this.queue.some(item => item.sources.includes(source))
+      || !!this.activeItem?.sources.includes(source);
+  }
+
+  // --- Pinning ---
+
+  public pinTracks(tracks: Track[], source: PinSource = 'track') {
+    if (!this.isSupported) return;
+
+    let changed = false;
+    for (const track of tracks) {
+      if (!track.isRemote) continue;
+      const existing = this.pins[track.id]
+        || (this.activeItem?.track.id === track.id ? this.activeItem : undefined)
+        || this.queue.find(item => item.track.id === track.id);
+      if (existing) {
+        if (!existing.sources.includes(source)) {
+          existing.sources.push(source);
+          changed = true;
+        }
+      } else {
+        this.queue.push({ track, sources: [source] });
+        this.pending.set(track.id, 'queued');
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.savePins();
+      this.notify();
+    }
+    this.requestPersistence();
+    this.processQueue();
+  }
+
+  /** Drops a pin source; tracks left without any source are removed from the cache. */
+  public async unpinTracks(tracks: Track[], source: PinSource = 'track') {
+    const ids = new Set(tracks.map(t => t.id));
+    const dropSource = (item: { sources: PinSource[] }) => {
+      item.sources = item.sources.filter(s => s !== source);
+    };
+
+    this.queue.forEach(item => ids.has(item.track.id) && dropSource(item));
+    this.queue = this.queue.filter(item => {
+      if (item.sources.length > 0) return true;
+      this.pending.delete(item.track.id);
+      return false;
+    });
+    if (this.activeItem && ids.has(this.activeItem.track.id)) dropSource(this.activeItem);
+
+    const orphaned: string[] = [];
+    ids.forEach(id => {
+      const pin = this.pins[id];
+      if (!pin) return;
+      dropSource(pin);
+      if (pin.sources.length === 0) orphaned.push(id);
+    });
+
+    await this.removeFromCache(orphaned);
+    this.notify();
+  }
+
+  /**
+   * Reconciles pins with a freshly synced library: copies of files deleted from Drive are removed,
+   * and files replaced since they were downloaded are downloaded again for the same pins.
+   */
+  public async pruneLibrary(tracks: Track[]) {
+    const byId = new Map(tracks.map(t => [t.id, t]));
+    const queued = this.queue.length;
+    this.queue = this.queue.filter(item => {
+      if (byId.has(item.track.id)) return true;
+      this.pending.delete(item.track.id);
+      return false;
+    });
+
+    const stale = Object.values(this.pins).filter(pin => {
+      const track = byId.get(pin.id);
+      return !track || (!!pin.revision && !!track.revision && pin.revision !== track.revision);
+    });
+    if (stale.length === 0 && this.queue.length === queued) return;
+
+    const replaced = stale.filter(pin => byId.has(pin.id)).map(pin => ({ track: byId.get(pin.id)!, sources: pin.sources }));
+    await this.removeFromCache(stale.map(pin => pin.id));
+    replaced.forEach(item => {
+      this.queue.push(item);
+      this.pending.set(item.track.id, 'queued');
+    });
+    this.notify();
+    this.processQueue();
+  }
+
+  public async clearAll() {
+    if (this.activeItem) this.activeItem.sources = [];
+    this.queue = [];
+    this.pending.clear();
+    this.pins = {};
+    this.savePins();
+    if (this.isSupported) await caches.delete(CACHE_NAME);
+    this.notify();
+  }
+
+  private async removeFromCache(ids: string[]) {
+    if (ids.length === 0) return;
+    const cache = await caches.open(CACHE_NAME);
+    await Promise.all(ids.map(id => {
+      delete this.pins[id];
+      return cache.delete(this.cacheKey(id));
+    }));
+    this.savePins();
+  }
+
+  private async requestPersistence() {
+    try {
+      if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+        await navigator.storage.persist();
+      }
+    } catch (e) {
+      console.warn("Persistent storage request failed:", e);
+    }
+  }
+
+  private async processQueue() {
+    if (this.activeItem) return;
+
+    try {
+      while (this.queue.length > 0) {
+        const item = this.queue.shift()!;
+        this.activeItem = item;
+        this.pending.set(item.track.id, 'downloading');
+        this.notify();
+
+        try {
+          await this.download(item);
+          this.pending.delete(item.track.id);
+        } catch (e) {
+          console.error(`Failed to download "${item.track.name}" for offline use:`, e);
+          this.pending.set(item.track.id, 'error');
+        }
+        this.notify();
+      }
+    } finally {
+      this.activeItem = null;
+    }
+  }
+
+  private async download(item: DownloadItem) {
+    const { track } = item;
+    const blob = await driveService.downloadFile(track.id);
+    await this.makeRoom(blob.size, track.id);
+
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(this.cacheKey(track.id), new Response(blob, {
+      headers: {
+        'Content-Type': blob.type || track.mimeType,
+        'Content-Length': blob.size.toString(),
+      },
+    }));
+
+    // Everything that wanted this track was unpinned while it downloaded
+    if (item.sources.length === 0) {
+      await cache.delete(this.cacheKey(track.id));
+      return;
+    }
+
+    const now = Date.now();
+    this.pins[track.id] = { id: track.id, name: track.name, size: blob.size, pinnedAt: now, lastPlayedAt: now, sources: item.sources, revision: track.revision };
+    this.savePins();
+  }
+
+  // Evicts the least recently played pins until `bytes` more fit under the limit
+  private async makeRoom(bytes: number, incomingId: string) {
+    const used = Object.values(this.pins).reduce((sum, pin) => sum + pin.size, 0);
+    const overflow = used + bytes - this.settings.limitBytes;
+    if (overflow <= 0) return;
+    if (this.settings.eviction === 'none') throw new StorageLimitError();
+
+    const candidates = Object.values(this.pins)
+      .filter(pin => pin.id !== incomingId)
+      .sort((a, b) => a.lastPlayedAt - b.lastPlayedAt);
+
+    const evicted: string[] = [];
+    let freed = 0;
+    while (freed < overflow) {
+      const next = candidates.shift();
+      if (!next) throw new StorageLimitError();
+      evicted.push(next.id);
+      freed += next.size;
+    }
+    await this.removeFromCache(evicted);
+  }
+
+  // --- Playback ---
+
+  /**
+   * Returns a URL for the local copy of a track, or null if it isn't cached. The streaming worker
+   * serves it from the cache with Range requests; without the worker it's read into an object URL.
+   */
+  public async getLocalUrl(trackId: string): Promise<string | null> {
+    const pin = this.pins[trackId];
+    if (!pin || !this.isSupported) return null;
+
+    const cache = await caches.open(CACHE_NAME);
+    const response = await cache.match(this.cacheKey(trackId));
+    if (!response) {
+      // The browser evicted our cache behind our back
+      delete this.pins[trackId];
+      this.savePins();
+      this.notify();
+      return null;
+    }
+
+    pin.lastPlayedAt = Date.now();
+    this.savePins();
+
+    if (await streamService.isActive()) return this.cacheKey(trackId);
+    const url = URL.createObjectURL(await response.blob());
+    this.localUrls = [...this.localUrls, url];
+    while (this.localUrls.length > MAX_LOCAL_URLS) URL.revokeObjectURL(this.localUrls.shift()!);
+    return url;
+  }
+
+  // --- Settings & Usage ---
+
+  public getSettings(): OfflineSettings {
+    return { ...this.settings };
+  }
+
+  public updateSettings(settings: Partial<OfflineSettings>) {
+    this.settings = { ...this.settings, ...settings };
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(this.settings));
+    }
+    this.notify();
+  }
+
+  public async getUsage(): Promise<OfflineUsage> {
+    const pins = Object.values(this.pins);
+    let browserUsage: number | null = null;
+    let browserQuota: number | null = null;
+    try {
+      const estimate = await navigator.storage?.estimate();
+      browserUsage = estimate?.usage ?? null;
+      browserQuota = estimate?.quota ?? null;
+    } catch (e) {
+      console.warn("Storage estimate unavailable:", e);
+    }
+
+    return {
+      pinnedBytes: pins.reduce((sum, pin) => sum + pin.size, 0),
+      pinnedCount: pins.length,
+      limitBytes: this.settings.limitBytes,
+      browserUsage,
+      browserQuota,
+    };
+  }
+}
+
+export const offlineService = new OfflineService();
@@ -0,0 +1,519 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PlaybackController, PlaybackEngine } from './playbackController';
+import { Track } from '../types';
+
+const makeTrack = (id: string): Track => ({
+  id,
+  name: `Track ${id}`,
+  artist: 'Artist',
+  album: 'Album',
+  duration: 180,
+  url: `https://example.com/${id}.mp3`,
+  coverArt: '',
+  mimeType: 'audio/mpeg',
+});
+
+const makeEngine = () => ({
+  load: vi.fn(),
+  preload: vi.fn(),
+  play: vi.fn(() => Promise.resolve()),
+  pause: vi.fn(),
+  seek: vi.fn(),
+  setVolume: vi.fn(),
+  setRate: vi.fn(),
+  fadeTo: vi.fn(),
+}) satisfies PlaybackEngine;
+
+// Loading resolves the source asynchronously; let those promises settle
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const ids = (tracks: Track[]) => tracks.map(t => t.id);
+const currentId = (controller: PlaybackController) => controller.getState().currentTrack?.id;
+
+describe('PlaybackController', () => {
+  const tracks = ['a', 'b', 'c', 'd', 'e'].map(makeTrack);
+  let controller: PlaybackController;
+  let engine: ReturnType<typeof makeEngine>;
+
+  beforeEach(() => {
+    controller = new PlaybackController();
+    engine = makeEngine();
+    controller.attach(engine);
+    controller.setLibrary(tracks);
+  });
+
+  describe('playing a list', () => {
+    it('starts at the chosen track and plays the rest in order', async () => {
+      controller.playTracks(tracks, { startTrack: tracks[2] });
+      await settle();
+      expect(currentId(controller)).toBe('c');
+      expect(controller.getState().isPlaying).toBe(true);
+      expect(ids(controller.getUpcoming())).toEqual(['d', 'e']);
+
+      controller.next();
+      await settle();
+      expect(currentId(controller)).toBe('d');
+    });
+
+    it('cues a track without fetching it until it is played', async () => {
+      const resolve = vi.fn(async (track: Track) => track);
+      controller.setSourceResolver(resolve);
+      controller.cue(tracks[0]);
+      await settle();
+      expect(currentId(controller)).toBe('a');
+      expect(resolve).not.toHaveBeenCalled();
+      expect(engine.play).not.toHaveBeenCalled();
+
+      await controller.play();
+      expect(engine.load).toHaveBeenCalledWith(tracks[0]);
+      expect(controller.getState().isPlaying).toBe(true);
+    });
+
+    it('ignores a track that finishes resolving after a newer choice', async () => {
+      let release: (track: Track) => void = () => {};
+      controller.setSourceResolver(track => track.id === 'a'
+        ? new Promise(resolve => { release = resolve; })
+        : Promise.resolve(track));
+
+      controller.playTracks(tracks);
+      controller.next();
+      await settle();
+      release(tracks[0]);
+      await settle();
+      expect(currentId(controller)).toBe('b');
+    });
+
+    it('reports a track whose source fails to resolve and retries it on play', async () => {
+      let fail = true;
+      controller.setSourceResolver(async track => {
+        if (track.id === 'b' && fail) throw new Error('Network down');
+        return track;
+      });
+      controller.playTracks(tracks);
+      await settle();
+      controller.handleEnded();
+      await settle();
+      expect(controller.getState()).toMatchObject({ isPlaying: false, error: 'Failed to load audio source.' });
+      expect(currentId(controller)).toBe('b');
+      expect(ids(controller.getHistory().map(e => e.track))).toEqual(['a']);
+
+      fail = false;
+      await controller.play();
+      expect(engine.load).toHaveBeenLastCalledWith(tracks[1]);
+      expect(controller.getState()).toMatchObject({ isPlaying: true, error: null });
+    });
+
+    it('resolves the source again when play is pressed after a failed resolve', async () => {
+      const resolve = vi.fn(async (track: Track) => {
+        if (resolve.mock.calls.length === 1) throw new Error('Network down');
+        return { ...track, url: `blob:${track.id}` };
+      });
+      controller.setSourceResolver(resolve);
+      controller.playTracks(tracks);
+      await settle();
+      expect(controller.getState().error).toBe('Failed to load audio source.');
+      expect(engine.load).not.toHaveBeenCalled();
+
+      await controller.togglePlay();
+      expect(resolve).toHaveBeenCalledTimes(2);
+      expect(engine.load).toHaveBeenCalledWith({ ...tracks[0], url: 'blob:a' });
+      expect(controller.getState()).toMatchObject({ isPlaying: true, error: null });
+    });
+
+    it('reloads a source the engine failed on when play is pressed', async () => {
+      controller.playTracks(tracks);
+      await settle();
+      controller.handleError('Failed to load audio source.');
+      expect(controller.getState().isPlaying).toBe(false);
+
+      await controller.togglePlay();
+      expect(engine.load).toHaveBeenCalledTimes(2);
+      expect(controller.getState()).toMatchObject({ isPlaying: true, error: null });
+    });
+
+    it('keeps quiet about a failed track once another was chosen', async () => {
+      let reject: (error: Error) => void = () => {};
+      controller.setSourceResolver(track => track.id === 'a'
+        ? new Promise((_, fail) => { reject = fail; })
+        : Promise.resolve(track));
+
+      controller.playTracks(tracks);
+      controller.next();
+      await settle();
+      reject(new Error('Network down'));
+      await settle();
+      expect(currentId(controller)).toBe('b');
+      expect(controller.getState().error).toBeNull();
+    });
+  });
+
+  describe('repeat', () => {
+    it("stops at the end of the list with repeat 'none'", async () => {
+      controller.playTracks(tracks, { startTrack: tracks[4] });
+      await settle();
+
+      controller.handleEnded();
+      await settle();
+      expect(currentId(controller)).toBe('e');
+      expect(controller.getState().isPlaying).toBe(false);
+      expect(engine.pause).toHaveBeenCalled();
+      expect(engine.seek).toHaveBeenLastCalledWith(0);
+    });
+
+    it("wraps to the top with repeat 'all'", async () => {
+      controller.cycleRepeat();
+      expect(controller.getState().repeat).toBe('all');
+      controller.playTracks(tracks, { startTrack: tracks[4] });
+      await settle();
+      expect(ids(controller.getUpcoming())).toEqual(['a', 'b', 'c', 'd', 'e']);
+
+      controller.handleEnded();
+      await settle();
+      expect(currentId(controller)).toBe('a');
+      expect(controller.getState().isPlaying).toBe(true);
+    });
+
+    it("replays the same track when it ends with repeat 'one'", async () => {
+      controller.cycleRepeat();
+      controller.cycleRepeat();
+      expect(controller.getState().repeat).toBe('one');
+      controller.playTracks(tracks, { startTrack: tracks[1] });
+      await settle();
+      engine.play.mockClear();
+
+      controller.handleEnded();
+      await settle();
+      expect(currentId(controller)).toBe('b');
+      expect(engine.seek).toHaveBeenLastCalledWith(0);
+      expect(engine.play).toHaveBeenCalledTimes(1);
+    });
+
+    it("still skips ahead on Next with repeat 'one'", async () => {
+      controller.cycleRepeat();
+      controller.cycleRepeat();
+      controller.playTracks(tracks);
+      await settle();
+
+      controller.next();
+      await settle();
+      expect(currentId(controller)).toBe('b');
+    });
+
+    it('pauses at the end of the track when asked to stop after it', async () => {
+      controller.playTracks(tracks);
+      await settle();
+      controller.setStopAfterTrack(true);
+      controller.handleTimeUpdate(160);
+      controller.handleTimeUpdate(179.75);
+      await settle();
+      expect(engine.preload).not.toHaveBeenCalled();
+
+      controller.handleEnded();
+      await settle();
+      expect(currentId(controller)).toBe('a');
+      expect(controller.getState()).toMatchObject({ isPlaying: false, stopAfterTrack: false });
+    });
+
+    it('cycles none → all → one → none', () => {
+      const seen = [0, 1, 2].map(() => {
+        controller.cycleRepeat();
+        return controller.getState().repeat;
+      });
+      expect(seen).toEqual(['all', 'one', 'none']);
+    });
+  });
+
+  describe('shuffle', () => {
+    it('keeps the current track playing and first in the new order', async () => {
+      controller.playTracks(tracks, { startTrack: tracks[2] });
+      await settle();
+      engine.load.mockClear();
+
+      controller.toggleShuffle();
+      expect(controller.getState().shuffle).toBe(true);
+      expect(currentId(controller)).toBe('c');
+      expect(engine.load).not.toHaveBeenCalled();
+
+      const upcoming = ids(controller.getUpcoming());
+      expect(upcoming).toHaveLength(4);
+      expect(upcoming).not.toContain('c');
+      expect([...upcoming].sort()).toEqual(['a', 'b', 'd', 'e']);
+    });
+
+    it('returns to list order after the current track when turned off', async () => {
+      controller.playTracks(tracks, { startTrack: tracks[1] });
+      await settle();
+      controller.toggleShuffle();
+      controller.toggleShuffle();
+
+      expect(currentId(controller)).toBe('b');
+      expect(ids(controller.getUpcoming())).toEqual(['c', 'd', 'e']);
+    });
+
+    it('plays every track once before the end of the list', async () => {
+      controller.playTracks(tracks, { shuffle: true });
+      await settle();
+      const played = [currentId(controller)];
+      for (let i = 0; i < tracks.length - 1; i++) {
+        controller.next();
+        await settle();
+        played.push(currentId(controller));
+      }
+      expect([...played].sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+
+      controller.handleEnded();
+      await settle();
+      expect(controller.getState().isPlaying).toBe(false);
+    });
+  });
+
+  describe('previous', () => {
+    it('restarts the track when more than a few seconds in', async () => {
+      controller.playTracks(tracks, { startTrack: tracks[2] });
+      await settle();
+      controller.handleTimeUpdate(42);
+
+      controller.previous();
+      await settle();
+      expect(currentId(controller)).toBe('c');
+      expect(engine.seek).toHaveBeenLastCalledWith(0);
+    });
+
+    it('walks back through history near the start of a track', async () => {
+      controller.playTracks(tracks);
+      await settle();
+      controller.next();
+      await settle();
+      controller.next();
+      await settle();
+      controller.handleTimeUpdate(1);
+
+      controller.previous();
+      await settle();
+      expect(currentId(controller)).toBe('b');
+      controller.previous();
+      await settle();
+      expect(currentId(controller)).toBe('a');
+    });
+
+    it('continues the list from where Previous went back to', async () => {
+      controller.playTracks(tracks);
+      await settle();
+      controller.next();
+      await settle();
+      controller.previous();
+      await settle();
+
+      controller.next();
+      await settle();
+      expect(currentId(controller)).toBe('b');
+    });
+  });
+
+  describe('queue', () => {
+    it('plays queued tracks before the rest of the list', async () => {
+      controller.playTracks(tracks);
+      await settle();
+      controller.addToQueue([tracks[4]]);
+      controller.playNext([tracks[3]]);
+      expect(ids(controller.getQueue())).toEqual(['d', 'e']);
+
+      controller.next();
+      await settle();
+      expect(currentId(controller)).toBe('d');
+      controller.next();
+      await settle();
+      expect(currentId(controller)).toBe('e');
+      // Queued tracks don't move the place in the list
+      controller.next();
+      await settle();
+      expect(currentId(controller)).toBe('b');
+    });
+
+    it('puts a queued track back in the queue when stepping back from it', async () => {
+      controller.playTracks(tracks);
+      await settle();
+      controller.addToQueue([tracks[4]]);
+      controller.next();
+      await settle();
+
+      controller.previous();
+      await settle();
+      expect(currentId(controller)).toBe('a');
+      expect(ids(controller.getQueue())).toEqual(['e']);
+    });
+
+    it('reorders, removes and jumps within the queue', async () => {
+      controller.playTracks(tracks);
+      await settle();
+      controller.addToQueue([tracks[2], tracks[3], tracks[4]]);
+
+      controller.moveInQueue(2, 0);
+      expect(ids(controller.getQueue())).toEqual(['e', 'c', 'd']);
+      controller.removeFromQueue(1);
+      expect(ids(controller.getQueue())).toEqual(['e', 'd']);
+
+      controller.playQueued(1);
+      await settle();
+      expect(currentId(controller)).toBe('d');
+      expect(controller.getQueue()).toEqual([]);
+    });
+
+    it('keeps going after the queue when the list has ended', async () => {
+      controller.playTracks(tracks, { startTrack: tracks[4] });
+      await settle();
+      controller.addToQueue([tracks[0]]);
+
+      controller.handleEnded();
+      await settle();
+      expect(currentId(controller)).toBe('a');
+      expect(controller.getState().isPlaying).toBe(true);
+    });
+  });
+
+  describe('transitions', () => {
+    const album = [1, 2].map(n => ({ ...makeTrack(`live${n}`), album: 'Live at the Roxy', trackNumber: n }));
+
+    it('fetches the next track only near the end of the current one', async () => {
+      const resolve = vi.fn(async (track: Track) => track);
+      controller.setSourceResolver(resolve);
+      controller.playTracks(tracks);
+      await settle();
+
+      controller.handleTimeUpdate(100);
+      expect(resolve).toHaveBeenCalledTimes(1);
+      controller.handleTimeUpdate(160);
+      await settle();
+      expect(resolve).toHaveBeenLastCalledWith(tracks[1]);
+      expect(engine.preload).toHaveBeenCalledWith(tracks[1]);
+    });
+
+    it('crossfades into the next track', async () => {
+      controller.setCrossfade(6);
+      controller.playTracks(tracks);
+      await settle();
+      controller.handleTimeUpdate(160);
+      await settle();
+      engine.play.mockClear();
+
+      controller.handleTimeUpdate(174);
+      expect(engine.load).toHaveBeenLastCalledWith(tracks[1], { delay: 0, fade: 6 });
+      expect(currentId(controller)).toBe('b');
+      expect(controller.getState().isPlaying).toBe(true);
+      // The engine starts the incoming track itself
+      expect(engine.play).not.toHaveBeenCalled();
+    });
+
+    it('plays consecutive album tracks back to back without fading', async () => {
+      controller.setCrossfade(6);
+      controller.playTracks(album);
+      await settle();
+      controller.handleTimeUpdate(160);
+      await settle();
+
+      controller.handleTimeUpdate(174);
+      expect(currentId(controller)).toBe('live1');
+      controller.handleTimeUpdate(179.75);
+      expect(engine.load).toHaveBeenLastCalledWith(album[1], { delay: 0.25, fade: 0 });
+    });
+
+    it("leaves repeat 'one' to replay the track when it ends", async () => {
+      controller.cycleRepeat();
+      controller.cycleRepeat();
+      controller.playTracks(tracks);
+      await settle();
+      engine.load.mockClear();
+
+      controller.handleTimeUpdate(160);
+      controller.handleTimeUpdate(179.75);
+      await settle();
+      expect(engine.load).not.toHaveBeenCalled();
+      expect(engine.preload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('playback profiles', () => {
+    it('resumes a track at its saved position and speed', async () => {
+      controller.setProfileResolver(track => (track.id === 'b' ? { startAt: 95, rate: 1.5 } : { startAt: 0, rate: 1 }));
+      controller.playTracks(tracks, { startTrack: tracks[1] });
+      await settle();
+      expect(engine.seek).toHaveBeenLastCalledWith(95);
+      expect(engine.setRate).toHaveBeenLastCalledWith(1.5);
+      expect(controller.getState()).toMatchObject({ currentTime: 95, playbackRate: 1.5 });
+
+      controller.next();
+      await settle();
+      expect(engine.setRate).toHaveBeenLastCalledWith(1);
+    });
+
+    it('skips within the track without going past either end', async () => {
+      controller.playTracks(tracks);
+      await settle();
+      controller.handleTimeUpdate(10);
+
+      controller.skip(-15);
+      expect(engine.seek).toHaveBeenLastCalledWith(0);
+      controller.handleTimeUpdate(170);
+      controller.skip(30);
+      expect(engine.seek).toHaveBeenLastCalledWith(180);
+    });
+
+    it("doesn't crossfade into a track that resumes part way in", async () => {
+      controller.setCrossfade(6);
+      controller.setProfileResolver(track => ({ startAt: track.id === 'b' ? 60 : 0, rate: 1 }));
+      controller.playTracks(tracks);
+      await settle();
+      controller.handleTimeUpdate(160);
+      await settle();
+      engine.load.mockClear();
+
+      controller.handleTimeUpdate(179.75);
+      expect(engine.load).not.toHaveBeenCalled();
+      controller.handleEnded();
+      await settle();
+      expect(engine.load).toHaveBeenLastCalledWith(tracks[1]);
+      expect(engine.seek).toHaveBeenLastCalledWith(60);
+    });
+  });
+
+  describe('volume', () => {
+    it('mutes and restores the previous volume', () => {
+      controller.setVolume(0.35);
+      controller.toggleMute();
+      expect(controller.getState().volume).toBe(0);
+      expect(engine.setVolume).toHaveBeenLastCalledWith(0);
+
+      controller.toggleMute();
+      expect(controller.getState().volume).toBe(0.35);
+    });
+  });
+
+  describe('library updates', () => {
+    it('swaps in updated tracks but keeps the playing URL', async () => {
+      controller.setSourceResolver(async track => ({ ...track, url: `blob:${track.id}` }));
+      controller.playLibraryTrack(tracks[0]);
+      await settle();
+
+      const retagged = tracks.map(t => ({ ...t, name: `${t.name} (tagged)` }));
+      controller.refreshTracks(retagged);
+      expect(controller.getState().currentTrack).toMatchObject({ name: 'Track a (tagged)', url: 'blob:a' });
+    });
+
+    it('drops queued tracks whose files are gone', () => {
+      controller.addToQueue([tracks[1], tracks[2]]);
+      controller.refreshTracks(tracks.filter(t => t.id !== 'b'));
+      expect(ids(controller.getQueue())).toEqual(['c']);
+    });
+
+    it('unloads the current track when nothing is left to play', async () => {
+      controller.playLibraryTrack(tracks[0]);
+      await settle();
+      controller.unload();
+      expect(controller.getState()).toMatchObject({ currentTrack: null, isPlaying: false, currentTime: 0 });
+      expect(engine.pause).toHaveBeenCalled();
+
+      await controller.play();
+      expect(engine.load).toHaveBeenCalledTimes(1);
+    });
+  });
+});
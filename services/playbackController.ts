@@ -0,0 +1,640 @@
+import { PlayerState, Track } from "../types";
+import { UNKNOWN_ALBUM } from "../constants";
+
+const STORAGE_KEY_CROSSFADE = 'nova_crossfade';
+const MAX_HISTORY = 200;
+// Previous restarts the track instead of going back once this far in, like most players
+const RESTART_THRESHOLD_SECONDS = 3;
+// Remote tracks can take a while to fetch, so the next one is resolved well before it's due
+const PREFETCH_LEAD_SECONDS = 30;
+// Time updates arrive about every 250 ms; hand over early enough to catch the end of the track
+const GAPLESS_LEAD_SECONDS = 0.5;
+export const MAX_CROSSFADE_SECONDS = 12;
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 3;
+
+/**
+ * How the next track takes over: it fades in over `fade` seconds, or without a fade starts when the
+ * current one ends, which `delay` estimates in seconds.
+ */
+export interface Transition {
+  delay: number;
+  fade: number;
+}
+
+/** What the controller needs from an audio output; Player adapts its <audio> elements to it. */
+export interface PlaybackEngine {
+  // With a transition the engine starts the track itself while the current one plays out
+  load(track: Track, transition?: Transition): void;
+  // Buffers a track that's likely to play next
+  preload?(track: Track): void;
+  play(): Promise<void>;
+  pause(): void;
+  seek(time: number): void;
+  setVolume(volume: number): void;
+  // Speed of the current track, keeping its pitch
+  setRate(rate: number): void;
+  // Ramps the output level, on top of the volume, from where it is to `level`
+  fadeTo(level: number, seconds: number): void;
+}
+
+/** Turns a library track into one with a playable URL, e.g. an offline copy or an authorized blob. */
+export type SourceResolver = (track: Track) => Promise<Track>;
+
+/** Where a track starts and how fast it plays, e.g. an audiobook resuming at its saved position. */
+export interface PlaybackProfile {
+  startAt: number;
+  rate: number;
+}
+
+export type ProfileResolver = (track: Track) => PlaybackProfile;
+
+const DEFAULT_PROFILE: PlaybackProfile = { startAt: 0, rate: 1 };
+
+// 'time' fires on every position update, so listeners that only show the track can skip it
+export type PlaybackChange = 'state' | 'time' | 'queue';
+
+// Whether a played track came from the user's queue decides where Previous puts it back
+export interface HistoryEntry {
+  track: Track;
+  fromQueue: boolean;
+}
+
+interface Prefetch {
+  track: Track;
+  source: Track | null;
+}
+
+// Consecutive tracks of one album (live sets, DJ mixes split into files) run straight into each other
+const continuesAlbum = (current: Track, next: Track) => {
+  if (!current.album || current.album === UNKNOWN_ALBUM || current.album !== next.album) return false;
+  if ((current.albumArtist || current.artist) !== (next.albumArtist || next.artist)) return false;
+  if (current.trackNumber === undefined || next.trackNumber === undefined) return false;
+  const sameDisc = (current.discNumber || 1) === (next.discNumber || 1);
+  return sameDisc
+    ? next.trackNumber === current.trackNumber + 1
+    : next.discNumber === (current.discNumber || 1) + 1 && next.trackNumber === 1;
+};
+
+const shuffled = (tracks: Track[]) => {
+  const result = [...tracks];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Owns what is playing and what plays next, independent of React. Tracks come from a list
+ * (a folder, album, playlist or the whole library) played in order or shuffled, with tracks
+ * the user queued ("Play next", "Add to queue") slotted in before the rest of the list.
+ */
+export class PlaybackController {
+  private state: PlayerState = {
+    currentTrack: null,
+    isPlaying: false,
+    volume: 0.8,
+    currentTime: 0,
+    duration: 0,
+    repeat: 'none',
+    shuffle: false,
+    crossfade: 0,
+    playbackRate: 1,
+    stopAfterTrack: false,
+    error: null,
+  };
+
+  private library: Track[] = [];
+  // null while playing the whole library, which follows library changes
+  private list: Track[] | null = null;
+  private order: Track[] = [];
+  // Index in `order` of the list track last played; queued tracks don't move it
+  private position = -1;
+  private fromQueue = false;
+  // A cued track is shown but only fetched once it's played
+  private needsLoad = false;
+  private queue: Track[] = [];
+  private history: HistoryEntry[] = [];
+  private prefetch: Prefetch | null = null;
+
+  private engine: PlaybackEngine | null = null;
+  private resolveSource: SourceResolver = async track => track;
+  private resolveProfile: ProfileResolver = () => DEFAULT_PROFILE;
+  private pendingPlay: Promise<void> | null = null;
+  // What unmuting goes back to
+  private volumeBeforeMute: number | null = null;
+  private loadToken = 0;
+  private listeners = new Set<(change: PlaybackChange) => void>();
+
+  constructor() {
+    if (typeof localStorage === 'undefined') return;
+    const crossfade = parseFloat(localStorage.getItem(STORAGE_KEY_CROSSFADE) || '');
+    if (Number.isFinite(crossfade)) this.state.crossfade = Math.min(MAX_CROSSFADE_SECONDS, Math.max(0, crossfade));
+  }
+
+  private emit(change: PlaybackChange) {
+    this.listeners.forEach(listener => listener(change));
+  }
+
+  private setState(patch: Partial<PlayerState>, change: PlaybackChange = 'state') {
+    this.state = { ...this.state, ...patch };
+    this.emit(change);
+  }
+
+  public subscribe(listener: (change: PlaybackChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public getState(): PlayerState {
+    return this.state;
+  }
+
+  public getQueue(): Track[] {
+    return this.queue;
+  }
+
+  /** Most recently played first. */
+  public getHistory(): HistoryEntry[] {
+    return [...this.history].reverse();
+  }
+
+  /** List tracks that play once the queue is empty, wrapping around when repeating everything. */
+  public getUpcoming(): Track[] {
+    const rest = this.order.slice(this.position + 1);
+    return this.state.repeat === 'all' ? [...rest, ...this.order.slice(0, this.position + 1)] : rest;
+  }
+
+  // --- Wiring ---
+
+  /** Connects the audio output. Returns a function that disconnects it again. */
+  public attach(engine: PlaybackEngine): () => void {
+    this.engine = engine;
+    engine.setVolume(this.state.volume);
+    if (this.state.currentTrack && !this.needsLoad) {
+      engine.load(this.state.currentTrack);
+      engine.setRate(this.state.playbackRate);
+    }
+    return () => {
+      if (this.engine === engine) this.engine = null;
+    };
+  }
+
+  public setSourceResolver(resolver: SourceResolver) {
+    this.resolveSource = resolver;
+  }
+
+  public setProfileResolver(resolver: ProfileResolver) {
+    this.resolveProfile = resolver;
+  }
+
+  /** The tracks played when no specific list was chosen. */
+  public setLibrary(tracks: Track[]) {
+    this.library = tracks;
+    if (this.list === null) this.rebuildOrder(tracks);
+  }
+
+  /**
+   * Swaps in updated track objects (e.g. after tags were read) everywhere they're held,
+   * and forgets queued and played tracks whose files are gone.
+   */
+  public refreshTracks(tracks: Track[]) {
+    const byId = new Map(tracks.map(t => [t.id, t]));
+    const latest = (track: Track) => byId.get(track.id) ?? track;
+
+    if (this.list) this.list = this.list.map(latest);
+    this.order = this.order.map(latest);
+    this.queue = this.queue.filter(t => byId.has(t.id)).map(latest);
+    this.history = this.history.filter(e => byId.has(e.track.id)).map(e => ({ ...e, track: latest(e.track) }));
+
+    const current = this.state.currentTrack;
+    const updated = current && byId.get(current.id);
+    // The playing copy keeps its resolved URL
+    if (updated && updated !== current) this.setState({ currentTrack: { ...updated, url: current.url } });
+    this.emit('queue');
+  }
+
+  // --- Engine callbacks ---
+
+  public handleTimeUpdate(time: number) {
+    this.setState({ currentTime: time }, 'time');
+    if (this.state.isPlaying && !this.needsLoad) this.prepareTransition(time);
+  }
+
+  public handleDurationChange(duration: number) {
+    if (Number.isFinite(duration)) this.setState({ duration });
+  }
+
+  public handleEnded() {
+    if (this.state.stopAfterTrack) {
+      this.setState({ stopAfterTrack: false });
+      this.pause();
+      return;
+    }
+    if (this.state.repeat === 'one') {
+      this.seek(0);
+      this.startPlayback(false);
+      return;
+    }
+    this.next();
+  }
+
+  // The engine couldn't play the source; Play fetches it again instead of retrying the broken one
+  public handleError(message: string) {
+    this.needsLoad = true;
+    this.setState({ error: message, isPlaying: false });
+  }
+
+  // --- Transport ---
+
+  /** Shows a track as current without fetching or starting it, e.g. on startup. */
+  public cue(track: Track) {
+    this.loadToken++;
+    this.fromQueue = false;
+    this.needsLoad = true;
+    this.syncPosition(track);
+    this.engine?.pause();
+    this.setState({ currentTrack: track, isPlaying: false, currentTime: 0, duration: track.duration || 0, error: null });
+  }
+
+  /** Stops and forgets the current track, e.g. when its file is gone and nothing is left to cue. */
+  public unload() {
+    this.loadToken++;
+    this.fromQueue = false;
+    this.needsLoad = false;
+    this.engine?.pause();
+    this.setState({ currentTrack: null, isPlaying: false, currentTime: 0, duration: 0, error: null });
+  }
+
+  public async play() {
+    const track = this.state.currentTrack;
+    if (!track) return;
+    if (this.needsLoad) await this.load(track, true);
+    else await this.startPlayback(true);
+  }
+
+  public async pause() {
+    if (!this.engine) return;
+    try {
+      // Pausing while play() is still pending makes it reject; let it settle first
+      if (this.pendingPlay) await this.pendingPlay;
+    } catch {
+      // Reported by startPlayback
+    }
+    this.engine.pause();
+    this.setState({ isPlaying: false });
+  }
+
+  public togglePlay() {
+    return this.state.isPlaying ? this.pause() : this.play();
+  }
+
+  public seek(time: number) {
+    this.engine?.seek(time);
+    this.setState({ currentTime: time }, 'time');
+  }
+
+  /** Jumps forward (or back, with a negative amount) within the current track. */
+  public skip(seconds: number) {
+    const { currentTrack, currentTime, duration } = this.state;
+    if (!currentTrack) return;
+    const end = duration || currentTrack.duration || Infinity;
+    this.seek(Math.min(end, Math.max(0, currentTime + seconds)));
+  }
+
+  public setPlaybackRate(rate: number) {
+    const playbackRate = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+    this.engine?.setRate(playbackRate);
+    this.setState({ playbackRate });
+  }
+
+  /** Fades the output in or out without touching the volume setting, e.g. for the sleep timer. */
+  public fadeTo(level: number, seconds: number) {
+    this.engine?.fadeTo(Math.min(1, Math.max(0, level)), Math.max(0, seconds));
+  }
+
+  public setStopAfterTrack(stopAfterTrack: boolean) {
+    this.setState({ stopAfterTrack });
+  }
+
+  public setVolume(volume: number) {
+    const clamped = Math.min(1, Math.max(0, volume));
+    this.engine?.setVolume(clamped);
+    this.volumeBeforeMute = null;
+    this.setState({ volume: clamped });
+  }
+
+  public toggleMute() {
+    if (this.state.volume > 0) {
+      const previous = this.state.volume;
+      this.setVolume(0);
+      this.volumeBeforeMute = previous;
+    } else {
+      this.setVolume(this.volumeBeforeMute ?? 0.8);
+    }
+  }
+
+  /** Seconds the next track fades in over the end of the current one; 0 plays them back to back. */
+  public setCrossfade(seconds: number) {
+    const crossfade = Math.min(MAX_CROSSFADE_SECONDS, Math.max(0, seconds));
+    this.setState({ crossfade });
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY_CROSSFADE, String(crossfade));
+    }
+  }
+
+  public cycleRepeat() {
+    const repeat = this.state.repeat === 'none' ? 'all' : this.state.repeat === 'all' ? 'one' : 'none';
+    this.setState({ repeat });
+    this.emit('queue');
+  }
+
+  /** Reorders what's left without touching what's playing: the current list track goes first. */
+  public toggleShuffle() {
+    const anchor = this.order[this.position];
+    const shuffle = !this.state.shuffle;
+    const base = this.list ?? this.library;
+
+    if (shuffle) {
+      this.order = anchor ? [anchor, ...shuffled(base.filter(t => t.id !== anchor.id))] : shuffled(base);
+      this.position = anchor ? 0 : -1;
+    } else {
+      this.order = base;
+      this.position = anchor ? base.findIndex(t => t.id === anchor.id) : -1;
+    }
+    this.setState({ shuffle });
+    this.emit('queue');
+  }
+
+  // --- Choosing what to play ---
+
+  /** Plays a list such as a folder or album, from `startTrack` or the top. */
+  public playTracks(list: Track[], options: { shuffle?: boolean; startTrack?: Track } = {}) {
+    if (list.length === 0) return;
+    const shuffle = options.shuffle ?? this.state.shuffle;
+    const start = options.startTrack ?? (shuffle ? undefined : list[0]);
+
+    this.list = list;
+    this.order = shuffle
+      ? (start ? [start, ...shuffled(list.filter(t => t.id !== start.id))] : shuffled(list))
+      : list;
+    if (shuffle !== this.state.shuffle) this.setState({ shuffle });
+
+    const first = start ?? this.order[0];
+    this.advanceTo(first, false);
+  }
+
+  /** Plays a track from the library views, going back to the whole library if a list was playing. */
+  public playLibraryTrack(track: Track) {
+    if (this.list !== null) {
+      this.list = null;
+      this.order = this.state.shuffle
+        ? [track, ...shuffled(this.library.filter(t => t.id !== track.id))]
+        : this.library;
+    }
+    this.advanceTo(track, false);
+  }
+
+  public next(transition?: Transition) {
+    if (!this.state.currentTrack && this.order.length === 0 && this.queue.length === 0) return;
+
+    const queued = this.queue[0];
+    if (queued) {
+      this.queue = this.queue.slice(1);
+      this.advanceTo(queued, true, transition);
+      return;
+    }
+
+    if (this.position + 1 < this.order.length) {
+      this.advanceTo(this.order[this.position + 1], false, transition);
+      return;
+    }
+
+    if (this.state.repeat === 'all' && this.order.length > 0) {
+      // A fresh shuffle for the next round
+      if (this.state.shuffle) this.order = shuffled(this.order);
+      this.position = -1;
+      this.advanceTo(this.order[0], false, transition);
+      return;
+    }
+
+    // End of the list: stop on the last track, ready to play it again from the start
+    this.pause();
+    this.seek(0);
+  }
+
+  public previous() {
+    const current = this.state.currentTrack;
+    if (!current) return;
+
+    if (this.state.currentTime > RESTART_THRESHOLD_SECONDS) {
+      this.seek(0);
+      return;
+    }
+
+    const entry = this.history[this.history.length - 1];
+    if (entry) {
+      this.history = this.history.slice(0, -1);
+      // A queued track we step back from is queued again, so Next walks forward through it
+      if (this.fromQueue) this.queue = [current, ...this.queue];
+      this.fromQueue = entry.fromQueue;
+      if (!entry.fromQueue) this.syncPosition(entry.track);
+      this.load(entry.track, true);
+      this.emit('queue');
+      return;
+    }
+
+    if (this.position > 0) {
+      this.position -= 1;
+      this.fromQueue = false;
+      this.load(this.order[this.position], true);
+      this.emit('queue');
+      return;
+    }
+
+    this.seek(0);
+  }
+
+  // --- Queue ---
+
+  public playNext(tracks: Track[]) {
+    if (tracks.length === 0) return;
+    this.queue = [...tracks, ...this.queue];
+    this.emit('queue');
+  }
+
+  public addToQueue(tracks: Track[]) {
+    if (tracks.length === 0) return;
+    this.queue = [...this.queue, ...tracks];
+    this.emit('queue');
+  }
+
+  public removeFromQueue(index: number) {
+    if (index < 0 || index >= this.queue.length) return;
+    this.queue = this.queue.filter((_, i) => i !== index);
+    this.emit('queue');
+  }
+
+  public moveInQueue(from: number, to: number) {
+    if (from === to || from < 0 || to < 0 || from >= this.queue.length || to >= this.queue.length) return;
+    const next = [...this.queue];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    this.queue = next;
+    this.emit('queue');
+  }
+
+  public clearQueue() {
+    if (this.queue.length === 0) return;
+    this.queue = [];
+    this.emit('queue');
+  }
+
+  /** Jumps to a queued track, skipping whatever was queued before it. */
+  public playQueued(index: number) {
+    const track = this.queue[index];
+    if (!track) return;
+    this.queue = this.queue.slice(index + 1);
+    this.advanceTo(track, true);
+  }
+
+  // --- Internals ---
+
+  // Every forward move goes through here so Previous can walk it back
+  private advanceTo(track: Track, fromQueue: boolean, transition?: Transition) {
+    const current = this.state.currentTrack;
+    if (current) this.history = [...this.history, { track: current, fromQueue: this.fromQueue }].slice(-MAX_HISTORY);
+    this.fromQueue = fromQueue;
+    if (!fromQueue) this.syncPosition(track);
+    this.load(track, true, transition);
+    this.emit('queue');
+  }
+
+  /** The track Next would play, unless that takes a fresh shuffle, repeat-one replays the current one or playback stops. */
+  private peekNext(): Track | null {
+    if (this.state.repeat === 'one' || this.state.stopAfterTrack) return null;
+    if (this.queue[0]) return this.queue[0];
+    if (this.position + 1 < this.order.length) return this.order[this.position + 1];
+    if (this.state.repeat === 'all' && !this.state.shuffle) return this.order[0] ?? null;
+    return null;
+  }
+
+  // Near the end of a track: fetch the next one, then hand over to it gaplessly or with a crossfade
+  private prepareTransition(time: number) {
+    const { currentTrack, duration, crossfade, playbackRate } = this.state;
+    const upcoming = this.peekNext();
+    if (!currentTrack || !duration || !upcoming) return;
+    const remaining = duration - time;
+    if (remaining > PREFETCH_LEAD_SECONDS) return;
+
+    if (this.prefetch?.track.id !== upcoming.id) {
+      this.prefetchTrack(upcoming);
+      return;
+    }
+    if (!this.prefetch.source) return;
+    // A track resuming part way in starts cleanly once this one has ended
+    if (this.resolveProfile(upcoming).startAt > 0) return;
+
+    // Fades and delays are in real time, which runs faster or slower than the track's own
+    const left = remaining / playbackRate;
+    const fade = continuesAlbum(currentTrack, upcoming) ? 0 : Math.min(crossfade, left);
+    if (left > Math.max(fade, GAPLESS_LEAD_SECONDS)) return;
+    this.next({ delay: fade > 0 ? 0 : Math.max(0, left), fade });
+  }
+
+  private prefetchTrack(track: Track) {
+    const entry: Prefetch = { track, source: null };
+    this.prefetch = entry;
+    this.resolveSource(track)
+      .then(source => {
+        if (this.prefetch !== entry) return;
+        entry.source = source;
+        this.engine?.preload?.(source);
+      })
+      .catch(e => console.error("Failed to prefetch next track:", e));
+  }
+
+  // Hands out the prefetched source if it's for this track; any other prefetch is stale now
+  private takePrefetched(track: Track): Track | null {
+    const prefetch = this.prefetch;
+    this.prefetch = null;
+    return prefetch?.track.id === track.id ? prefetch.source : null;
+  }
+
+  private syncPosition(track: Track) {
+    const index = this.order.findIndex(t => t.id === track.id);
+    if (index !== -1) this.position = index;
+  }
+
+  // Library changes keep the shuffled order of tracks already in it; new tracks land at random spots after the current one
+  private rebuildOrder(tracks: Track[]) {
+    const current = this.state.currentTrack;
+    const anchor = this.order[this.position] ?? (this.fromQueue ? undefined : current);
+    if (this.state.shuffle) {
+      const ids = new Set(tracks.map(t => t.id));
+      const known = new Set(this.order.map(t => t.id));
+      const byId = new Map(tracks.map(t => [t.id, t]));
+      const kept = this.order.filter(t => ids.has(t.id)).map(t => byId.get(t.id)!);
+      const added = tracks.filter(t => !known.has(t.id));
+      const anchorIndex = anchor ? kept.findIndex(t => t.id === anchor.id) : -1;
+      this.order = [...kept.slice(0, anchorIndex + 1), ...shuffled([...kept.slice(anchorIndex + 1), ...added])];
+    } else {
+      this.order = tracks;
+    }
+    this.position = anchor ? this.order.findIndex(t => t.id === anchor.id) : -1;
+    this.emit('queue');
+  }
+
+  private async load(track: Track, autoplay: boolean, transition?: Transition) {
+    const token = ++this.loadToken;
+    let source = this.takePrefetched(track);
+    if (!source) {
+      try {
+        source = await this.resolveSource(track);
+      } catch (e) {
+        console.error("Failed to fetch track media:", e);
+        if (token !== this.loadToken) return;
+        // Show the track that failed, so Play tries it again rather than the one before
+        this.setState({ currentTrack: track, currentTime: 0, duration: track.duration || 0 });
+        this.handleError((e as Error)?.name === 'ReconnectRequiredError' ? (e as Error).message : "Failed to load audio source.");
+        return;
+      }
+      // Another track was chosen while this one was resolving
+      if (token !== this.loadToken) return;
+    }
+
+    this.needsLoad = false;
+    const { startAt, rate } = this.resolveProfile(source);
+    this.setState({ currentTrack: source, currentTime: startAt, duration: source.duration || 0, playbackRate: rate, error: null });
+    if (transition && this.engine) {
+      this.engine.load(source, transition);
+      this.engine.setRate(rate);
+      this.setState({ isPlaying: true });
+      return;
+    }
+    this.engine?.load(source);
+    this.engine?.setRate(rate);
+    if (startAt > 0) this.engine?.seek(startAt);
+    if (autoplay) await this.startPlayback(false);
+  }
+
+  private async startPlayback(reportErrors: boolean) {
+    if (!this.engine) return;
+    try {
+      this.pendingPlay = this.engine.play();
+      await this.pendingPlay;
+      this.setState({ isPlaying: true, error: null });
+    } catch (e) {
+      if ((e as Error).name !== 'AbortError') {
+        console.log("Playback failed or was prevented:", e);
+        if (reportErrors) this.setState({ error: "Unable to play this source." });
+      }
+      this.setState({ isPlaying: false });
+    } finally {
+      this.pendingPlay = null;
+    }
+  }
+}
+
+export const playbackController = new PlaybackController();
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { driveFileLink, formatPlaylist, parsePlaylist } from './playlistFormats';
+import { Track } from '../types';
+
+const makeTrack = (id: string, name: string, artist: string, duration = 180): Track => ({
+  id,
+  name,
+  artist,
+  album: 'Album',
+  duration,
+  url: `https://example.com/${id}.mp3`,
+  coverArt: '',
+  mimeType: 'audio/mpeg',
+});
+
+const tracks = [
+  makeTrack('a', 'Halo', 'Beyoncé', 261.4),
+  makeTrack('b', 'Rock & Roll', 'Led Zeppelin', 0),
+];
+const location = (track: Track) => `Music/${track.artist}/${track.name}.mp3`;
+
+describe('parsePlaylist', () => {
+  it('reads M3U entries with their extended info', () => {
+    const text = '\uFEFF#EXTM3U\r\n#PLAYLIST:Road trip\r\n#EXTINF:261,Beyoncé - Halo\r\n#EXTALB:I Am... Sasha Fierce\r\nfile:///C:/Music/Halo%20(Live).mp3\r\n\r\n#EXTINF:-1,Intro\r\nintro.mp3\r\nplain.mp3\r\n';
+    expect(parsePlaylist(text, 'trip.m3u8')).toEqual({
+      name: 'Road trip',
+      entries: [
+        { duration: 261, artist: 'Beyoncé', title: 'Halo', album: 'I Am... Sasha Fierce', location: 'C:/Music/Halo (Live).mp3' },
+        { duration: undefined, title: 'Intro', location: 'intro.mp3' },
+        { location: 'plain.mp3' },
+      ],
+    });
+  });
+
+  it('reads PLS entries by their numbers and skips empty ones', () => {
+    const text = '[playlist]\nFile2=b.mp3\nTitle2=Second\nFile1=a%20b.mp3\nTitle1=Artist - First\nLength1=200\nLength3=10\nNumberOfEntries=3\n';
+    expect(parsePlaylist(text)).toEqual({
+      entries: [
+        { location: 'a b.mp3', artist: 'Artist', title: 'First', duration: 200 },
+        { location: 'b.mp3', title: 'Second' },
+      ],
+    });
+  });
+
+  it('detects the format from the content when the extension says nothing', () => {
+    expect(parsePlaylist('[playlist]\nFile1=a.mp3\n', 'list.txt').entries).toEqual([{ location: 'a.mp3' }]);
+    expect(parsePlaylist('a.mp3\n', 'list.txt').entries).toEqual([{ location: 'a.mp3' }]);
+  });
+});
+
+describe('formatPlaylist', () => {
+  it('writes M3U8 that reads back', () => {
+    const text = formatPlaylist('m3u8', 'Mix', tracks, location);
+    expect(text).toBe('#EXTM3U\n#PLAYLIST:Mix\n#EXTINF:261,Beyoncé - Halo\nMusic/Beyoncé/Halo.mp3\n#EXTINF:-1,Led Zeppelin - Rock & Roll\nMusic/Led Zeppelin/Rock & Roll.mp3\n');
+    expect(parsePlaylist(text, 'mix.m3u8')).toEqual({
+      name: 'Mix',
+      entries: [
+        { duration: 261, artist: 'Beyoncé', title: 'Halo', location: 'Music/Beyoncé/Halo.mp3' },
+        { duration: undefined, artist: 'Led Zeppelin', title: 'Rock & Roll', location: 'Music/Led Zeppelin/Rock & Roll.mp3' },
+      ],
+    });
+  });
+
+  it('writes PLS that reads back', () => {
+    const text = formatPlaylist('pls', 'Mix', tracks, track => driveFileLink(track.id));
+    expect(text).toContain('NumberOfEntries=2\nVersion=2\n');
+    expect(parsePlaylist(text, 'mix.pls').entries).toEqual([
+      { location: 'https://drive.google.com/file/d/a/view', artist: 'Beyoncé', title: 'Halo', duration: 261 },
+      { location: 'https://drive.google.com/file/d/b/view', artist: 'Led Zeppelin', title: 'Rock & Roll' },
+    ]);
+  });
+
+  it('writes XSPF with escaped text and URI locations', () => {
+    const text = formatPlaylist('xspf', 'Mix <1>', tracks, location);
+    expect(text).toContain('<title>Mix &lt;1&gt;</title>');
+    expect(text).toContain('<location>Music/Beyonc%C3%A9/Halo.mp3</location>');
+    expect(text).toContain('<duration>261400</duration>');
+    expect(text).toContain('<location>Music/Led%20Zeppelin/Rock%20%26%20Roll.mp3</location>');
+    expect(text).toContain('<title>Rock &amp; Roll</title>');
+    // No duration for a track whose length is unknown
+    expect(text.match(/<duration>/g)).toHaveLength(1);
+    expect(formatPlaylist('xspf', 'Mix', tracks.slice(0, 1), track => driveFileLink(track.id)))
+      .toContain('<location>https://drive.google.com/file/d/a/view</location>');
+  });
+});
@@ -0,0 +1,203 @@
+import { Track } from "../types";
+
+// Reading and writing the playlist formats desktop players use: M3U/M3U8, PLS and XSPF
+
+export type PlaylistFormat = 'm3u8' | 'pls' | 'xspf';
+
+export interface PlaylistEntry {
+  location?: string;
+  title?: string;
+  artist?: string;
+  album?: string;
+  duration?: number;
+}
+
+export interface ParsedPlaylist {
+  name?: string;
+  entries: PlaylistEntry[];
+}
+
+export const PLAYLIST_FORMATS: Record<PlaylistFormat, { label: string; extension: string; mimeType: string }> = {
+  m3u8: { label: 'M3U8', extension: 'm3u8', mimeType: 'audio/x-mpegurl' },
+  pls: { label: 'PLS', extension: 'pls', mimeType: 'audio/x-scpls' },
+  xspf: { label: 'XSPF', extension: 'xspf', mimeType: 'application/xspf+xml' },
+};
+
+/** Link that opens a Drive file for anyone with access, used as the portable location of a track. */
+export const driveFileLink = (fileId: string) => `https://drive.google.com/file/d/${fileId}/view`;
+
+const decodeLocation = (location: string) => {
+  try {
+    return decodeURIComponent(location.replace(/^file:\/\/\/?/i, ''));
+  } catch {
+    return location;
+  }
+};
+
+// "Artist - Title" is the de facto convention for M3U and PLS titles
+const splitDisplayTitle = (value: string): Pick<PlaylistEntry, 'title' | 'artist'> => {
+  const dash = value.indexOf(' - ');
+  if (dash === -1) return { title: value.trim() || undefined };
+  return { artist: value.slice(0, dash).trim() || undefined, title: value.slice(dash + 3).trim() || undefined };
+};
+
+const displayTitle = (track: Track) => `${track.artist} - ${track.name}`;
+
+// --- Parsing ---
+
+const parseM3u = (text: string): ParsedPlaylist => {
+  const entries: PlaylistEntry[] = [];
+  let name: string | undefined;
+  let pending: PlaylistEntry = {};
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+    if (line.startsWith('#PLAYLIST:')) {
+      name = line.slice(10).trim();
+    } else if (line.startsWith('#EXTINF:')) {
+      const info = line.slice(8);
+      const comma = info.indexOf(',');
+      const duration = parseFloat(comma === -1 ? info : info.slice(0, comma));
+      pending = {
+        duration: duration > 0 ? duration : undefined,
+        ...(comma === -1 ? {} : splitDisplayTitle(info.slice(comma + 1))),
+      };
+    } else if (line.startsWith('#EXTALB:')) {
+      pending.album = line.slice(8).trim();
+    } else if (line.startsWith('#EXTART:')) {
+      pending.artist = line.slice(8).trim();
+    } else if (!line.startsWith('#')) {
+      entries.push({ ...pending, location: decodeLocation(line) });
+      pending = {};
+    }
+  });
+
+  return { name, entries };
+};
+
+const parsePls = (text: string): ParsedPlaylist => {
+  const byIndex = new Map<number, PlaylistEntry>();
+  const entry = (index: number) => {
+    if (!byIndex.has(index)) byIndex.set(index, {});
+    return byIndex.get(index)!;
+  };
+
+  text.split(/\r?\n/).forEach(line => {
+    const match = line.trim().match(/^(File|Title|Length)(\d+)=(.*)$/i);
+    if (!match) return;
+    const [, key, index, value] = match;
+    const target = entry(Number(index));
+    switch (key.toLowerCase()) {
+      case 'file': target.location = decodeLocation(value.trim()); break;
+      case 'title': Object.assign(target, splitDisplayTitle(value)); break;
+      case 'length': {
+        const seconds = Number(value);
+        if (seconds > 0) target.duration = seconds;
+        break;
+      }
+    }
+  });
+
+  return {
+    entries: Array.from(byIndex.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, e]) => e)
+      .filter(e => e.location || e.title),
+  };
+};
+
+const parseXspf = (text: string): ParsedPlaylist => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error("Invalid XSPF document");
+
+  const childText = (parent: Element, tag: string) => {
+    const el = Array.from(parent.children).find(c => c.localName === tag);
+    return el?.textContent?.trim() || undefined;
+  };
+
+  const playlist = doc.documentElement;
+  const entries = Array.from(doc.getElementsByTagNameNS('*', 'track')).map(track => {
+    const location = childText(track, 'location');
+    const duration = Number(childText(track, 'duration'));
+    return {
+      location: location ? decodeLocation(location) : undefined,
+      title: childText(track, 'title'),
+      artist: childText(track, 'creator'),
+      album: childText(track, 'album'),
+      duration: duration > 0 ? duration / 1000 : undefined,
+    };
+  });
+
+  return { name: childText(playlist, 'title'), entries };
+};
+
+/** Detects the format from the file extension or, failing that, the content. */
+export const parsePlaylist = (text: string, fileName = ''): ParsedPlaylist => {
+  const content = text.replace(/^\uFEFF/, '');
+  const extension = fileName.split('.').pop()?.toLowerCase();
+
+  if (extension === 'xspf' || /^\s*(<\?xml[^>]*>\s*)?<playlist/i.test(content)) return parseXspf(content);
+  if (extension === 'pls' || /^\s*\[playlist\]/i.test(content)) return parsePls(content);
+  return parseM3u(content);
+};
+
+// --- Writing ---
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// XSPF locations are URIs, so relative paths need their segments escaped
+const toUri = (location: string) =>
+  /^[a-z][a-z0-9+.-]*:/i.test(location) ? location : location.split('/').map(encodeURIComponent).join('/');
+
+/**
+ * Serializes tracks into a playlist file. `getLocation` decides what each entry points at,
+ * e.g. a Drive link or a path relative to the library.
+ */
+export const formatPlaylist = (format: PlaylistFormat, name: string, tracks: Track[], getLocation: (track: Track) => string): string => {
+  const duration = (track: Track) => (track.duration > 0 ? Math.round(track.duration) : -1);
+
+  switch (format) {
+    case 'pls':
+      return [
+        '[playlist]',
+        ...tracks.flatMap((track, i) => [
+          `File${i + 1}=${getLocation(track)}`,
+          `Title${i + 1}=${displayTitle(track)}`,
+          `Length${i + 1}=${duration(track)}`,
+        ]),
+        `NumberOfEntries=${tracks.length}`,
+        'Version=2',
+        '',
+      ].join('\n');
+
+    case 'xspf':
+      return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+        `  <title>${escapeXml(name)}</title>`,
+        '  <trackList>',
+        ...tracks.map(track => [
+          '    <track>',
+          `      <location>${escapeXml(toUri(getLocation(track)))}</location>`,
+          `      <title>${escapeXml(track.name)}</title>`,
+          `      <creator>${escapeXml(track.artist)}</creator>`,
+          `      <album>${escapeXml(track.album)}</album>`,
+          track.duration > 0 ? `      <duration>${Math.round(track.duration * 1000)}</duration>` : null,
+          '    </track>',
+        ].filter(Boolean).join('\n')),
+        '  </trackList>',
+        '</playlist>',
+        '',
+      ].join('\n');
+
+    default:
+      return [
+        '#EXTM3U',
+        `#PLAYLIST:${name}`,
+        ...tracks.flatMap(track => [`#EXTINF:${duration(track)},${displayTitle(track)}`, getLocation(track)]),
+        '',
+      ].join('\n');
+  }
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { matchPlaylistEntries } from './playlistMatcher';
+import { Track } from '../types';
+
+const makeTrack = (id: string, name: string, artist: string, fileName: string): Track => ({
+  id,
+  name,
+  artist,
+  album: 'Album',
+  duration: 180,
+  url: `https://example.com/${id}.mp3`,
+  coverArt: '',
+  mimeType: 'audio/mpeg',
+  fileName,
+});
+
+const noFolders = () => [];
+
+describe('matchPlaylistEntries', () => {
+  const tracks = [
+    makeTrack('a', 'Halo', 'Beyoncé', '03 - Halo.mp3'),
+    makeTrack('b', '夜に駆ける', 'YOASOBI', '夜に駆ける.mp3'),
+    makeTrack('c', 'Группа крови', 'Кино', 'Группа крови.flac'),
+    makeTrack('d', 'ブルーバード', 'いきものがかり', '01 ブルーバード.mp3'),
+  ];
+
+  it('matches file names regardless of accents and track number prefixes', () => {
+    const { matches } = matchPlaylistEntries([{ location: 'Music/Halo.mp3' }], tracks, noFolders);
+    expect(matches.map(m => [m.track.id, m.method])).toEqual([['a', 'path']]);
+  });
+
+  it('matches non-Latin file names and titles', () => {
+    const { matches, unmatched } = matchPlaylistEntries([
+      { location: 'Music/夜に駆ける.mp3', title: '夜に駆ける' },
+      { location: 'Кино/Группа крови.flac', title: 'Группа крови' },
+    ], tracks, noFolders);
+    expect(unmatched).toEqual([]);
+    expect(matches.map(m => [m.track.id, m.method])).toEqual([['b', 'path'], ['c', 'path']]);
+  });
+
+  it('matches non-Latin tags when the file name differs', () => {
+    const { matches } = matchPlaylistEntries(
+      [{ location: 'other/track07.mp3', title: 'ブルーバード', artist: 'いきものがかり' }],
+      tracks,
+      noFolders
+    );
+    expect(matches.map(m => [m.track.id, m.method])).toEqual([['d', 'tags']]);
+  });
+
+  it('leaves entries without a counterpart unmatched', () => {
+    const { matches, unmatched } = matchPlaylistEntries([{ location: 'x/Совсем другое.mp3', title: 'Совсем другое' }], tracks, noFolders);
+    expect(matches).toEqual([]);
+    expect(unmatched).toHaveLength(1);
+  });
+});
@@ -0,0 +1,154 @@
+import { Track } from "../types";
+import { PlaylistEntry } from "./playlistFormats";
+
+export interface PlaylistMatch {
+  entry: PlaylistEntry;
+  track: Track;
+  // 'id' for Drive links, 'path' for file name hits, 'tags' for fuzzy title/artist hits
+  method: 'id' | 'path' | 'tags';
+}
+
+export interface PlaylistMatchReport {
+  matches: PlaylistMatch[];
+  unmatched: PlaylistEntry[];
+}
+
+const FUZZY_THRESHOLD = 0.72;
+const MAX_CANDIDATES = 50;
+
+// Lowercase, strip accents and punctuation so "Beyoncé – Halo" and "beyonce halo" compare equal.
+// Letters of any script survive; recomposing keeps kana voicing marks on their characters.
+const normalize = (value = '') =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// File names often carry a track number prefix ("01 - Title.mp3") that tags don't
+const normalizeFileName = (value = '') =>
+  normalize(value.replace(/\.[a-z0-9]{2,5}$/i, '')).replace(/^\d{1,3} /, '');
+
+// "(Remastered)", "[Live]" and the like differ between releases of the same song
+const stripQualifiers = (value: string) => value.replace(/\s*[([][^)\]]*[)\]]/g, '');
+
+const tokens = (value: string) => value.split(' ').filter(t => t.length > 1);
+
+const bigrams = (value: string) => {
+  const compact = value.replace(/ /g, '');
+  const result = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    result.set(pair, (result.get(pair) || 0) + 1);
+  }
+  return result;
+};
+
+/** Sørensen–Dice coefficient over character bigrams, 0..1. */
+const similarity = (a: string, b: string) => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let overlap = 0;
+  let total = 0;
+  left.forEach((count, pair) => {
+    overlap += Math.min(count, right.get(pair) || 0);
+    total += count;
+  });
+  right.forEach(count => { total += count; });
+  return total === 0 ? 0 : (2 * overlap) / total;
+};
+
+const driveIdFromLocation = (location: string) =>
+  location.match(/\/file\/d\/([\w-]{20,})/)?.[1] ||
+  location.match(/[?&]id=([\w-]{20,})/)?.[1] ||
+  location.match(/\/files\/([\w-]{20,})\?alt=media/)?.[1];
+
+const splitPath = (location: string) => location.split(/[\\/]/).filter(Boolean);
+
+/**
+ * Resolves playlist entries to library tracks: Drive links by id, then file names (preferring
+ * tracks whose folders match the entry's directories), then fuzzy title/artist comparison.
+ * `getFolderNames` returns the names of the folders a track sits in, top level first.
+ */
+export const matchPlaylistEntries = (
+  entries: PlaylistEntry[],
+  tracks: Track[],
+  getFolderNames: (track: Track) => string[]
+): PlaylistMatchReport => {
+  const byId = new Map(tracks.map(t => [t.id, t]));
+  const byFileName = new Map<string, Track[]>();
+  const byToken = new Map<string, Track[]>();
+  const fileNames = new Map<string, string>();
+
+  const push = (map: Map<string, Track[]>, key: string, track: Track) => {
+    const list = map.get(key);
+    if (list) list.push(track);
+    else map.set(key, [track]);
+  };
+
+  tracks.forEach(track => {
+    const fileName = normalizeFileName(track.fileName || track.name);
+    fileNames.set(track.id, fileName);
+    push(byFileName, fileName, track);
+    new Set(tokens(`${fileName} ${normalize(track.name)} ${normalize(track.artist)}`)).forEach(token => push(byToken, token, track));
+  });
+
+  const folderOverlap = (track: Track, directories: string[]) => {
+    const folders = new Set(getFolderNames(track).map(normalize));
+    return directories.filter(d => folders.has(d)).length;
+  };
+
+  const tagScore = (entry: PlaylistEntry, track: Track) => {
+    if (!entry.title) return 0;
+    const title = Math.max(
+      similarity(normalize(entry.title), normalize(track.name)),
+      similarity(normalize(stripQualifiers(entry.title)), normalize(stripQualifiers(track.name)))
+    );
+    if (!entry.artist) return title;
+    return title * 0.7 + similarity(normalize(entry.artist), normalize(track.artist)) * 0.3;
+  };
+
+  const matches: PlaylistMatch[] = [];
+  const unmatched: PlaylistEntry[] = [];
+
+  entries.forEach(entry => {
+    const location = entry.location || '';
+    const driveId = location && driveIdFromLocation(location);
+    if (driveId && byId.has(driveId)) {
+      matches.push({ entry, track: byId.get(driveId)!, method: 'id' });
+      return;
+    }
+
+    const segments = splitPath(location);
+    const fileName = segments.length > 0 && !/^https?:/i.test(location) ? normalizeFileName(segments[segments.length - 1]) : '';
+    const directories = segments.slice(0, -1).map(normalize);
+
+    // Same file name: several albums can have a "01 Intro.mp3", so let folders and tags break ties
+    const sameName = fileName ? byFileName.get(fileName) : undefined;
+    if (sameName) {
+      const best = sameName
+        .map(track => ({ track, score: folderOverlap(track, directories) + tagScore(entry, track) }))
+        .sort((a, b) => b.score - a.score)[0];
+      matches.push({ entry, track: best.track, method: 'path' });
+      return;
+    }
+
+    // Fuzzy: only score tracks sharing a word with the entry, most shared words first
+    const shared = new Map<Track, number>();
+    new Set(tokens(`${fileName} ${normalize(entry.title)} ${normalize(entry.artist)}`)).forEach(token => {
+      byToken.get(token)?.forEach(track => shared.set(track, (shared.get(track) || 0) + 1));
+    });
+    const candidates = Array.from(shared.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_CANDIDATES)
+      .map(([track]) => {
+        const score = Math.max(similarity(fileName, fileNames.get(track.id)!), tagScore(entry, track));
+        return { track, score, rank: score + folderOverlap(track, directories) * 0.01 };
+      })
+      .filter(c => c.score >= FUZZY_THRESHOLD)
+      .sort((a, b) => b.rank - a.rank);
+
+    if (candidates.length > 0) matches.push({ entry, track: candidates[0].track, method: 'tags' });
+    else unmatched.push(entry);
+  });
+
+  return { matches, unmatched };
+};
@@ -0,0 +1,204 @@
+import { Playlist } from "../types";
+import { DriveApiError, driveService } from "./googleDriveService";
+
+const STORAGE_KEY_PLAYLISTS = 'nova_playlists';
+const STORAGE_KEY_DRIVE_SYNC = 'nova_playlists_drive_sync';
+const DRIVE_FILE_NAME = 'playlists.json';
+const UPLOAD_DELAY_MS = 2000;
+
+// 'reconnect-required' means the Drive session wasn't granted access to the app data folder
+export type PlaylistSyncStatus = 'off' | 'syncing' | 'synced' | 'error' | 'reconnect-required';
+
+// Deleted playlists are remembered so a sync doesn't bring them back from another machine
+interface PlaylistStore {
+  playlists: Playlist[];
+  deleted: Record<string, number>;
+}
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+/** Newest edit of each playlist wins; a deletion wins over anything older than it. */
+const mergeStores = (a: PlaylistStore, b: PlaylistStore): PlaylistStore => {
+  const deleted = { ...a.deleted };
+  Object.entries(b.deleted).forEach(([id, at]) => {
+    deleted[id] = Math.max(deleted[id] ?? 0, at);
+  });
+
+  const byId = new Map<string, Playlist>();
+  [...a.playlists, ...b.playlists].forEach(playlist => {
+    const existing = byId.get(playlist.id);
+    if (!existing || playlist.updatedAt > existing.updatedAt) byId.set(playlist.id, playlist);
+  });
+
+  const playlists = Array.from(byId.values())
+    .filter(p => !(deleted[p.id] >= p.updatedAt))
+    .sort((x, y) => x.createdAt - y.createdAt);
+  return { playlists, deleted };
+};
+
+/**
+ * User playlists, kept in localStorage and optionally mirrored to a JSON file in the
+ * Drive app data folder so they follow the user between machines.
+ */
+export class PlaylistService {
+  private store: PlaylistStore = { playlists: [], deleted: {} };
+  private driveSync = false;
+  private syncStatus: PlaylistSyncStatus = 'off';
+  private uploadTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY_PLAYLISTS) || 'null');
+      if (stored) this.store = { playlists: stored.playlists || [], deleted: stored.deleted || {} };
+    } catch (e) {
+      console.warn("Discarding unreadable playlists:", e);
+    }
+    this.driveSync = localStorage.getItem(STORAGE_KEY_DRIVE_SYNC) === 'true';
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private save() {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY_PLAYLISTS, JSON.stringify(this.store));
+    }
+    this.notify();
+    this.scheduleUpload();
+  }
+
+  // Applies an edit to one playlist and bumps its timestamp
+  private update(id: string, change: (playlist: Playlist) => Partial<Playlist>) {
+    this.store.playlists = this.store.playlists.map(p =>
+      p.id === id ? { ...p, ...change(p), updatedAt: Date.now() } : p
+    );
+    this.save();
+  }
+
+  // --- Playlists ---
+
+  public getPlaylists(): Playlist[] {
+    return this.store.playlists;
+  }
+
+  public getPlaylist(id: string): Playlist | undefined {
+    return this.store.playlists.find(p => p.id === id);
+  }
+
+  public createPlaylist(name?: string, trackIds: string[] = []): Playlist {
+    const now = Date.now();
+    const playlist: Playlist = {
+      id: createId(),
+      name: name?.trim() || `My Playlist #${this.store.playlists.length + 1}`,
+      trackIds: Array.from(new Set(trackIds)),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.playlists = [...this.store.playlists, playlist];
+    this.save();
+    return playlist;
+  }
+
+  public renamePlaylist(id: string, name: string) {
+    if (!name.trim()) return;
+    this.update(id, () => ({ name: name.trim() }));
+  }
+
+  public deletePlaylist(id: string) {
+    this.store.playlists = this.store.playlists.filter(p => p.id !== id);
+    this.store.deleted = { ...this.store.deleted, [id]: Date.now() };
+    this.save();
+  }
+
+  /** Appends tracks that aren't in the playlist yet and returns the ids that were added. */
+  public addTracks(id: string, trackIds: string[]): string[] {
+    const playlist = this.getPlaylist(id);
+    if (!playlist) return [];
+    const added = Array.from(new Set(trackIds)).filter(trackId => !playlist.trackIds.includes(trackId));
+    if (added.length > 0) this.update(id, p => ({ trackIds: [...p.trackIds, ...added] }));
+    return added;
+  }
+
+  public removeTrack(id: string, trackId: string) {
+    this.update(id, p => ({ trackIds: p.trackIds.filter(t => t !== trackId) }));
+  }
+
+  public moveTrack(id: string, from: number, to: number) {
+    if (from === to) return;
+    this.update(id, p => {
+      const trackIds = [...p.trackIds];
+      const [moved] = trackIds.splice(from, 1);
+      trackIds.splice(to, 0, moved);
+      return { trackIds };
+    });
+  }
+
+  // --- Drive Sync ---
+
+  public isDriveSyncEnabled(): boolean {
+    return this.driveSync;
+  }
+
+  public getSyncStatus(): PlaylistSyncStatus {
+    return this.driveSync ? this.syncStatus : 'off';
+  }
+
+  public setDriveSyncEnabled(enabled: boolean) {
+    this.driveSync = enabled;
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY_DRIVE_SYNC, String(enabled));
+    }
+    this.notify();
+    if (enabled) this.syncWithDrive();
+  }
+
+  private scheduleUpload() {
+    if (!this.driveSync) return;
+    if (this.uploadTimer) clearTimeout(this.uploadTimer);
+    this.uploadTimer = setTimeout(() => this.syncWithDrive(), UPLOAD_DELAY_MS);
+  }
+
+  private setSyncStatus(status: PlaylistSyncStatus) {
+    this.syncStatus = status;
+    this.notify();
+  }
+
+  /** Merges the copy in Drive with the local one and writes the result to both places. */
+  public async syncWithDrive() {
+    if (!this.driveSync) return;
+    if (this.uploadTimer) clearTimeout(this.uploadTimer);
+    this.uploadTimer = null;
+    if (!driveService.hasAppDataAccess()) {
+      this.setSyncStatus('reconnect-required');
+      return;
+    }
+    this.setSyncStatus('syncing');
+
+    try {
+      const remote = await driveService.readAppDataFile<PlaylistStore>(DRIVE_FILE_NAME);
+      const merged = remote
+        ? mergeStores(this.store, { playlists: remote.playlists || [], deleted: remote.deleted || {} })
+        : this.store;
+
+      this.store = merged;
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(STORAGE_KEY_PLAYLISTS, JSON.stringify(merged));
+      }
+      await driveService.writeAppDataFile(DRIVE_FILE_NAME, merged);
+      this.setSyncStatus('synced');
+    } catch (e) {
+      console.error("Failed to sync playlists with Drive:", e);
+      this.setSyncStatus(e instanceof DriveApiError && e.status === 403 ? 'reconnect-required' : 'error');
+    }
+  }
+}
+
+export const playlistService = new PlaylistService();
@@ -0,0 +1,256 @@
+import { Track } from "../types";
+import { PlaybackController } from "./playbackController";
+
+const STORAGE_KEY_ALARM = 'nova_alarm';
+
+export const SLEEP_DURATIONS = [5, 10, 15, 30, 45, 60, 90]; // Minutes
+export const ALARM_FADES = [0, 10, 30, 60, 120, 300]; // Seconds
+export const LIBRARY_SOURCE = 'library';
+
+// The last stretch before the sleep timer pauses fades out
+const SLEEP_FADE_SECONDS = 30;
+const TICK_MS = 1000;
+// An alarm that couldn't start (autoplay blocked, nothing to play) stops waiting to fade in after this
+const ALARM_START_TIMEOUT_MS = 60 * 1000;
+// A computer waking up long after the alarm time doesn't start playing out of the blue
+const ALARM_LATE_LIMIT_MS = 15 * 60 * 1000;
+
+export type SleepTimer =
+  | { mode: 'duration'; endsAt: number }
+  | { mode: 'track' };
+
+export interface Alarm {
+  time: string; // "HH:MM", local time
+  source: string; // A playlist id or LIBRARY_SOURCE
+  shuffle: boolean;
+  fadeSeconds: number;
+  daily: boolean;
+}
+
+/** When an alarm set for "HH:MM" next goes off, as a timestamp. */
+export const nextAlarmTime = (time: string, now = Date.now()): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const at = new Date(now);
+  at.setHours(hours, minutes, 0, 0);
+  if (at.getTime() <= now) at.setDate(at.getDate() + 1);
+  return at.getTime();
+};
+
+/**
+ * The sleep timer, which fades playback out and pauses after a while or at the end of the
+ * track, and the alarm, which fades a playlist in at a set time. Both only run while the
+ * app is open; timing is checked once a second so a throttled background tab catches up.
+ */
+export class SleepTimerService {
+  private sleep: SleepTimer | null = null;
+  private alarm: Alarm | null = null;
+  private alarmAt: number | null = null;
+  private controller: PlaybackController | null = null;
+  private resolveSource: (source: string) => Track[] = () => [];
+  private fadingOut = false;
+  // The alarm fades in once one of its tracks is playing
+  private pendingFadeIn: { seconds: number; until: number; trackIds: Set<string> } | null = null;
+  private ticker: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const stored: Alarm | null = JSON.parse(localStorage.getItem(STORAGE_KEY_ALARM) || 'null');
+      if (stored?.time) {
+        this.alarm = stored;
+        this.alarmAt = nextAlarmTime(stored.time);
+      }
+    } catch (e) {
+      console.warn("Discarding unreadable alarm:", e);
+    }
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /** Listeners also hear a tick every second while a timer runs, for countdowns. */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public getSleepTimer(): SleepTimer | null {
+    return this.sleep;
+  }
+
+  public getAlarm(): Alarm | null {
+    return this.alarm;
+  }
+
+  public getAlarmTime(): number | null {
+    return this.alarmAt;
+  }
+
+  /** Tracks the alarm can play: the library or a playlist's tracks. */
+  public setSourceResolver(resolver: (source: string) => Track[]) {
+    this.resolveSource = resolver;
+  }
+
+  public attach(controller: PlaybackController): () => void {
+    this.controller = controller;
+    this.updateTicker();
+
+    const unsubscribe = controller.subscribe(change => {
+      if (change === 'queue') return;
+      const { currentTrack, isPlaying, stopAfterTrack, currentTime, duration, playbackRate } = controller.getState();
+
+      if (this.pendingFadeIn && isPlaying && currentTrack && this.pendingFadeIn.trackIds.has(currentTrack.id)) {
+        controller.fadeTo(1, this.pendingFadeIn.seconds);
+        this.pendingFadeIn = null;
+      }
+
+      if (this.sleep?.mode !== 'track') return;
+      // The controller clears the flag once it has paused at the end of the track
+      if (!stopAfterTrack) {
+        this.finishSleep();
+        return;
+      }
+      const remaining = (duration - currentTime) / playbackRate;
+      if (isPlaying && !this.fadingOut && duration > 0 && remaining <= SLEEP_FADE_SECONDS) {
+        this.fadingOut = true;
+        controller.fadeTo(0, remaining);
+      }
+    });
+    return () => {
+      unsubscribe();
+      if (this.controller === controller) this.controller = null;
+      this.updateTicker();
+    };
+  }
+
+  // --- Sleep timer ---
+
+  public startSleep(minutes: number) {
+    this.cancelSleep();
+    this.sleep = { mode: 'duration', endsAt: Date.now() + minutes * 60 * 1000 };
+    this.updateTicker();
+    this.emit();
+  }
+
+  public sleepAtEndOfTrack() {
+    this.cancelSleep();
+    this.sleep = { mode: 'track' };
+    this.controller?.setStopAfterTrack(true);
+    this.emit();
+  }
+
+  /** Seconds until the sleep timer pauses playback, if that's known. */
+  public getSleepRemaining(): number | null {
+    if (!this.sleep) return null;
+    if (this.sleep.mode === 'duration') return Math.max(0, (this.sleep.endsAt - Date.now()) / 1000);
+    const state = this.controller?.getState();
+    if (!state || !state.duration) return null;
+    return Math.max(0, (state.duration - state.currentTime) / state.playbackRate);
+  }
+
+  public cancelSleep() {
+    const sleep = this.sleep;
+    if (!sleep) return;
+    this.sleep = null;
+    if (sleep.mode === 'track') this.controller?.setStopAfterTrack(false);
+    // Bring the sound back if the fade had begun
+    if (this.fadingOut) this.controller?.fadeTo(1, 1);
+    this.fadingOut = false;
+    this.updateTicker();
+    this.emit();
+  }
+
+  private finishSleep() {
+    const controller = this.controller;
+    this.sleep = null;
+    this.fadingOut = false;
+    this.updateTicker();
+    this.emit();
+    if (!controller) return;
+    // Back to full level once paused, so the next play isn't silent
+    controller.pause().then(() => controller.fadeTo(1, 0));
+  }
+
+  // --- Alarm ---
+
+  public setAlarm(alarm: Alarm | null) {
+    this.alarm = alarm;
+    this.alarmAt = alarm ? nextAlarmTime(alarm.time) : null;
+    if (typeof localStorage !== 'undefined') {
+      if (alarm) localStorage.setItem(STORAGE_KEY_ALARM, JSON.stringify(alarm));
+      else localStorage.removeItem(STORAGE_KEY_ALARM);
+    }
+    this.updateTicker();
+    this.emit();
+  }
+
+  private fireAlarm(alarm: Alarm, firedAt: number) {
+    // Daily alarms go again tomorrow; one-off ones are done
+    if (alarm.daily) {
+      this.alarmAt = nextAlarmTime(alarm.time);
+    } else {
+      this.setAlarm(null);
+    }
+
+    if (Date.now() - firedAt > ALARM_LATE_LIMIT_MS) return;
+    const tracks = this.resolveSource(alarm.source);
+    const controller = this.controller;
+    if (!controller || tracks.length === 0) {
+      console.warn("Alarm went off with nothing to play");
+      return;
+    }
+    this.cancelSleep();
+    if (alarm.fadeSeconds > 0) {
+      controller.fadeTo(0, 0);
+      this.pendingFadeIn = {
+        seconds: alarm.fadeSeconds,
+        until: Date.now() + ALARM_START_TIMEOUT_MS,
+        trackIds: new Set(tracks.map(t => t.id)),
+      };
+    }
+    controller.playTracks(tracks, { shuffle: alarm.shuffle });
+  }
+
+  // --- Ticking ---
+
+  private updateTicker() {
+    const needed = !!this.controller && (this.sleep !== null || this.alarmAt !== null || this.pendingFadeIn !== null);
+    if (needed && !this.ticker) {
+      this.ticker = setInterval(() => this.tick(), TICK_MS);
+    } else if (!needed && this.ticker) {
+      clearInterval(this.ticker);
+      this.ticker = null;
+    }
+  }
+
+  private tick() {
+    const now = Date.now();
+    const controller = this.controller;
+    if (!controller) return;
+
+    if (this.sleep?.mode === 'duration') {
+      const remaining = (this.sleep.endsAt - now) / 1000;
+      if (remaining <= 0) {
+        this.finishSleep();
+      } else if (!this.fadingOut && remaining <= SLEEP_FADE_SECONDS && controller.getState().isPlaying) {
+        this.fadingOut = true;
+        controller.fadeTo(0, remaining);
+      }
+    }
+
+    if (this.pendingFadeIn && now > this.pendingFadeIn.until) {
+      // Playback never started; don't leave the output silent
+      this.pendingFadeIn = null;
+      controller.fadeTo(1, 0);
+    }
+
+    if (this.alarm && this.alarmAt !== null && now >= this.alarmAt) this.fireAlarm(this.alarm, this.alarmAt);
+
+    this.updateTicker();
+    this.emit();
+  }
+}
+
+export const sleepTimerService = new SleepTimerService();
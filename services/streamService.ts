@@ -0,0 +1,89 @@
+// Bridges the page and the streaming service worker (public/stream-sw.js)
+
+const WORKER_URL = '/stream-sw.js';
+const STREAM_PREFIX = '/drive-stream/';
+const CONTROLLER_TIMEOUT_MS = 3000;
+
+export class StreamService {
+  private registration: Promise<ServiceWorkerRegistration | null> | null = null;
+  private token: string | null = null;
+  private refresher: ((staleToken: string | null) => Promise<string>) | null = null;
+
+  private get isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+  }
+
+  public register() {
+    if (!this.isSupported || this.registration) return;
+
+    navigator.serviceWorker.addEventListener('message', this.handleMessage);
+    navigator.serviceWorker.addEventListener('controllerchange', () => this.pushToken());
+
+    this.registration = navigator.serviceWorker.register(WORKER_URL).catch((e) => {
+      console.warn("Streaming worker unavailable, falling back to full downloads:", e);
+      return null;
+    });
+  }
+
+  public setToken(token: string | null) {
+    this.token = token;
+    this.pushToken();
+  }
+
+  public setTokenRefresher(refresher: (staleToken: string | null) => Promise<string>) {
+    this.refresher = refresher;
+  }
+
+  private pushToken() {
+    navigator.serviceWorker?.controller?.postMessage({ type: 'SET_TOKEN', token: this.token });
+  }
+
+  // The worker asks for the token when it was restarted and lost it, or for a new one after a 401
+  private handleMessage = async (event: MessageEvent) => {
+    const port = event.ports[0];
+    if (!port) return;
+
+    if (event.data?.type === 'GET_TOKEN') {
+      port.postMessage({ token: this.token });
+    } else if (event.data?.type === 'REFRESH_TOKEN') {
+      try {
+        const token = this.refresher ? await this.refresher(event.data.staleToken ?? null) : null;
+        port.postMessage({ token });
+      } catch {
+        port.postMessage({ token: null });
+      }
+    }
+  };
+
+  private waitForController(): Promise<ServiceWorker | null> {
+    if (navigator.serviceWorker.controller) return Promise.resolve(navigator.serviceWorker.controller);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(navigator.serviceWorker.controller), CONTROLLER_TIMEOUT_MS);
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        clearTimeout(timer);
+        resolve(navigator.serviceWorker.controller);
+      }, { once: true });
+    });
+  }
+
+  /** Whether the worker controls this page, so the URLs it answers can be handed out. */
+  public async isActive(): Promise<boolean> {
+    if (!this.registration || !(await this.registration)) return false;
+    return !!(await this.waitForController());
+  }
+
+  /**
+   * Returns a same-origin URL that streams the file through the worker,
+   * or null when the worker isn't controlling this page.
+   */
+  public async getStreamUrl(fileId: string): Promise<string | null> {
+    return (await this.isActive()) ? `${STREAM_PREFIX}${encodeURIComponent(fileId)}` : null;
+  }
+
+  public isStreamUrl(url: string): boolean {
+    return url.startsWith(STREAM_PREFIX);
+  }
+}
+
+export const streamService = new StreamService();
@@ -0,0 +1,831 @@
+import { AudioPicture, AudioTags, Chapter, LyricLine } from "../types";
+
+// Reads ID3v2/ID3v1 (MP3), Vorbis comments (FLAC, Ogg Vorbis/Opus) and MP4 atoms from
+// partially downloaded files. Whenever the parser touches bytes that haven't been fetched
+// yet it throws NeedBytesError, so the caller can fetch that range and run it again.
+
+export class NeedBytesError extends Error {
+  constructor(public offset: number, public length: number) {
+    super(`Need ${length} bytes at offset ${offset}`);
+    this.name = 'NeedBytesError';
+  }
+}
+
+export interface ParseOptions {
+  withPicture?: boolean;
+  withChapters?: boolean;
+  withLyrics?: boolean;
+}
+
+/** The fetched parts of a file, merged into contiguous chunks. */
+export class ByteSource {
+  private chunks: Array<{ offset: number; data: Uint8Array }> = [];
+
+  constructor(public readonly size: number) {}
+
+  public static of(data: Uint8Array): ByteSource {
+    const source = new ByteSource(data.length);
+    source.add(0, data);
+    return source;
+  }
+
+  public add(offset: number, data: Uint8Array) {
+    const sorted = [...this.chunks, { offset, data }].sort((a, b) => a.offset - b.offset);
+    const merged: typeof this.chunks = [];
+
+    for (const chunk of sorted) {
+      const last = merged[merged.length - 1];
+      const lastEnd = last ? last.offset + last.data.length : -1;
+      if (!last || chunk.offset > lastEnd) {
+        merged.push({ ...chunk });
+        continue;
+      }
+      const end = chunk.offset + chunk.data.length;
+      if (end > lastEnd) {
+        const combined = new Uint8Array(end - last.offset);
+        combined.set(last.data, 0);
+        combined.set(chunk.data, chunk.offset - last.offset);
+        last.data = combined;
+      }
+    }
+    this.chunks = merged;
+  }
+
+  /** Returns up to `length` bytes, clamped to the end of the file. */
+  public bytes(offset: number, length: number): Uint8Array {
+    if (offset < 0 || offset >= this.size) return new Uint8Array(0);
+    const end = Math.min(offset + length, this.size);
+
+    for (const chunk of this.chunks) {
+      if (offset >= chunk.offset && end <= chunk.offset + chunk.data.length) {
+        return chunk.data.subarray(offset - chunk.offset, end - chunk.offset);
+      }
+    }
+    throw new NeedBytesError(offset, end - offset);
+  }
+}
+
+// --- Binary helpers ---
+
+const be16 = (b: Uint8Array, i: number) => (b[i] << 8) | b[i + 1];
+const be24 = (b: Uint8Array, i: number) => (b[i] << 16) | (b[i + 1] << 8) | b[i + 2];
+const be32 = (b: Uint8Array, i: number) => ((b[i] << 24) >>> 0) + ((b[i + 1] << 16) | (b[i + 2] << 8) | b[i + 3]);
+const le16 = (b: Uint8Array, i: number) => b[i] | (b[i + 1] << 8);
+const le32 = (b: Uint8Array, i: number) => (b[i] | (b[i + 1] << 8) | (b[i + 2] << 16)) + ((b[i + 3] << 24) >>> 0);
+const le64 = (b: Uint8Array, i: number) => le32(b, i) + le32(b, i + 4) * 2 ** 32;
+const be64 = (b: Uint8Array, i: number) => be32(b, i) * 2 ** 32 + be32(b, i + 4);
+const syncsafe = (b: Uint8Array, i: number) => (b[i] << 21) | (b[i + 1] << 14) | (b[i + 2] << 7) | b[i + 3];
+
+const decoders = new Map<string, TextDecoder>();
+const decode = (bytes: Uint8Array, encoding: string) => {
+  if (!decoders.has(encoding)) decoders.set(encoding, new TextDecoder(encoding));
+  return decoders.get(encoding)!.decode(bytes);
+};
+const ascii = (b: Uint8Array, start: number, end: number) => decode(b.subarray(start, end), 'iso-8859-1');
+const clean = (value: string | undefined) => value?.replace(/\0+$/, '').trim() || undefined;
+
+const parseNumber = (value: string | undefined) => {
+  const n = parseInt(value || '', 10);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+// "2001-05-03", "2001" or "03/05/2001"
+const parseYear = (value: string | undefined) => parseNumber(value?.match(/\d{4}/)?.[0]);
+
+const setIfMissing = <K extends keyof AudioTags>(tags: AudioTags, key: K, value: AudioTags[K] | undefined) => {
+  if (value !== undefined && tags[key] === undefined) tags[key] = value;
+};
+
+// ID3v1 genre list (the original 80 entries)
+const ID3_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+  'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychedelic', 'Rave', 'Showtunes',
+  'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+];
+
+// "(17)", "17", "(17)Rock" or plain "Rock"
+const normalizeGenre = (raw: string | undefined) => {
+  if (!raw) return undefined;
+  const ref = raw.match(/^\((\d+)\)(.*)$/);
+  if (ref) return clean(ref[2]) || ID3_GENRES[Number(ref[1])] || raw;
+  if (/^\d+$/.test(raw)) return ID3_GENRES[Number(raw)] || raw;
+  return raw;
+};
+
+// ReplayGain 2 gains take a track to -18 LUFS; Opus R128 gains are Q7.8 dB relative to -23 LUFS
+const REPLAYGAIN_REFERENCE_LUFS = -18;
+const R128_REFERENCE_LUFS = -23;
+
+// Same key names in ID3 TXXX descriptions, Vorbis comments and MP4 freeform atoms
+const applyLoudnessTag = (tags: AudioTags, key: string, value: string | undefined) => {
+  const number = parseFloat(value || '');
+  if (!Number.isFinite(number)) return;
+  const loudness = tags.loudness || {};
+
+  switch (key.toUpperCase()) {
+    case 'REPLAYGAIN_TRACK_GAIN': loudness.track ??= REPLAYGAIN_REFERENCE_LUFS - number; break;
+    case 'REPLAYGAIN_ALBUM_GAIN': loudness.album ??= REPLAYGAIN_REFERENCE_LUFS - number; break;
+    case 'REPLAYGAIN_TRACK_PEAK': loudness.trackPeak ??= number; break;
+    case 'REPLAYGAIN_ALBUM_PEAK': loudness.albumPeak ??= number; break;
+    case 'R128_TRACK_GAIN': loudness.track ??= R128_REFERENCE_LUFS - number / 256; break;
+    case 'R128_ALBUM_GAIN': loudness.album ??= R128_REFERENCE_LUFS - number / 256; break;
+    default: return;
+  }
+  tags.loudness = loudness;
+};
+
+const guessImageType = (data: Uint8Array) =>
+  data[0] === 0x89 && data[1] === 0x50 ? 'image/png' : 'image/jpeg';
+
+// --- ID3v2 ---
+
+const ID3V22_FRAMES: Record<string, string> = {
+  TT2: 'TIT2', TP1: 'TPE1', TP2: 'TPE2', TAL: 'TALB', TRK: 'TRCK', TPA: 'TPOS',
+  TYE: 'TYER', TCO: 'TCON', TLE: 'TLEN', TXX: 'TXXX', PIC: 'PIC', ULT: 'USLT', SLT: 'SYLT',
+};
+const ID3_TEXT_FRAMES = new Set(['TIT2', 'TPE1', 'TPE2', 'TALB', 'TRCK', 'TPOS', 'TYER', 'TDRC', 'TCON', 'TLEN', 'TXXX']);
+
+const removeUnsync = (data: Uint8Array) => {
+  const out = new Uint8Array(data.length);
+  let j = 0;
+  for (let i = 0; i < data.length; i++) {
+    out[j++] = data[i];
+    if (data[i] === 0xFF && data[i + 1] === 0x00) i++;
+  }
+  return out.subarray(0, j);
+};
+
+const decodeId3Text = (bytes: Uint8Array, encoding: number) => {
+  switch (encoding) {
+    case 1:
+      if (bytes[0] === 0xFE && bytes[1] === 0xFF) return decode(bytes.subarray(2), 'utf-16be');
+      if (bytes[0] === 0xFF && bytes[1] === 0xFE) return decode(bytes.subarray(2), 'utf-16le');
+      return decode(bytes, 'utf-16le');
+    case 2: return decode(bytes, 'utf-16be');
+    case 3: return decode(bytes, 'utf-8');
+    default: return decode(bytes, 'iso-8859-1');
+  }
+};
+
+// Chapters are read in file order; titles fall back to their position
+const addChapters = (tags: AudioTags, chapters: Chapter[]) => {
+  if (chapters.length === 0) return;
+  tags.chapters = [...(tags.chapters || []), ...chapters];
+};
+
+const finishChapters = (tags: AudioTags) => {
+  if (!tags.chapters) return;
+  tags.chapters = tags.chapters
+    .sort((a, b) => a.start - b.start)
+    .map((chapter, i) => ({ ...chapter, title: chapter.title || `Chapter ${i + 1}` }));
+};
+
+// Index of the string terminator, which is two aligned zero bytes for UTF-16
+const findTerminator = (data: Uint8Array, start: number, encoding: number) => {
+  if (encoding === 1 || encoding === 2) {
+    for (let i = start; i + 1 < data.length; i += 2) {
+      if (data[i] === 0 && data[i + 1] === 0) return i;
+    }
+    return data.length;
+  }
+  const i = data.indexOf(0, start);
+  return i === -1 ? data.length : i;
+};
+
+const terminatorLength = (encoding: number) => (encoding === 1 || encoding === 2 ? 2 : 1);
+
+const readId3Picture = (data: Uint8Array, isV22: boolean): { picture: AudioPicture; type: number } | null => {
+  const encoding = data[0];
+  let mimeType: string;
+  let pos: number;
+
+  if (isV22) {
+    const format = ascii(data, 1, 4).toUpperCase();
+    mimeType = format === 'PNG' ? 'image/png' : 'image/jpeg';
+    pos = 4;
+  } else {
+    const mimeEnd = findTerminator(data, 1, 0);
+    mimeType = ascii(data, 1, mimeEnd) || 'image/jpeg';
+    pos = mimeEnd + 1;
+  }
+
+  const type = data[pos];
+  const descEnd = findTerminator(data, pos + 1, encoding);
+  const imageStart = descEnd + terminatorLength(encoding);
+  if (imageStart >= data.length) return null;
+
+  const image = data.slice(imageStart);
+  if (!mimeType.includes('/')) mimeType = guessImageType(image);
+  return { picture: { mimeType, data: image }, type };
+};
+
+// USLT: encoding, language, a description, then the text
+const readId3Lyrics = (data: Uint8Array): string | undefined => {
+  const encoding = data[0];
+  const descEnd = findTerminator(data, 4, encoding);
+  const text = decodeId3Text(data.subarray(descEnd + terminatorLength(encoding)), encoding);
+  return clean(text.replace(/\r\n?/g, '\n'));
+};
+
+// SYLT: encoding, language, timestamp format, content type, a description, then text/time pairs.
+// Only millisecond timestamps are read; MPEG frame counts would need the frame rate.
+const readId3SyncedLyrics = (data: Uint8Array): LyricLine[] | undefined => {
+  const encoding = data[0];
+  if (data[4] !== 2) return undefined;
+  let pos = findTerminator(data, 6, encoding) + terminatorLength(encoding);
+  const lines: LyricLine[] = [];
+  while (pos < data.length) {
+    const end = findTerminator(data, pos, encoding);
+    if (end + terminatorLength(encoding) + 4 > data.length) break;
+    const text = decodeId3Text(data.subarray(pos, end), encoding).replace(/^\n/, '').trim();
+    pos = end + terminatorLength(encoding);
+    lines.push({ time: be32(data, pos) / 1000, text });
+    pos += 4;
+  }
+  return lines.length > 0 ? lines.sort((a, b) => a.time - b.time) : undefined;
+};
+
+const applyId3Frame = (id: string, data: Uint8Array, tags: AudioTags, state: { pictureType: number }) => {
+  if (id === 'APIC' || id === 'PIC') {
+    const result = readId3Picture(data, id === 'PIC');
+    // Prefer the front cover (type 3) over whatever else is embedded
+    if (result && (!tags.picture || (result.type === 3 && state.pictureType !== 3))) {
+      tags.picture = result.picture;
+      state.pictureType = result.type;
+    }
+    return;
+  }
+
+  if (id === 'USLT') {
+    setIfMissing(tags, 'lyrics', readId3Lyrics(data));
+    return;
+  }
+  if (id === 'SYLT') {
+    setIfMissing(tags, 'syncedLyrics', readId3SyncedLyrics(data));
+    return;
+  }
+
+  // User-defined text: a description, then the value
+  if (id === 'TXXX') {
+    const [description, value] = decodeId3Text(data.subarray(1), data[0]).split('\0');
+    if (description) applyLoudnessTag(tags, description, clean(value));
+    return;
+  }
+
+  const value = clean(decodeId3Text(data.subarray(1), data[0]).split('\0')[0]);
+  switch (id) {
+    case 'TIT2': setIfMissing(tags, 'title', value); break;
+    case 'TPE1': setIfMissing(tags, 'artist', value); break;
+    case 'TPE2': setIfMissing(tags, 'albumArtist', value); break;
+    case 'TALB': setIfMissing(tags, 'album', value); break;
+    case 'TRCK': setIfMissing(tags, 'trackNumber', parseNumber(value)); break;
+    case 'TPOS': setIfMissing(tags, 'discNumber', parseNumber(value)); break;
+    case 'TYER':
+    case 'TDRC': setIfMissing(tags, 'year', parseYear(value)); break;
+    case 'TCON': setIfMissing(tags, 'genre', normalizeGenre(value)); break;
+    case 'TLEN': {
+      const ms = parseNumber(value);
+      if (ms) setIfMissing(tags, 'duration', ms / 1000);
+      break;
+    }
+  }
+};
+
+// CHAP: element id, start/end times in ms, start/end byte offsets, then embedded frames such as TIT2
+const readId3Chapter = (data: Uint8Array, major: number): Chapter | null => {
+  const idEnd = data.indexOf(0);
+  if (idEnd === -1 || idEnd + 17 > data.length) return null;
+  const start = be32(data, idEnd + 1) / 1000;
+
+  let title: string | undefined;
+  let pos = idEnd + 17;
+  while (pos + 10 <= data.length) {
+    const id = ascii(data, pos, pos + 4);
+    const size = major === 4 ? syncsafe(data, pos + 4) : be32(data, pos + 4);
+    if (size <= 0) break;
+    const body = data.subarray(pos + 10, pos + 10 + size);
+    if (id === 'TIT2' && body.length > 1) title = clean(decodeId3Text(body.subarray(1), body[0]).split('\0')[0]);
+    pos += 10 + size;
+  }
+  return { title: title || '', start };
+};
+
+/** Parses an ID3v2 tag at the start of the file and returns the offset right after it. */
+const parseId3v2 = (src: ByteSource, tags: AudioTags, options: ParseOptions): number => {
+  const header = src.bytes(0, 10);
+  const major = header[3];
+  const flags = header[5];
+  const tagSize = syncsafe(header, 6);
+  const tagEnd = 10 + tagSize + (flags & 0x10 ? 10 : 0);
+  if (major < 2 || major > 4) return tagEnd;
+
+  let frames = src;
+  let pos = 10;
+  let limit = 10 + tagSize;
+
+  // Tag-wide unsynchronisation (v2.2/v2.3) has to be undone before frames can be read
+  if (major < 4 && flags & 0x80) {
+    frames = ByteSource.of(removeUnsync(src.bytes(10, tagSize)));
+    pos = 0;
+    limit = frames.size;
+  }
+
+  if (flags & 0x40) {
+    const ext = frames.bytes(pos, 4);
+    pos += major === 4 ? syncsafe(ext, 0) : be32(ext, 0) + 4;
+  }
+
+  const headerLength = major === 2 ? 6 : 10;
+  const state = { pictureType: -1 };
+
+  while (pos + headerLength <= limit) {
+    const h = frames.bytes(pos, headerLength);
+    const rawId = ascii(h, 0, major === 2 ? 3 : 4);
+    if (!/^[A-Z0-9]{3,4}$/.test(rawId)) break; // Reached the padding
+
+    const size = major === 2 ? be24(h, 3) : major === 4 ? syncsafe(h, 4) : be32(h, 4);
+    const dataStart = pos + headerLength;
+    pos = dataStart + size;
+    if (size <= 0 || pos > limit) break;
+
+    const id = major === 2 ? ID3V22_FRAMES[rawId] : rawId;
+    const wanted = id && (
+      ID3_TEXT_FRAMES.has(id) ||
+      (options.withPicture && (id === 'APIC' || id === 'PIC')) ||
+      (options.withChapters && id === 'CHAP') ||
+      (options.withLyrics && (id === 'USLT' || id === 'SYLT'))
+    );
+    if (!wanted) continue;
+
+    let data = frames.bytes(dataStart, size);
+    const formatFlags = major === 2 ? 0 : h[9];
+    if (major === 3) {
+      if (formatFlags & 0xC0) continue; // Compressed or encrypted
+      if (formatFlags & 0x20) data = data.subarray(1);
+    } else if (major === 4) {
+      if (formatFlags & 0x0C) continue; // Compressed or encrypted
+      if (formatFlags & 0x40) data = data.subarray(1);
+      if (formatFlags & 0x01) data = data.subarray(4);
+      if (formatFlags & 0x02) data = removeUnsync(data);
+    }
+    if (data.length === 0) continue;
+    if (id === 'CHAP') {
+      const chapter = readId3Chapter(data, major);
+      if (chapter) addChapters(tags, [chapter]);
+    } else {
+      applyId3Frame(id, data, tags, state);
+    }
+  }
+
+  return tagEnd;
+};
+
+// --- ID3v1 ---
+
+const parseId3v1 = (src: ByteSource, tags: AudioTags) => {
+  if (src.size < 128) return;
+  const b = src.bytes(src.size - 128, 128);
+  if (ascii(b, 0, 3) !== 'TAG') return;
+
+  const text = (start: number, length: number) => clean(decode(b.subarray(start, start + length), 'iso-8859-1'));
+  setIfMissing(tags, 'title', text(3, 30));
+  setIfMissing(tags, 'artist', text(33, 30));
+  setIfMissing(tags, 'album', text(63, 30));
+  setIfMissing(tags, 'year', parseYear(text(93, 4)));
+  // ID3v1.1 keeps the track number in the last byte of the comment
+  if (b[125] === 0 && b[126] !== 0) setIfMissing(tags, 'trackNumber', b[126]);
+  if (b[127] < ID3_GENRES.length) setIfMissing(tags, 'genre', ID3_GENRES[b[127]]);
+};
+
+// --- MPEG audio ---
+
+const MPEG_BITRATES: Record<string, number[]> = {
+  V1L1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  V1L2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  V1L3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  V2L1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  V2L2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000],  // MPEG 2.5
+};
+
+const readMpegDuration = (src: ByteSource, audioStart: number, tags: AudioTags) => {
+  const window = src.bytes(audioStart, 16 * 1024);
+
+  for (let i = 0; i + 4 <= window.length; i++) {
+    if (window[i] !== 0xFF || (window[i + 1] & 0xE0) !== 0xE0) continue;
+
+    const version = (window[i + 1] >> 3) & 3;
+    const layer = 4 - ((window[i + 1] >> 1) & 3);
+    const bitrateIndex = window[i + 2] >> 4;
+    const sampleRateIndex = (window[i + 2] >> 2) & 3;
+    if (version === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) continue;
+
+    const isV1 = version === 3;
+    const mono = (window[i + 3] >> 6) === 3;
+    const table = isV1 ? `V1L${layer}` : layer === 1 ? 'V2L1' : 'V2L2';
+    const bitrate = MPEG_BITRATES[table][bitrateIndex] * 1000;
+    const sampleRate = MPEG_SAMPLE_RATES[version][sampleRateIndex];
+    const samplesPerFrame = layer === 1 ? 384 : layer === 3 && !isV1 ? 576 : 1152;
+
+    // VBR files announce their frame count in a Xing/Info or VBRI header inside the first frame
+    const frameStart = audioStart + i;
+    const xingOffset = frameStart + 4 + (isV1 ? (mono ? 17 : 32) : (mono ? 9 : 17));
+    const xing = src.bytes(xingOffset, 12);
+    const xingId = ascii(xing, 0, 4);
+    if ((xingId === 'Xing' || xingId === 'Info') && be32(xing, 4) & 1) {
+      tags.duration = (be32(xing, 8) * samplesPerFrame) / sampleRate;
+      return;
+    }
+    const vbri = src.bytes(frameStart + 36, 18);
+    if (ascii(vbri, 0, 4) === 'VBRI') {
+      tags.duration = (be32(vbri, 14) * samplesPerFrame) / sampleRate;
+      return;
+    }
+
+    // Constant bitrate: estimate from the file size
+    setIfMissing(tags, 'duration', ((src.size - frameStart) * 8) / bitrate);
+    return;
+  }
+};
+
+// --- Vorbis comments (FLAC, Ogg) ---
+
+const readFlacPicture = (b: Uint8Array): AudioPicture | null => {
+  let pos = 4;
+  const mimeLength = be32(b, pos);
+  const mimeType = ascii(b, pos + 4, pos + 4 + mimeLength);
+  pos += 4 + mimeLength;
+  pos += 4 + be32(b, pos); // Description
+  pos += 16; // Width, height, depth, colors
+  const length = be32(b, pos);
+  const data = b.slice(pos + 4, pos + 4 + length);
+  return data.length ? { mimeType: mimeType || guessImageType(data), data } : null;
+};
+
+const parseVorbisComment = (b: Uint8Array, tags: AudioTags, options: ParseOptions) => {
+  let pos = 4 + le32(b, 0); // Skip vendor string
+  const count = le32(b, pos);
+  pos += 4;
+
+  for (let i = 0; i < count && pos + 4 <= b.length; i++) {
+    const length = le32(b, pos);
+    const comment = decode(b.subarray(pos + 4, pos + 4 + length), 'utf-8');
+    pos += 4 + length;
+
+    const eq = comment.indexOf('=');
+    if (eq === -1) continue;
+    const key = comment.slice(0, eq).toUpperCase();
+    const value = clean(comment.slice(eq + 1));
+    if (!options.withLyrics && (key === 'LYRICS' || key === 'UNSYNCEDLYRICS')) continue;
+
+    switch (key) {
+      case 'TITLE': setIfMissing(tags, 'title', value); break;
+      case 'ARTIST': setIfMissing(tags, 'artist', value); break;
+      case 'ALBUMARTIST':
+      case 'ALBUM ARTIST': setIfMissing(tags, 'albumArtist', value); break;
+      case 'ALBUM': setIfMissing(tags, 'album', value); break;
+      case 'TRACKNUMBER': setIfMissing(tags, 'trackNumber', parseNumber(value)); break;
+      case 'DISCNUMBER': setIfMissing(tags, 'discNumber', parseNumber(value)); break;
+      case 'DATE':
+      case 'YEAR': setIfMissing(tags, 'year', parseYear(value)); break;
+      case 'GENRE': setIfMissing(tags, 'genre', value); break;
+      case 'LYRICS':
+      case 'UNSYNCEDLYRICS': setIfMissing(tags, 'lyrics', value?.replace(/\r\n?/g, '\n')); break;
+      case 'REPLAYGAIN_TRACK_GAIN':
+      case 'REPLAYGAIN_ALBUM_GAIN':
+      case 'REPLAYGAIN_TRACK_PEAK':
+      case 'REPLAYGAIN_ALBUM_PEAK':
+      case 'R128_TRACK_GAIN':
+      case 'R128_ALBUM_GAIN': applyLoudnessTag(tags, key, value); break;
+      case 'METADATA_BLOCK_PICTURE':
+        if (options.withPicture && !tags.picture && value) {
+          const binary = atob(value);
+          const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+          tags.picture = readFlacPicture(bytes) || undefined;
+        }
+        break;
+    }
+  }
+};
+
+const parseFlac = (src: ByteSource, start: number, tags: AudioTags, options: ParseOptions) => {
+  let pos = start + 4;
+
+  while (pos + 4 <= src.size) {
+    const header = src.bytes(pos, 4);
+    const isLast = header[0] & 0x80;
+    const type = header[0] & 0x7F;
+    const length = be24(header, 1);
+    const body = pos + 4;
+
+    if (type === 0) {
+      const info = src.bytes(body, 18);
+      const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+      const totalSamples = (info[13] & 0x0F) * 2 ** 32 + be32(info, 14);
+      if (sampleRate && totalSamples) tags.duration = totalSamples / sampleRate;
+    } else if (type === 4) {
+      parseVorbisComment(src.bytes(body, length), tags, options);
+    } else if (type === 6 && options.withPicture && !tags.picture) {
+      tags.picture = readFlacPicture(src.bytes(body, length)) || undefined;
+    }
+
+    if (isLast) break;
+    pos = body + length;
+  }
+};
+
+// --- Ogg ---
+
+// Reassembles the first `count` packets from the Ogg pages at the start of the file
+const readOggPackets = (src: ByteSource, count: number): Uint8Array[] => {
+  const packets: Uint8Array[] = [];
+  let parts: Uint8Array[] = [];
+  let pos = 0;
+
+  while (packets.length < count && pos + 27 <= src.size) {
+    const header = src.bytes(pos, 27);
+    if (ascii(header, 0, 4) !== 'OggS') break;
+    const segments = src.bytes(pos + 27, header[26]);
+    let dataPos = pos + 27 + header[26];
+
+    for (let i = 0; i < segments.length && packets.length < count; i++) {
+      parts.push(src.bytes(dataPos, segments[i]));
+      dataPos += segments[i];
+      if (segments[i] < 255) {
+        const total = parts.reduce((sum, p) => sum + p.length, 0);
+        const packet = new Uint8Array(total);
+        let offset = 0;
+        parts.forEach(p => { packet.set(p, offset); offset += p.length; });
+        packets.push(packet);
+        parts = [];
+      }
+    }
+    pos = dataPos;
+  }
+  return packets;
+};
+
+const parseOgg = (src: ByteSource, tags: AudioTags, options: ParseOptions) => {
+  const [ident, comment] = readOggPackets(src, 2);
+  if (!ident) return;
+
+  let sampleRate = 0;
+  let preSkip = 0;
+  if (ident[0] === 1 && ascii(ident, 1, 7) === 'vorbis') {
+    sampleRate = le32(ident, 12);
+    if (comment && comment[0] === 3) parseVorbisComment(comment.subarray(7), tags, options);
+  } else if (ascii(ident, 0, 8) === 'OpusHead') {
+    sampleRate = 48000; // Opus granule positions always count 48 kHz samples
+    preSkip = le16(ident, 10);
+    if (comment && ascii(comment, 0, 8) === 'OpusTags') parseVorbisComment(comment.subarray(8), tags, options);
+  }
+  if (!sampleRate) return;
+
+  // The granule position of the last page is the total sample count
+  const tailStart = Math.max(0, src.size - 64 * 1024);
+  const tail = src.bytes(tailStart, src.size - tailStart);
+  for (let i = tail.length - 14; i >= 0; i--) {
+    if (tail[i] === 0x4F && tail[i + 1] === 0x67 && tail[i + 2] === 0x67 && tail[i + 3] === 0x53) {
+      const granule = le64(tail, i + 6);
+      if (granule > preSkip) tags.duration = (granule - preSkip) / sampleRate;
+      break;
+    }
+  }
+};
+
+// --- MP4 ---
+
+interface Atom {
+  type: string;
+  start: number;
+  body: number;
+  end: number;
+}
+
+const readAtoms = (src: ByteSource, start: number, end: number): Atom[] => {
+  const atoms: Atom[] = [];
+  let pos = start;
+
+  while (pos + 8 <= end) {
+    const header = src.bytes(pos, 16);
+    let size = be32(header, 0);
+    let body = pos + 8;
+    if (size === 1) {
+      size = be64(header, 8);
+      body = pos + 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < 8) break;
+    atoms.push({ type: ascii(header, 4, 8), start: pos, body, end: Math.min(pos + size, end) });
+    pos += size;
+  }
+  return atoms;
+};
+
+const findAtom = (src: ByteSource, parent: Atom | null, path: string[]): Atom | null => {
+  let current = parent;
+  for (const type of path) {
+    const children = current ? readAtoms(src, current.body, current.end) : readAtoms(src, 0, src.size);
+    current = children.find(a => a.type === type) || null;
+    if (!current) return null;
+  }
+  return current;
+};
+
+// Nero chapters (moov/udta/chpl): 100 ns start times with length-prefixed titles
+const readNeroChapters = (src: ByteSource, moov: Atom): Chapter[] => {
+  const chpl = findAtom(src, moov, ['udta', 'chpl']);
+  if (!chpl) return [];
+  const b = src.bytes(chpl.body, chpl.end - chpl.body);
+  let pos = b[0] === 1 ? 8 : 4; // Version and flags, plus a reserved word in version 1
+  const count = b[pos++];
+
+  const chapters: Chapter[] = [];
+  for (let i = 0; i < count && pos + 9 <= b.length; i++) {
+    const length = b[pos + 8];
+    chapters.push({ start: be64(b, pos) / 1e7, title: clean(decode(b.subarray(pos + 9, pos + 9 + length), 'utf-8')) || '' });
+    pos += 9 + length;
+  }
+  return chapters;
+};
+
+const MAX_CHAPTERS = 1000;
+
+// QuickTime chapters: a text track, referenced from the audio track's tref/chap, with one sample per chapter
+const readChapterTrack = (src: ByteSource, moov: Atom): Chapter[] => {
+  const traks = readAtoms(src, moov.body, moov.end).filter(a => a.type === 'trak');
+  let chapterTrackId: number | null = null;
+  for (const trak of traks) {
+    const chap = findAtom(src, trak, ['tref', 'chap']);
+    if (chap && chap.end - chap.body >= 4) {
+      chapterTrackId = be32(src.bytes(chap.body, 4), 0);
+      break;
+    }
+  }
+  if (chapterTrackId === null) return [];
+
+  const trackId = (trak: Atom) => {
+    const tkhd = findAtom(src, trak, ['tkhd']);
+    if (!tkhd) return null;
+    const b = src.bytes(tkhd.body, 24);
+    return b[0] === 1 ? be32(b, 20) : be32(b, 12);
+  };
+  const trak = traks.find(t => trackId(t) === chapterTrackId);
+  const mdhd = trak && findAtom(src, trak, ['mdia', 'mdhd']);
+  const stbl = trak && findAtom(src, trak, ['mdia', 'minf', 'stbl']);
+  if (!mdhd || !stbl) return [];
+
+  const mdhdBytes = src.bytes(mdhd.body, 24);
+  const timescale = mdhdBytes[0] === 1 ? be32(mdhdBytes, 20) : be32(mdhdBytes, 12);
+  const table = (type: string) => {
+    const atom = findAtom(src, stbl, [type]);
+    return atom ? src.bytes(atom.body, atom.end - atom.body) : null;
+  };
+  const stts = table('stts');
+  const stsz = table('stsz');
+  const stsc = table('stsc');
+  const co64 = table('co64');
+  const stco = co64 || table('stco');
+  if (!timescale || !stts || !stsz || !stsc || !stco) return [];
+
+  // Start time of each sample from the run-length encoded durations
+  const starts: number[] = [];
+  let time = 0;
+  for (let i = 0, entries = be32(stts, 4); i < entries && starts.length < MAX_CHAPTERS; i++) {
+    const count = be32(stts, 8 + i * 8);
+    const delta = be32(stts, 12 + i * 8);
+    for (let j = 0; j < count && starts.length < MAX_CHAPTERS; j++) {
+      starts.push(time / timescale);
+      time += delta;
+    }
+  }
+
+  const fixedSize = be32(stsz, 4);
+  const sampleCount = Math.min(be32(stsz, 8), starts.length);
+  const sampleSize = (i: number) => (fixedSize || be32(stsz, 12 + i * 4));
+
+  // File offset of each sample: chunks hold runs of samples, as laid out by stsc
+  const offsets: number[] = [];
+  const chunkCount = be32(stco, 4);
+  const stscEntries = be32(stsc, 4);
+  let entry = 0;
+  for (let chunk = 1; chunk <= chunkCount && offsets.length < sampleCount; chunk++) {
+    while (entry + 1 < stscEntries && be32(stsc, 8 + (entry + 1) * 12) <= chunk) entry++;
+    const perChunk = be32(stsc, 12 + entry * 12);
+    let offset = co64 ? be64(stco, 8 + (chunk - 1) * 8) : be32(stco, 8 + (chunk - 1) * 4);
+    for (let k = 0; k < perChunk && offsets.length < sampleCount; k++) {
+      offsets.push(offset);
+      offset += sampleSize(offsets.length - 1);
+    }
+  }
+
+  // Each text sample is a 16-bit length followed by the title, UTF-8 unless it has a UTF-16 BOM
+  return offsets.map((offset, i) => {
+    const length = be16(src.bytes(offset, 2), 0);
+    const text = src.bytes(offset + 2, length);
+    const title = text[0] === 0xFE && text[1] === 0xFF ? decode(text.subarray(2), 'utf-16be') : decode(text, 'utf-8');
+    return { start: starts[i], title: clean(title) || '' };
+  });
+};
+
+const parseMp4 = (src: ByteSource, tags: AudioTags, options: ParseOptions) => {
+  const moov = findAtom(src, null, ['moov']);
+  if (!moov) return;
+
+  const mvhd = findAtom(src, moov, ['mvhd']);
+  if (mvhd) {
+    const b = src.bytes(mvhd.body, 32);
+    const [timescale, duration] = b[0] === 1 ? [be32(b, 20), be64(b, 24)] : [be32(b, 12), be32(b, 16)];
+    if (timescale) tags.duration = duration / timescale;
+  }
+
+  // The Nero list sits in moov; the chapter track's titles can be spread through the audio data
+  if (options.withChapters) {
+    const nero = readNeroChapters(src, moov);
+    addChapters(tags, nero.length > 0 ? nero : readChapterTrack(src, moov));
+  }
+
+  const meta = findAtom(src, moov, ['udta', 'meta']);
+  if (!meta) return;
+  // iTunes writes meta as a full box with four bytes of version/flags before its children
+  const isFullBox = be32(src.bytes(meta.body, 4), 0) === 0;
+  const ilst = findAtom(src, { ...meta, body: meta.body + (isFullBox ? 4 : 0) }, ['ilst']);
+  if (!ilst) return;
+
+  for (const item of readAtoms(src, ilst.body, ilst.end)) {
+    if (item.type === 'covr' && !options.withPicture) continue;
+    if (item.type === '©lyr' && !options.withLyrics) continue;
+    const children = readAtoms(src, item.body, item.end);
+    const data = children.find(a => a.type === 'data');
+    if (!data) continue;
+
+    // Freeform "----" items (e.g. com.apple.iTunes:replaygain_track_gain) are named by a child atom
+    if (item.type === '----') {
+      const name = children.find(a => a.type === 'name');
+      if (name) {
+        const key = decode(src.bytes(name.body + 4, name.end - name.body - 4), 'utf-8');
+        applyLoudnessTag(tags, key, clean(decode(src.bytes(data.body + 8, data.end - data.body - 8), 'utf-8')));
+      }
+      continue;
+    }
+
+    const valueType = be32(src.bytes(data.body, 4), 0) & 0xFFFFFF;
+    const value = src.bytes(data.body + 8, data.end - data.body - 8);
+    const text = () => clean(decode(value, 'utf-8'));
+
+    switch (item.type) {
+      case '©nam': setIfMissing(tags, 'title', text()); break;
+      case '©ART': setIfMissing(tags, 'artist', text()); break;
+      case 'aART': setIfMissing(tags, 'albumArtist', text()); break;
+      case '©alb': setIfMissing(tags, 'album', text()); break;
+      case '©day': setIfMissing(tags, 'year', parseYear(text())); break;
+      case '©gen': setIfMissing(tags, 'genre', text()); break;
+      case '©lyr': setIfMissing(tags, 'lyrics', text()?.replace(/\r\n?/g, '\n')); break;
+      case 'gnre': setIfMissing(tags, 'genre', ID3_GENRES[be16(value, 0) - 1]); break;
+      case 'trkn': setIfMissing(tags, 'trackNumber', be16(value, 2) || undefined); break;
+      case 'disk': setIfMissing(tags, 'discNumber', be16(value, 2) || undefined); break;
+      case 'covr':
+        if (!tags.picture && value.length) {
+          const image = value.slice();
+          tags.picture = { mimeType: valueType === 14 ? 'image/png' : guessImageType(image), data: image };
+        }
+        break;
+    }
+  }
+};
+
+// --- Entry point ---
+
+export const parseTags = (src: ByteSource, options: ParseOptions = {}): AudioTags => {
+  const tags: AudioTags = {};
+  let offset = 0;
+
+  if (ascii(src.bytes(0, 3), 0, 3) === 'ID3') {
+    offset = parseId3v2(src, tags, options);
+  }
+
+  const magic = src.bytes(offset, 12);
+  if (ascii(magic, 0, 4) === 'fLaC') {
+    parseFlac(src, offset, tags, options);
+  } else if (ascii(magic, 0, 4) === 'OggS') {
+    parseOgg(src, tags, options);
+  } else if (ascii(magic, 4, 8) === 'ftyp') {
+    parseMp4(src, tags, options);
+  } else {
+    readMpegDuration(src, offset, tags);
+    if (!tags.title || !tags.artist) parseId3v1(src, tags);
+  }
+
+  finishChapters(tags);
+  return tags;
+};
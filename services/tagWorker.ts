@@ -0,0 +1,48 @@
+import { ByteSource, NeedBytesError, ParseOptions, parseTags } from './tagParser';
+
+// Runs the tag parser off the main thread. Each job keeps the bytes fetched so far; the
+// worker re-runs the parser whenever more arrive and asks for the next range it needs.
+
+interface Job {
+  source: ByteSource;
+  options: ParseOptions;
+}
+
+export type TagWorkerRequest =
+  | { type: 'start'; id: number; size: number; options: ParseOptions; offset: number; data: ArrayBuffer }
+  | { type: 'more'; id: number; offset: number; data: ArrayBuffer }
+  | { type: 'cancel'; id: number };
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<TagWorkerRequest>) => void) | null;
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+};
+
+const jobs = new Map<number, Job>();
+
+scope.onmessage = ({ data: message }) => {
+  if (message.type === 'cancel') {
+    jobs.delete(message.id);
+    return;
+  }
+  if (message.type === 'start') {
+    jobs.set(message.id, { source: new ByteSource(message.size), options: message.options });
+  }
+
+  const job = jobs.get(message.id);
+  if (!job) return;
+  job.source.add(message.offset, new Uint8Array(message.data));
+
+  try {
+    const tags = parseTags(job.source, job.options);
+    jobs.delete(message.id);
+    scope.postMessage({ id: message.id, status: 'done', tags }, tags.picture ? [tags.picture.data.buffer] : []);
+  } catch (e) {
+    if (e instanceof NeedBytesError) {
+      scope.postMessage({ id: message.id, status: 'need', offset: e.offset, length: e.length });
+      return;
+    }
+    jobs.delete(message.id);
+    scope.postMessage({ id: message.id, status: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+};
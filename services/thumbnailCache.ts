@@ -0,0 +1,110 @@
+import { Track } from "../types";
+import { libraryDb } from "./libraryDb";
+
+// Object URLs kept in memory; the least recently used are revoked past this
+const MEMORY_LIMIT = 400;
+// Thumbnails kept in IndexedDB across sessions
+const STORED_LIMIT = 5000;
+// How many new thumbnails to store between trimming the database
+const PRUNE_EVERY = 200;
+// Fetches at once, so scrolling a long list doesn't queue hundreds of requests
+const MAX_CONCURRENT_FETCHES = 4;
+
+/**
+ * Cover thumbnails for track lists. Drive's thumbnail links are fetched once, kept in
+ * IndexedDB per file revision and handed out as object URLs from a bounded in-memory cache.
+ */
+export class ThumbnailCache {
+  // Insertion order doubles as recency: hits are moved to the end
+  private memory = new Map<string, string>();
+  private pending = new Map<string, Promise<string | null>>();
+  private waiting: (() => void)[] = [];
+  private activeFetches = 0;
+  private storedSincePrune = 0;
+  // Set once the thumbnail host refuses cross-origin fetches; images then load straight from it
+  private directOnly = false;
+
+  private key(track: Track) {
+    return `${track.id}:${track.revision ?? ''}`;
+  }
+
+  /** A thumbnail that's already in memory, for rendering without a flash of the placeholder. */
+  public peek(track: Track): string | null {
+    const key = this.key(track);
+    const url = this.memory.get(key);
+    if (url === undefined) return null;
+    this.memory.delete(key);
+    this.memory.set(key, url);
+    return url;
+  }
+
+  /** Resolves to a URL for the track's thumbnail, or null when it has none. */
+  public load(track: Track): Promise<string | null> {
+    if (!track.coverArt) return Promise.resolve(null);
+    const cached = this.peek(track);
+    if (cached) return Promise.resolve(cached);
+    const key = this.key(track);
+    let promise = this.pending.get(key);
+    if (!promise) {
+      promise = this.fetchThumbnail(track).finally(() => this.pending.delete(key));
+      this.pending.set(key, promise);
+    }
+    return promise;
+  }
+
+  private async fetchThumbnail(track: Track): Promise<string | null> {
+    const stored = await libraryDb.getThumbnail(track).catch(() => undefined);
+    if (stored) return this.remember(track, stored);
+    if (this.directOnly) return track.coverArt;
+
+    await this.acquireSlot();
+    try {
+      const response = await fetch(track.coverArt);
+      if (!response.ok) throw new Error(`Thumbnail request failed: ${response.status}`);
+      const blob = await response.blob();
+      this.store(track, blob);
+      return this.remember(track, blob);
+    } catch (e) {
+      // A network-level failure here is almost always CORS; stop trying to fetch
+      if (e instanceof TypeError) this.directOnly = true;
+      return track.coverArt;
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private remember(track: Track, blob: Blob): string {
+    const url = URL.createObjectURL(blob);
+    this.memory.set(this.key(track), url);
+    while (this.memory.size > MEMORY_LIMIT) {
+      const [oldestKey, oldestUrl] = this.memory.entries().next().value!;
+      this.memory.delete(oldestKey);
+      URL.revokeObjectURL(oldestUrl);
+    }
+    return url;
+  }
+
+  private store(track: Track, blob: Blob) {
+    libraryDb.putThumbnail(track, blob).catch(e => console.warn("Failed to cache thumbnail:", e));
+    if (++this.storedSincePrune < PRUNE_EVERY) return;
+    this.storedSincePrune = 0;
+    libraryDb.pruneThumbnails(STORED_LIMIT).catch(e => console.warn("Failed to prune thumbnails:", e));
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.activeFetches < MAX_CONCURRENT_FETCHES) {
+      this.activeFetches++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  // Hands the slot straight to the newest waiting fetch: what's on screen now beats what scrolled past
+  private releaseSlot() {
+    const next = this.waiting.pop();
+    if (next) next();
+    else this.activeFetches--;
+  }
+}
+
+export const thumbnailCache = new ThumbnailCache();
@@ -0,0 +1,252 @@
+// Owns the Google Identity Services token client and the lifetime of the implicit-flow token
+
+const STORAGE_KEY_TOKEN = 'nova_drive_token';
+const STORAGE_KEY_EXPIRY = 'nova_drive_token_expiry';
+const STORAGE_KEY_SCOPE = 'nova_drive_token_scope';
+
+// Refresh a little before Google actually expires the token
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+// A refresh right after startup may run before the async GIS script has loaded
+const CLIENT_LOAD_TIMEOUT_MS = 10 * 1000;
+const CLIENT_POLL_MS = 100;
+
+export type AuthState = 'signed-out' | 'signed-in' | 'refreshing' | 'reconnect-required';
+
+export interface TokenResponse {
+  access_token: string;
+  expires_in?: string | number;
+  // Space-separated scopes the user actually granted, which can be fewer than were asked for
+  scope?: string;
+}
+
+export class ReconnectRequiredError extends Error {
+  constructor() {
+    super("Session expired. Please reconnect.");
+    this.name = 'ReconnectRequiredError';
+  }
+}
+
+export class TokenManager {
+  private token: string | null = null;
+  private expiresAt = 0;
+  private grantedScopes: string[] = [];
+  private tokenClient: any = null;
+  private clientId = '';
+  private refreshPromise: Promise<string> | null = null;
+  private pendingRequest: Promise<TokenResponse> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private state: AuthState = 'signed-out';
+  private listeners = new Set<(state: AuthState) => void>();
+
+  constructor(private scopes: string, private onTokenChange: (token: string | null) => void) {}
+
+  public init(clientId: string) {
+    this.clientId = clientId;
+    if (!clientId) return;
+
+    if (typeof window !== 'undefined' && (window as any).google) {
+      try {
+        this.tokenClient = (window as any).google.accounts.oauth2.initTokenClient({
+          client_id: clientId,
+          scope: this.scopes,
+          callback: () => {},
+        });
+      } catch (e) {
+        console.error("Failed to initialize Google Token Client:", e);
+      }
+    }
+  }
+
+  public isReady(): boolean {
+    return !!this.tokenClient;
+  }
+
+  // The GIS script loads async, so it may not have been there when init() first ran
+  private ensureClient() {
+    if (!this.tokenClient) this.init(this.clientId);
+  }
+
+  private async waitForClient() {
+    const deadline = Date.now() + CLIENT_LOAD_TIMEOUT_MS;
+    this.ensureClient();
+    while (!this.tokenClient && this.clientId && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, CLIENT_POLL_MS));
+      this.ensureClient();
+    }
+  }
+
+  // --- State ---
+
+  public getState(): AuthState {
+    return this.state;
+  }
+
+  public subscribe(listener: (state: AuthState) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private setState(state: AuthState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  public hasToken(): boolean {
+    return !!this.token;
+  }
+
+  /** Whether the current session was granted `scope`. Sessions stored before scopes were kept count as not. */
+  public hasGrantedScope(scope: string): boolean {
+    return this.grantedScopes.includes(scope);
+  }
+
+  // --- Persistence ---
+
+  /**
+   * Restores the stored session. A token that has expired or is about to is renewed silently;
+   * only a failed refresh asks the user to reconnect.
+   */
+  public restore(): string | null {
+    if (typeof localStorage === 'undefined') return null;
+
+    const token = localStorage.getItem(STORAGE_KEY_TOKEN);
+    const expiry = parseInt(localStorage.getItem(STORAGE_KEY_EXPIRY) || '', 10);
+    if (!token || !expiry) return null;
+    this.grantedScopes = (localStorage.getItem(STORAGE_KEY_SCOPE) || '').split(' ').filter(Boolean);
+
+    if (Date.now() > expiry - REFRESH_MARGIN_MS) {
+      // Requests wait for the refresh through getToken(); the stale token is never handed out
+      this.token = token;
+      this.expiresAt = expiry;
+      this.refresh().catch(() => {});
+      return token;
+    }
+
+    this.applyToken(token, expiry);
+    return token;
+  }
+
+  public setToken(token: string, expiresInSeconds: number, scope = '') {
+    const expiry = Date.now() + expiresInSeconds * 1000;
+    this.grantedScopes = scope.split(' ').filter(Boolean);
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY_TOKEN, token);
+      localStorage.setItem(STORAGE_KEY_EXPIRY, expiry.toString());
+      localStorage.setItem(STORAGE_KEY_SCOPE, scope);
+    }
+    this.applyToken(token, expiry);
+  }
+
+  public clear() {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(STORAGE_KEY_TOKEN);
+      localStorage.removeItem(STORAGE_KEY_EXPIRY);
+      localStorage.removeItem(STORAGE_KEY_SCOPE);
+    }
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.token = null;
+    this.expiresAt = 0;
+    this.grantedScopes = [];
+    this.onTokenChange(null);
+    this.setState('signed-out');
+  }
+
+  private applyToken(token: string, expiresAt: number) {
+    this.token = token;
+    this.expiresAt = expiresAt;
+    this.onTokenChange(token);
+    this.setState('signed-in');
+    this.scheduleRefresh();
+  }
+
+  private scheduleRefresh() {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    const delay = Math.max(0, this.expiresAt - REFRESH_MARGIN_MS - Date.now());
+    this.refreshTimer = setTimeout(() => {
+      this.refresh().catch(() => {});
+    }, delay);
+  }
+
+  // --- Token Requests ---
+
+  /**
+   * Asks Google for a token. An empty prompt reuses the existing consent without UI.
+   * The client has a single callback, so a request made while another is out shares its answer.
+   */
+  public requestToken(prompt: 'consent' | ''): Promise<TokenResponse> {
+    if (this.pendingRequest) return this.pendingRequest;
+    this.ensureClient();
+    const request = new Promise<TokenResponse>((resolve, reject) => {
+      if (!this.tokenClient) {
+        reject(new Error("Google Identity Services not loaded or Client ID invalid"));
+        return;
+      }
+
+      const timer = setTimeout(() => reject(new Error("Auth Error: timed out")), REQUEST_TIMEOUT_MS);
+
+      // Override the callbacks for this specific request to handle the promise
+      this.tokenClient.callback = (response: any) => {
+        clearTimeout(timer);
+        if (response.error !== undefined) {
+          reject(new Error(`Auth Error: ${response.error}`));
+          return;
+        }
+        resolve(response);
+      };
+      this.tokenClient.error_callback = (error: any) => {
+        clearTimeout(timer);
+        reject(new Error(`Auth Error: ${error?.type || 'unknown'}`));
+      };
+
+      this.tokenClient.requestAccessToken({ prompt });
+    });
+    this.pendingRequest = request.finally(() => {
+      this.pendingRequest = null;
+    });
+    return this.pendingRequest;
+  }
+
+  /** Returns a valid token, waiting for a refresh that's in flight or due. */
+  public async getToken(): Promise<string> {
+    if (this.refreshPromise) return this.refreshPromise;
+    if (!this.token) throw new Error("Not authenticated");
+    if (this.state === 'reconnect-required') throw new ReconnectRequiredError();
+    if (Date.now() > this.expiresAt - REFRESH_MARGIN_MS) return this.refresh();
+    return this.token;
+  }
+
+  /** Silently re-requests a token. Concurrent callers share the same refresh. */
+  public refresh(): Promise<string> {
+    // Once a silent refresh has failed only the user can sign in again; more attempts would
+    // just open hidden GIS iframes that time out
+    if (this.state === 'reconnect-required') return Promise.reject(new ReconnectRequiredError());
+    if (!this.refreshPromise) {
+      this.setState('refreshing');
+      // Interactive requests can't wait like this: the popup must open within the click
+      this.refreshPromise = this.waitForClient()
+        .then(() => this.requestToken(''))
+        .then(response => {
+          this.setToken(response.access_token, parseInt(String(response.expires_in || '3599'), 10), response.scope);
+          return response.access_token;
+        })
+        .catch(e => {
+          console.warn("Silent token refresh failed:", e);
+          this.setState('reconnect-required');
+          throw new ReconnectRequiredError();
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  /** Called after a 401. Only refreshes if nobody has replaced the rejected token yet. */
+  public async handleUnauthorized(rejectedToken: string): Promise<string> {
+    if (this.refreshPromise) return this.refreshPromise;
+    if (this.token && this.token !== rejectedToken) return this.token;
+    return this.refresh();
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { parseSearchQuery, searchTracks, sortResults } from './trackSearch';
+import { Track } from '../types';
+
+const makeTrack = (id: string, fields: Partial<Track>): Track => ({
+  id,
+  name: `Track ${id}`,
+  artist: 'Artist',
+  album: 'Album',
+  duration: 180,
+  url: `https://example.com/${id}.mp3`,
+  coverArt: '',
+  mimeType: 'audio/mpeg',
+  ...fields,
+});
+
+const ids = (tracks: { track: Track }[]) => tracks.map(r => r.track.id);
+
+describe('parseSearchQuery', () => {
+  it('reads qualifiers, quoted phrases and negation', () => {
+    expect(parseSearchQuery('queen -live artist:"freddie mercury" name:bohemian')).toEqual([
+      { kind: 'text', field: null, value: 'queen', phrase: false, negated: false },
+      { kind: 'text', field: null, value: 'live', phrase: false, negated: true },
+      { kind: 'text', field: 'artist', value: 'freddie mercury', phrase: true, negated: false },
+      { kind: 'text', field: 'title', value: 'bohemian', phrase: false, negated: false },
+    ]);
+  });
+
+  it('reads year ranges and comparisons', () => {
+    const ranges = ['year:1970..1979', 'year:>=2000', 'year:<1990', 'year:1985'].map(q => parseSearchQuery(q)[0]);
+    expect(ranges).toEqual([
+      { kind: 'range', field: 'year', range: { min: 1970, max: expect.closeTo(1980, 5) }, negated: false },
+      { kind: 'range', field: 'year', range: { min: 2000, max: Infinity }, negated: false },
+      { kind: 'range', field: 'year', range: { min: -Infinity, max: expect.closeTo(1990, 5) }, negated: false },
+      { kind: 'range', field: 'year', range: { min: 1985, max: expect.closeTo(1986, 5) }, negated: false },
+    ]);
+  });
+
+  it('reads durations in minutes, seconds, hours and clock form', () => {
+    const range = (query: string) => {
+      const term = parseSearchQuery(query)[0];
+      return term.kind === 'range' ? term.range : null;
+    };
+    // A bare value covers everything it names
+    expect(range('duration:5m')).toEqual({ min: 300, max: expect.closeTo(360, 5) });
+    expect(range('length:3:30')).toEqual({ min: 210, max: expect.closeTo(211, 5) });
+    expect(range('duration:>1h')).toEqual({ min: expect.closeTo(3600, 5), max: Infinity });
+    expect(range('duration:..90s')).toEqual({ min: -Infinity, max: expect.closeTo(91, 5) });
+    expect(range('duration:2..4')).toEqual({ min: 120, max: expect.closeTo(300, 5) });
+  });
+
+  it('searches unparseable or unknown qualifiers as text and drops stray punctuation', () => {
+    expect(parseSearchQuery('year:soon mood:happy - AC/DC')).toEqual([
+      { kind: 'text', field: null, value: 'year:soon', phrase: false, negated: false },
+      { kind: 'text', field: null, value: 'mood:happy', phrase: false, negated: false },
+      { kind: 'text', field: null, value: 'AC/DC', phrase: false, negated: false },
+    ]);
+  });
+
+  it('reads formats with or without the dot', () => {
+    expect(parseSearchQuery('format:.FLAC -ext:mp3')).toEqual([
+      { kind: 'format', value: 'flac', negated: false },
+      { kind: 'format', value: 'mp3', negated: true },
+    ]);
+  });
+});
+
+describe('searchTracks', () => {
+  const tracks = [
+    makeTrack('a', { name: 'Bohemian Rhapsody', artist: 'Queen', album: 'A Night at the Opera', year: 1975, duration: 354, fileName: 'bohemian.flac' }),
+    makeTrack('b', { name: 'Bohemian Rhapsody (Live)', artist: 'Queen', album: 'Live Killers', year: 1979, duration: 360 }),
+    makeTrack('c', { name: 'Halo', artist: 'Beyoncé', album: 'I Am... Sasha Fierce', year: 2008, duration: 261 }),
+    makeTrack('d', { name: 'Under Pressure', artist: 'Queen & David Bowie', album: 'Hot Space', year: 1982, duration: 248 }),
+  ];
+
+  it('returns everything in library order for an empty search', () => {
+    expect(ids(searchTracks(tracks, '   '))).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('matches across fields, ignoring accents', () => {
+    expect(ids(searchTracks(tracks, 'beyonce halo'))).toEqual(['c']);
+  });
+
+  it('tolerates a typo', () => {
+    expect(ids(searchTracks(tracks, 'bohemain'))).toEqual(['a', 'b']);
+  });
+
+  it('excludes negated words', () => {
+    expect(ids(searchTracks(tracks, 'queen -live'))).toEqual(['a', 'd']);
+  });
+
+  it('filters by year, duration and format', () => {
+    expect(ids(searchTracks(tracks, 'queen year:1975..1980')).sort()).toEqual(['a', 'b']);
+    expect(ids(searchTracks(tracks, 'duration:<5m'))).toEqual(['c', 'd']);
+    expect(ids(searchTracks(tracks, 'format:flac'))).toEqual(['a']);
+    expect(ids(searchTracks(tracks, 'queen -format:mp3'))).toEqual(['a']);
+  });
+
+  it('only matches a quoted phrase as written', () => {
+    expect(ids(searchTracks(tracks, '"under pressure"'))).toEqual(['d']);
+    expect(searchTracks(tracks, '"pressure under"')).toEqual([]);
+  });
+
+  it('highlights the matched characters', () => {
+    const [result] = searchTracks(tracks, 'artist:beyonce');
+    expect(result.highlights.artist).toEqual([0, 1, 2, 3, 4, 5, 6]);
+  });
+});
+
+describe('sortResults', () => {
+  const results = searchTracks([
+    makeTrack('a', { name: 'Track 10', duration: 200 }),
+    makeTrack('b', { name: 'track 2', duration: 100 }),
+    makeTrack('c', { name: 'Track 1', duration: 300 }),
+  ], '');
+
+  it('sorts titles naturally and ignores case', () => {
+    expect(ids(sortResults(results, { key: 'title', direction: 'asc' }))).toEqual(['c', 'b', 'a']);
+  });
+
+  it('sorts descending and leaves relevance order without a sort', () => {
+    expect(ids(sortResults(results, { key: 'duration', direction: 'desc' }))).toEqual(['c', 'a', 'b']);
+    expect(ids(sortResults(results, null))).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,259 @@
+import { Track } from "../types";
+import { byDiscAndTrack } from "./albumIndex";
+import { foldText, fuzzyMatchFields } from "./fuzzyMatch";
+
+type TextField = 'title' | 'artist' | 'album' | 'genre';
+type SearchField = TextField | 'year' | 'duration' | 'format';
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  title: 'title',
+  name: 'title',
+  artist: 'artist',
+  album: 'album',
+  genre: 'genre',
+  year: 'year',
+  duration: 'duration',
+  length: 'duration',
+  format: 'format',
+  ext: 'format',
+};
+
+// How much a free-text match in each field counts: title, artist, album, album artist, genre
+const FREE_TEXT_WEIGHTS = [1.2, 1, 0.9, 0.8, 0.6];
+const MIME_FORMATS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/flac': 'flac',
+  'audio/x-flac': 'flac',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/aac': 'aac',
+  'audio/ogg': 'ogg',
+  'audio/opus': 'opus',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/webm': 'webm',
+};
+
+interface NumberRange {
+  min: number;
+  max: number;
+}
+
+type SearchTerm =
+  | { kind: 'text'; field: TextField | null; value: string; phrase: boolean; negated: boolean }
+  | { kind: 'range'; field: 'year' | 'duration'; range: NumberRange; negated: boolean }
+  | { kind: 'format'; value: string; negated: boolean };
+
+/** Matched character positions in the fields a result shows, for highlighting. */
+export interface TrackHighlights {
+  name?: number[];
+  artist?: number[];
+  album?: number[];
+}
+
+export interface SearchResult {
+  track: Track;
+  score: number;
+  highlights: TrackHighlights;
+}
+
+export type TrackSortKey = 'title' | 'artist' | 'album' | 'duration';
+
+export interface TrackSort {
+  key: TrackSortKey;
+  direction: 'asc' | 'desc';
+}
+
+/** Splits a query into words, keeping "quoted phrases" (also after a qualifier) together. */
+const tokenize = (input: string): { text: string; quoted: boolean }[] => {
+  const tokens: { text: string; quoted: boolean }[] = [];
+  const pattern = /(-?(?:[\p{L}]+:)?)"([^"]*)"?|(\S+)/gu;
+  for (const match of input.matchAll(pattern)) {
+    if (match[3] !== undefined) tokens.push({ text: match[3], quoted: false });
+    else tokens.push({ text: match[1] + match[2], quoted: true });
+  }
+  return tokens;
+};
+
+/** Reads "5m", "90s", "1h30m", "3:30" or a bare number of minutes, with how precisely it was given. */
+const parseDuration = (value: string): { seconds: number; precision: number } | null => {
+  if (/^\d+(:\d{1,2}){1,2}$/.test(value)) {
+    return { seconds: value.split(':').map(Number).reduce((total, part) => total * 60 + part, 0), precision: 1 };
+  }
+  if (/^\d+(\.\d+)?$/.test(value)) return { seconds: Number(value) * 60, precision: 60 };
+  const units = /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?:in)?)?(?:(\d+(?:\.\d+)?)s)?$/.exec(value);
+  if (!units || !value) return null;
+  const [, hours, minutes, seconds] = units;
+  return {
+    seconds: Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0),
+    precision: seconds !== undefined ? 1 : minutes !== undefined ? 60 : 3600,
+  };
+};
+
+const parseYear = (value: string) => /^\d{4}$/.test(value) ? { seconds: Number(value), precision: 1 } : null;
+
+/**
+ * Reads "a..b", "a..", "..b", ">a", ">=a", "<a", "<=a" or "a". A bare value covers what it names,
+ * so "duration:5m" is anything from 5:00 to 5:59.
+ */
+const parseRange = (value: string, parse: (value: string) => { seconds: number; precision: number } | null): NumberRange | null => {
+  const between = /^(.*)\.\.(.*)$/.exec(value);
+  if (between) {
+    const from = between[1] ? parse(between[1]) : null;
+    const to = between[2] ? parse(between[2]) : null;
+    if ((between[1] && !from) || (between[2] && !to) || (!from && !to)) return null;
+    return { min: from ? from.seconds : -Infinity, max: to ? to.seconds + to.precision - 1e-9 : Infinity };
+  }
+  const compare = /^(>=|<=|>|<)(.+)$/.exec(value);
+  if (compare) {
+    const bound = parse(compare[2]);
+    if (!bound) return null;
+    switch (compare[1]) {
+      case '>': return { min: bound.seconds + 1e-9, max: Infinity };
+      case '>=': return { min: bound.seconds, max: Infinity };
+      case '<': return { min: -Infinity, max: bound.seconds - 1e-9 };
+      default: return { min: -Infinity, max: bound.seconds };
+    }
+  }
+  const exact = parse(value);
+  return exact && { min: exact.seconds, max: exact.seconds + exact.precision - 1e-9 };
+};
+
+/**
+ * Parses a search like `queen -live year:1970..1979 "bohemian rhapsody"`. Words with an unknown
+ * qualifier, or a value that doesn't parse, are searched for as plain text.
+ */
+export const parseSearchQuery = (input: string): SearchTerm[] => {
+  const terms: SearchTerm[] = [];
+  tokenize(input).forEach(({ text, quoted }) => {
+    const negated = text.length > 1 && text.startsWith('-');
+    const body = negated ? text.slice(1) : text;
+    const qualifier = /^([\p{L}]+):(.*)$/u.exec(body);
+    const field = qualifier ? FIELD_ALIASES[qualifier[1].toLowerCase()] : undefined;
+    const value = field ? qualifier![2] : body;
+    // Stray punctuation, like the dash in "AC/DC - Live", isn't something to search for
+    if (!/[\p{L}\p{N}]/u.test(value)) return;
+
+    if (field === 'year' || field === 'duration') {
+      const range = parseRange(value, field === 'year' ? parseYear : parseDuration);
+      if (range) {
+        terms.push({ kind: 'range', field, range, negated });
+        return;
+      }
+    } else if (field === 'format') {
+      terms.push({ kind: 'format', value: foldText(value).replace(/^\./, ''), negated });
+      return;
+    }
+    const textField = field && field !== 'year' && field !== 'duration' ? field : null;
+    terms.push({ kind: 'text', field: textField, value: textField ? value : body, phrase: quoted, negated });
+  });
+  return terms;
+};
+
+const trackFormat = (track: Track): string[] => {
+  const extension = track.fileName?.match(/\.([^.]+)$/)?.[1].toLowerCase();
+  if (extension) return [extension];
+  const mime = track.mimeType?.toLowerCase() ?? '';
+  return [MIME_FORMATS[mime], mime.split('/')[1]].filter((f): f is string => !!f);
+};
+
+const textFields = (track: Track): Record<TextField, string> => ({
+  title: track.name,
+  artist: track.artist,
+  album: track.album,
+  genre: track.genre ?? '',
+});
+
+const addHighlights = (highlights: TrackHighlights, field: TextField | 'albumArtist', indices: number[]) => {
+  if (field !== 'title' && field !== 'artist' && field !== 'album') return;
+  const key = field === 'title' ? 'name' : field;
+  highlights[key] = [...(highlights[key] ?? []), ...indices];
+};
+
+/** Positions of a whole-word-start occurrence of `value`, for phrases and exclusions. */
+const findPhrase = (value: string, text: string): number[] | null => {
+  const needle = foldText(value);
+  const haystack = foldText(text);
+  for (let from = haystack.indexOf(needle); from !== -1; from = haystack.indexOf(needle, from + 1)) {
+    if (from === 0 || !/[\p{L}\p{N}]/u.test(haystack[from - 1])) {
+      return Array.from({ length: needle.length }, (_, i) => from + i);
+    }
+  }
+  return null;
+};
+
+/** Scores a track against the parsed query, or null when it doesn't match. */
+const matchTrack = (track: Track, terms: SearchTerm[]): SearchResult | null => {
+  const fields = textFields(track);
+  const highlights: TrackHighlights = {};
+  let score = 0;
+  const freeWords: string[] = [];
+
+  for (const term of terms) {
+    if (term.kind === 'range') {
+      const value = term.field === 'year' ? track.year : track.duration;
+      const inRange = value !== undefined && value > 0 && value >= term.range.min && value <= term.range.max;
+      if (inRange === term.negated) return null;
+    } else if (term.kind === 'format') {
+      if (trackFormat(track).includes(term.value) === term.negated) return null;
+    } else if (term.negated) {
+      const searched = term.field ? [fields[term.field]] : Object.values(fields);
+      if (searched.some(text => findPhrase(term.value, text))) return null;
+    } else if (term.phrase) {
+      const searched: TextField[] = term.field ? [term.field] : ['title', 'artist', 'album', 'genre'];
+      const found = searched.map(field => ({ field, indices: findPhrase(term.value, fields[field]) })).find(f => f.indices);
+      if (!found) return null;
+      addHighlights(highlights, found.field, found.indices!);
+      score += found.indices!.length * 3;
+    } else if (term.field) {
+      const match = fuzzyMatchFields(term.value, [fields[term.field]]);
+      if (!match) return null;
+      addHighlights(highlights, term.field, match.indices[0]);
+      score += match.score;
+    } else {
+      freeWords.push(term.value);
+    }
+  }
+
+  if (freeWords.length > 0) {
+    const order: (TextField | 'albumArtist')[] = ['title', 'artist', 'album', 'albumArtist', 'genre'];
+    const values = order.map(field => field === 'albumArtist' ? track.albumArtist ?? '' : fields[field]);
+    const match = fuzzyMatchFields(freeWords.join(' '), values, FREE_TEXT_WEIGHTS);
+    if (!match) return null;
+    order.forEach((field, i) => addHighlights(highlights, field, match.indices[i]));
+    score += match.score;
+  }
+
+  return { track, score, highlights };
+};
+
+/** Tracks matching a search, best first. An empty search returns everything in library order. */
+export const searchTracks = (tracks: Track[], input: string): SearchResult[] => {
+  const terms = parseSearchQuery(input);
+  if (terms.length === 0) return tracks.map(track => ({ track, score: 0, highlights: {} }));
+  const results: SearchResult[] = [];
+  tracks.forEach(track => {
+    const result = matchTrack(track, terms);
+    if (result) results.push(result);
+  });
+  // Array.prototype.sort is stable, so equal scores keep library order
+  return results.sort((a, b) => b.score - a.score);
+};
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const COMPARERS: Record<TrackSortKey, (a: Track, b: Track) => number> = {
+  title: (a, b) => compareText(a.name, b.name),
+  artist: (a, b) => compareText(a.artist, b.artist) || compareText(a.album, b.album) || byDiscAndTrack(a, b),
+  album: (a, b) => compareText(a.album, b.album) || byDiscAndTrack(a, b),
+  duration: (a, b) => a.duration - b.duration,
+};
+
+/** Results in column order; with no sort they stay ranked by relevance. */
+export const sortResults = (results: SearchResult[], sort: TrackSort | null): SearchResult[] => {
+  if (!sort) return results;
+  const compare = COMPARERS[sort.key];
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...results].sort((a, b) => compare(a.track, b.track) * direction);
+};
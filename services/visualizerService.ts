@@ -0,0 +1,66 @@
+const STORAGE_KEY_SETTINGS = 'nova_visualizer';
+
+export type VisualizerMode = 'bars' | 'oscilloscope' | 'radial' | 'spectrogram';
+
+export const VISUALIZER_MODES: { mode: VisualizerMode; label: string }[] = [
+  { mode: 'bars', label: 'Spectrum bars' },
+  { mode: 'oscilloscope', label: 'Oscilloscope' },
+  { mode: 'radial', label: 'Radial spectrum' },
+  { mode: 'spectrogram', label: 'Spectrogram' },
+];
+
+export const MAX_SMOOTHING = 0.95;
+export const MIN_SENSITIVITY = 0.5;
+export const MAX_SENSITIVITY = 2;
+
+export interface VisualizerSettings {
+  mode: VisualizerMode;
+  // The analyser's smoothingTimeConstant: how much each frame keeps of the last
+  smoothing: number;
+  // Scales levels up for quiet material or down for loud masters
+  sensitivity: number;
+}
+
+/** How the visualizer draws, shared by the mini bar and full screen and kept across sessions. */
+export class VisualizerService {
+  private settings: VisualizerSettings = { mode: 'bars', smoothing: 0.8, sensitivity: 1 };
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      this.settings = { ...this.settings, ...JSON.parse(localStorage.getItem(STORAGE_KEY_SETTINGS) || '{}') };
+    } catch (e) {
+      console.warn("Discarding unreadable visualizer settings:", e);
+    }
+    if (!VISUALIZER_MODES.some(m => m.mode === this.settings.mode)) this.settings.mode = 'bars';
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public getSettings(): VisualizerSettings {
+    return { ...this.settings };
+  }
+
+  public updateSettings(settings: Partial<VisualizerSettings>) {
+    const next = { ...this.settings, ...settings };
+    next.smoothing = Math.min(MAX_SMOOTHING, Math.max(0, next.smoothing));
+    next.sensitivity = Math.min(MAX_SENSITIVITY, Math.max(MIN_SENSITIVITY, next.sensitivity));
+    this.settings = next;
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(this.settings));
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  /** Switches to the next mode, wrapping around. */
+  public cycleMode() {
+    const index = VISUALIZER_MODES.findIndex(m => m.mode === this.settings.mode);
+    this.updateSettings({ mode: VISUALIZER_MODES[(index + 1) % VISUALIZER_MODES.length].mode });
+  }
+}
+
+export const visualizerService = new VisualizerService();
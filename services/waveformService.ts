@@ -0,0 +1,111 @@
+import { Track } from "../types";
+import { audioBytes } from "./audioBytes";
+import { libraryDb } from "./libraryDb";
+import type { WaveformWorkerReply, WaveformWorkerRequest } from "./waveformWorker";
+
+// The outline only needs the envelope, so decoding resamples far below audio rates
+const DECODE_SAMPLE_RATE = 8000;
+// Mixes and audiobooks would have to be downloaded whole for an outline nobody can read at this width
+const MAX_WAVEFORM_SECONDS = 30 * 60;
+const WAVEFORM_BUCKETS = 1000;
+const MAX_CACHED = 100;
+
+/**
+ * Waveform overviews for the seek bar. Tracks are decoded one at a time and only while they are
+ * still the one asked for; the peaks are kept per track id, in memory and per file revision.
+ */
+export class WaveformService {
+  private cache = new Map<string, Promise<Float32Array | null>>();
+  private worker: Worker | null = null;
+  private nextJobId = 1;
+  private jobs = new Map<number, { resolve: (peaks: Float32Array) => void; reject: (error: Error) => void }>();
+  private decoding: Promise<unknown> = Promise.resolve();
+  private wanted: string | null = null;
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./waveformWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<WaveformWorkerReply>) => {
+        const job = this.jobs.get(event.data.id);
+        this.jobs.delete(event.data.id);
+        job?.resolve(event.data.peaks);
+      };
+      this.worker.onerror = (event) => this.handleWorkerFailure(new Error(`Waveform worker failed: ${event.message || 'unknown error'}`));
+      this.worker.onmessageerror = () => this.handleWorkerFailure(new Error("Waveform worker sent an unreadable message"));
+    }
+    return this.worker;
+  }
+
+  // A worker that failed to load or crashed never answers; without this the decode queue would wait forever
+  private handleWorkerFailure(error: Error) {
+    this.worker?.terminate();
+    this.worker = null;
+    const jobs = [...this.jobs.values()];
+    this.jobs.clear();
+    jobs.forEach(job => job.reject(error));
+  }
+
+  /** Peaks for the track, between 0 and 1; null when it's too long or can't be decoded. */
+  public getPeaks(track: Track, duration = track.duration): Promise<Float32Array | null> {
+    // Wait for the length before deciding a track is too long to draw
+    if (!(duration > 0)) return Promise.resolve(null);
+    this.wanted = track.id;
+    let peaks = this.cache.get(track.id);
+    if (!peaks) {
+      peaks = this.load(track, duration);
+      this.cache.set(track.id, peaks);
+      if (this.cache.size > MAX_CACHED) this.cache.delete(this.cache.keys().next().value!);
+    }
+    return peaks;
+  }
+
+  private async load(track: Track, duration: number): Promise<Float32Array | null> {
+    const stored = await libraryDb.getWaveform(track).catch(() => undefined);
+    if (stored !== undefined) return stored;
+    if (duration > MAX_WAVEFORM_SECONDS) return null;
+
+    const run = this.decoding.then(() => this.decode(track));
+    this.decoding = run.catch(() => undefined);
+    try {
+      const peaks = await run;
+      if (peaks === undefined) {
+        // Skipped past before its turn came; look again if it comes back
+        this.cache.delete(track.id);
+        return null;
+      }
+      libraryDb.putWaveform(track, peaks).catch(e => console.warn("Failed to cache waveform:", e));
+      return peaks;
+    } catch (e) {
+      // Likely a network error; try again next time the track plays
+      console.warn(`Failed to load waveform of "${track.name}":`, e);
+      this.cache.delete(track.id);
+      return null;
+    }
+  }
+
+  // undefined when the track is no longer wanted, null when its audio can't be decoded
+  private async decode(track: Track): Promise<Float32Array | null | undefined> {
+    if (this.wanted !== track.id) return undefined;
+    // Shared with the loudness measurement of the same track
+    const data = await audioBytes.get(track);
+
+    let decoded: AudioBuffer;
+    try {
+      decoded = await new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE).decodeAudioData(data);
+    } catch (e) {
+      console.warn(`Can't decode "${track.name}" for its waveform:`, e);
+      return null;
+    }
+
+    // Copies, so the worker can take the buffers without detaching the AudioBuffer's own
+    const channels = Array.from({ length: decoded.numberOfChannels }, (_, c) => decoded.getChannelData(c).slice());
+    const id = this.nextJobId++;
+    return new Promise((resolve, reject) => {
+      this.jobs.set(id, { resolve, reject });
+      const message: WaveformWorkerRequest = { id, channels, buckets: WAVEFORM_BUCKETS };
+      this.getWorker().postMessage(message, channels.map(samples => samples.buffer));
+    });
+  }
+}
+
+export const waveformService = new WaveformService();
@@ -0,0 +1,43 @@
+// Reduces decoded samples to waveform peaks off the main thread. The browser decodes on its
+// own audio threads, but walking millions of samples would still stall the UI.
+
+export type WaveformWorkerRequest = { id: number; channels: Float32Array[]; buckets: number };
+
+export type WaveformWorkerReply = { id: number; peaks: Float32Array };
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WaveformWorkerRequest>) => void) | null;
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+};
+
+/** Loudest sample in each of `buckets` equal slices, across channels, scaled so the loudest slice is 1. */
+const computePeaks = (channels: Float32Array[], buckets: number): Float32Array => {
+  const peaks = new Float32Array(buckets);
+  const length = channels[0]?.length ?? 0;
+  if (length === 0) return peaks;
+
+  for (let b = 0; b < buckets; b++) {
+    const start = Math.floor((b * length) / buckets);
+    const end = Math.max(start + 1, Math.floor(((b + 1) * length) / buckets));
+    let peak = 0;
+    for (const samples of channels) {
+      for (let i = start; i < end && i < length; i++) {
+        const value = Math.abs(samples[i]);
+        if (value > peak) peak = value;
+      }
+    }
+    peaks[b] = peak;
+  }
+
+  // Quiet masters should still fill the bar
+  let max = 0;
+  for (let b = 0; b < buckets; b++) if (peaks[b] > max) max = peaks[b];
+  if (max > 0) for (let b = 0; b < buckets; b++) peaks[b] /= max;
+  return peaks;
+};
+
+scope.onmessage = ({ data: message }) => {
+  const peaks = computePeaks(message.channels, message.buckets);
+  const reply: WaveformWorkerReply = { id: message.id, peaks };
+  scope.postMessage(reply, [peaks.buffer]);
+};
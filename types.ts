@@ -4,11 +4,69 @@ export interface Track {
   name: string;
   artist: string;
   album: string;
+  albumArtist?: string;
   duration: number;
+  trackNumber?: number;
+  discNumber?: number;
+  year?: number;
+  genre?: string;
   url: string;
   coverArt: string;
   mimeType: string;
+  size?: number;
   isRemote?: boolean;
+  parents?: string[];
+  fileName?: string; // Name of the file in Drive, extension included
+  loudness?: LoudnessInfo; // From ReplayGain/R128 tags
+  revision?: string; // Drive md5Checksum, or modifiedTime for files without one
+  metadataLoaded?: boolean;
+}
+
+// Integrated loudness in LUFS; peaks are linear sample peaks (1 = full scale)
+export interface LoudnessInfo {
+  track?: number;
+  trackPeak?: number;
+  album?: number;
+  albumPeak?: number;
+}
+
+export interface Chapter {
+  title: string;
+  start: number; // Seconds
+}
+
+export interface LyricLine {
+  time: number; // Seconds
+  text: string;
+}
+
+// Where lyrics came from: a sibling .lrc file, the file's own tags, or made in the app
+export type LyricsSource = 'lrc' | 'embedded' | 'edited';
+
+export type Lyrics =
+  | { synced: true; lines: LyricLine[]; source: LyricsSource }
+  | { synced: false; text: string; source: LyricsSource };
+
+export interface AudioPicture {
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  albumArtist?: string;
+  album?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  year?: number;
+  genre?: string;
+  duration?: number;
+  loudness?: LoudnessInfo;
+  chapters?: Chapter[];
+  lyrics?: string; // Unsynced, or LRC text some taggers put in plain lyrics tags
+  syncedLyrics?: LyricLine[];
+  picture?: AudioPicture;
 }
 
 export interface PlayerState {
@@ -16,8 +74,13 @@ export interface PlayerState {
   isPlaying: boolean;
   volume: number;
   currentTime: number;
+  duration: number;
   repeat: 'none' | 'one' | 'all';
   shuffle: boolean;
+  crossfade: number; // Seconds; 0 plays tracks back to back
+  playbackRate: number;
+  stopAfterTrack: boolean; // Pause when the current track ends instead of moving on
+  error: string | null;
 }
 
 export interface GeminiAnalysis {
@@ -26,3 +89,36 @@ export interface GeminiAnalysis {
   description: string;
   suggestedActivities: string[];
 }
+
+export interface DriveFolder {
+  id: string;
+  name: string;
+  parents?: string[];
+}
+
+export interface Album {
+  id: string;
+  name: string;
+  artist: string;
+  year?: number;
+  coverArt: string | null;
+  tracks: Track[];
+  duration: number;
+}
+
+export interface Artist {
+  id: string;
+  name: string;
+  albums: Album[];
+  trackCount: number;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  trackIds: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AppView = 'home' | 'folders' | 'library' | 'playlist' | 'liked';